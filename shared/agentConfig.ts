@@ -0,0 +1,242 @@
+/**
+ * Agent Config Model
+ * The shape of configs/agent.json and of the live config in KV. Shared by
+ * the orchestrator worker and the PWA, so both read the same fields.
+ */
+
+// Bumped whenever a stored field is renamed or reshaped; see the worker's configMigrations
+export const CONFIG_SCHEMA_VERSION = 3;
+
+export type SafetyCategory = 'self-harm' | 'abuse' | 'medical-emergency';
+
+export interface CrisisResource {
+  name: string;
+  // Phone number, short code or URL
+  contact: string;
+  // Shown only for these categories; all when omitted
+  categories?: SafetyCategory[];
+}
+
+export interface ContentPolicy {
+  sensitiveTopics?: string[];
+  safetyLevel?: string;
+  disclaimerRequired?: boolean;
+  disclaimer?: string;
+  // Used when the caller's country has no resource list
+  defaultRegion?: string;
+  // Per-country additions or replacements for the built-in resource lists
+  crisisResources?: Record<string, CrisisResource[]>;
+}
+
+export interface GuardianGate {
+  id: string;
+  name: string;
+  required: boolean;
+}
+
+// Provider-neutral voice settings; each TTS provider applies what it supports
+export interface VoiceSettings {
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  speed?: number;
+}
+
+export interface TTSTarget {
+  provider: string;
+  // Voice ids are provider-specific
+  voiceId?: string;
+  model?: string;
+  // Required for `openai-compatible`
+  baseUrl?: string;
+  // Pow3r Pass credential name, when it differs from the provider name
+  credential?: string;
+}
+
+// One entry in the LLM provider chain
+export interface LLMTarget {
+  provider: string;
+  model: string;
+  // Required for `openai-compatible`
+  baseUrl?: string;
+  // Pow3r Pass credential name, when it differs from the provider name
+  credential?: string;
+}
+
+export interface ProsodySetting {
+  // Rate multiplier, e.g. "0.9"
+  speed: string;
+  // Semitone shift, e.g. "-2st"
+  pitch: string;
+}
+
+export interface YaipProfile {
+  version?: string;
+  // Who the agent is talking to; shapes the tone the system prompt asks for
+  audienceProfiling?: {
+    targetPersona?: string;
+    psychologicModel?: string;
+    adaptiveMode?: boolean;
+  };
+  narrativeFlow?: {
+    archetypes?: string[];
+    prosodyMapping?: Record<string, ProsodySetting>;
+  };
+  terminologyOverrides?: {
+    weakToStrong?: Record<string, string>;
+  };
+}
+
+export interface SsmlConfig {
+  enabled: boolean;
+  includeBreaks?: boolean;
+  includeProsody?: boolean;
+  includeEmphasis?: boolean;
+}
+
+export interface LipSyncConfig {
+  mode: 'viseme' | 'amplitude' | 'none';
+  // Blend time between mouth shapes, in milliseconds
+  transitionDuration: number;
+  // 0-1; higher values absorb more short, jittery shapes
+  smoothing: number;
+  visemeMapping?: {
+    enabled: boolean;
+    phonemeSource: 'tts' | 'text';
+  };
+}
+
+export interface ExpressionConfig {
+  intensity: number;
+  ssmlTriggers: string[];
+}
+
+export interface VisualConfig {
+  enabled: boolean;
+  avatarType?: string;
+  avatar?: {
+    idleAsset?: string;
+    speakingAsset?: string;
+    thumbnailUrl?: string;
+    backgroundColor?: string;
+  };
+  lipSync?: LipSyncConfig;
+  expressions?: {
+    enabled: boolean;
+    emotions: Record<string, ExpressionConfig>;
+  };
+}
+
+export interface RateLimitRule {
+  // Units allowed per window: messages, characters or calls
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface VectorConfig {
+  // Workers AI model; its vector size must match the Vectorize index
+  embeddingModel?: string;
+  topK?: number;
+  // Minimum cosine similarity for a vector match to be used
+  similarityThreshold?: number;
+  // Rerank candidates with a cross-encoder before the topK cut
+  reranking?: boolean;
+  // Merge in BM25 keyword matches
+  hybrid?: boolean;
+}
+
+// An external service the worker calls; only `pow3r-pass` is recognised today
+export interface IntegrationConfig {
+  name: string;
+  endpoint?: string;
+  enabled: boolean;
+}
+
+export interface AgentConfig {
+  $schema?: string;
+  // Absent on configs stored before versioned schemas, which count as version 1
+  schemaVersion?: number;
+  agentId: string;
+  version: string;
+  createdAt?: string;
+  persona: {
+    name: string;
+    role: string;
+    systemPrompt: string;
+    greeting: string;
+    // Said when the user signs off
+    farewell?: string;
+    traits?: string[];
+    // OCEAN scores, 0-1
+    personality?: Record<string, number>;
+  };
+  voice: {
+    enabled: boolean;
+    ttsProvider: string;
+    voiceId?: string;
+    model?: string;
+    baseUrl?: string;
+    settings?: VoiceSettings;
+    timeoutMs?: number;
+    // Content-addressed R2 cache of synthesized audio (on unless disabled)
+    cache?: { enabled: boolean };
+    // Sentence-chunked synthesis for streamed replies and `/voice` streams
+    streaming?: { enabled: boolean; maxChunkChars?: number; concurrency?: number };
+    // Tried in order when the primary TTS provider errors or times out
+    fallback?: TTSTarget[];
+    yaipProfile?: YaipProfile;
+    ssmlConfig?: SsmlConfig;
+  };
+  visual?: VisualConfig;
+  knowledge?: {
+    // Topics the agent coaches on; named in the system prompt
+    domain?: string;
+    vectorConfig?: VectorConfig;
+  };
+  capabilities: {
+    voice?: {
+      enabled: boolean;
+      inputEnabled: boolean;
+      outputEnabled: boolean;
+    };
+    chat?: {
+      // When false, `/chat` and the agent_chat tool refuse requests
+      enabled?: boolean;
+      streaming: boolean;
+      maxTokens: number;
+      contextWindow: number;
+    };
+    llm: {
+      provider: string;
+      model: string;
+      baseUrl?: string;
+      temperature?: number;
+      topP?: number;
+      timeoutMs?: number;
+      // Tried in order when the primary provider errors (5xx) or times out
+      fallback?: LLMTarget[];
+    };
+    // Per user, session and IP; budgets left out use the defaults
+    rateLimits?: {
+      enabled?: boolean;
+      chat?: Partial<RateLimitRule>;
+      ttsCharacters?: Partial<RateLimitRule>;
+      transcribe?: Partial<RateLimitRule>;
+      mcp?: Partial<RateLimitRule>;
+    };
+    // MCP tools the server exposes; all when omitted
+    mcpTools?: string[];
+    integrations?: IntegrationConfig[];
+  };
+  // Deploy-time metadata for export tooling; not read at runtime
+  deployment?: Record<string, unknown>;
+  guardian?: {
+    enabled: boolean;
+    gates?: GuardianGate[];
+    // Also run the gates' output checks on chat replies
+    outputGates?: boolean;
+    constitutionRef?: string;
+    contentPolicy?: ContentPolicy;
+  };
+  lastUpdated?: string;
+}
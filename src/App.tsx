@@ -1,8 +1,16 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import Icon from './components/Icon';
+import Avatar from './components/Avatar';
 import SettingsModal from './components/SettingsModal';
+import JournalView from './components/JournalView';
+import MoodView from './components/MoodView';
+import SourceList from './components/SourceList';
 import logger from './utils/logger';
-import { sendChatMessage, ChatResponse } from './services/api';
+import { useAudioQueue } from './hooks/useAudioQueue';
+import { useVoiceInput } from './hooks/useVoiceInput';
+import { canSpeakInBrowser, speakInBrowser, stopBrowserSpeech } from './utils/browserSpeech';
+import { sendChatMessage, getAgentConfig, AgentConfig, ChatResponse, ChatSource, RateLimitError, VisemeTimeline } from './services/api';
+import seedConfig from '../configs/agent.json';
 
 /**
  * Maxi Agent - Main Application
@@ -23,6 +31,8 @@ interface Message {
   content: string;
   timestamp: Date;
   audioUrl?: string;
+  sources?: ChatSource[];
+  disclaimer?: string;
 }
 
 export default function App() {
@@ -33,19 +43,35 @@ export default function App() {
   const [voiceEnabled, setVoiceEnabled] = useState(true);
   const [darkMode, setDarkMode] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
-  const [isListening, setIsListening] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showMood, setShowMood] = useState(false);
+  const [handsFree, setHandsFree] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | undefined>(
+    () => localStorage.getItem('maxi-session-id') || undefined
+  );
+  // configs/agent.json until the worker's live config loads
+  const [agentConfig, setAgentConfig] = useState<AgentConfig>(seedConfig as AgentConfig);
+  const [voiceInputEnabled, setVoiceInputEnabled] = useState(true);
+  const [voiceOutputEnabled, setVoiceOutputEnabled] = useState(true);
+  const [browserSpeaking, setBrowserSpeaking] = useState(false);
+  const [activeAudio, setActiveAudio] = useState<HTMLAudioElement | null>(null);
+  const [activeVisemes, setActiveVisemes] = useState<VisemeTimeline | undefined>();
+  const [lastReply, setLastReply] = useState<string | undefined>();
+  // Seconds left before the worker accepts messages again after a 429
+  const [slowDown, setSlowDown] = useState(0);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Initialize with greeting
+  // Initialize with greeting (replaced by the live persona's once the config loads)
   useEffect(() => {
     logger.info(COMPONENT, 'App initialized');
     
     const greeting: Message = {
       id: 'greeting',
       role: 'assistant',
-      content: "Hey there! I'm Maxi, your wellness coach. I'm here to help you navigate relationships, mental health, and personal growth. What's on your mind today?",
+      content: seedConfig.persona.greeting,
       timestamp: new Date(),
     };
     
@@ -53,6 +79,34 @@ export default function App() {
     logger.success(COMPONENT, 'Greeting message set');
   }, []);
 
+  // Persona, avatar and voice settings from the live agent config
+  useEffect(() => {
+    getAgentConfig().then(config => {
+      if (!config) return;
+      logger.info(COMPONENT, 'Agent config loaded', { agentId: config.agentId, avatarType: config.visual?.avatarType });
+      setAgentConfig(config);
+      setMessages(current => current.map(message =>
+        message.id === 'greeting' ? { ...message, content: config.persona.greeting } : message
+      ));
+      const voice = config.capabilities.voice;
+      if (voice?.enabled === false || voice?.inputEnabled === false) {
+        logger.info(COMPONENT, 'Voice input disabled by config');
+        setVoiceInputEnabled(false);
+      }
+      if (!config.voice.enabled || voice?.enabled === false || voice?.outputEnabled === false) {
+        logger.info(COMPONENT, 'Voice output disabled by config');
+        setVoiceOutputEnabled(false);
+      }
+    });
+  }, []);
+
+  // Count the slow-down period down to zero
+  useEffect(() => {
+    if (slowDown <= 0) return;
+    const timer = setTimeout(() => setSlowDown(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [slowDown]);
+
   // Scroll to bottom on new messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -64,6 +118,7 @@ export default function App() {
     
     const savedVoice = localStorage.getItem('maxi-voice-enabled');
     const savedDarkMode = localStorage.getItem('maxi-dark-mode');
+    const savedHandsFree = localStorage.getItem('maxi-hands-free');
     
     if (savedVoice !== null) {
       setVoiceEnabled(savedVoice === 'true');
@@ -71,6 +126,9 @@ export default function App() {
     if (savedDarkMode !== null) {
       setDarkMode(savedDarkMode === 'true');
     }
+    if (savedHandsFree !== null) {
+      setHandsFree(savedHandsFree === 'true');
+    }
     
     logger.success(COMPONENT, 'Preferences loaded');
   }, []);
@@ -80,20 +138,68 @@ export default function App() {
     logger.info(COMPONENT, 'Saving preferences');
     localStorage.setItem('maxi-voice-enabled', String(voiceEnabled));
     localStorage.setItem('maxi-dark-mode', String(darkMode));
-  }, [voiceEnabled, darkMode]);
+    localStorage.setItem('maxi-hands-free', String(handsFree));
+  }, [voiceEnabled, darkMode, handsFree]);
 
   useEffect(() => {
     savePreferences();
-  }, [voiceEnabled, darkMode, savePreferences]);
+  }, [voiceEnabled, darkMode, handsFree, savePreferences]);
 
-  // Send message handler
-  const handleSendMessage = useCallback(async () => {
-    if (!input.trim() || isLoading) return;
+  // Voice input: interim transcripts fill the input box, a pause sends.
+  // Routed through a ref because sendMessage is defined below.
+  const sendRef = useRef<(text: string) => void>(() => {});
+  const voiceInput = useVoiceInput({
+    onInterim: setInput,
+    onFinal: (text) => sendRef.current(text),
+  });
+
+  // Hands-free: listen again once Maxi has finished replying
+  const resumeListening = useCallback((audio?: HTMLAudioElement) => {
+    if (!handsFree) return;
+    logger.info(COMPONENT, 'Hands-free: resuming listening', { afterAudio: !!audio });
+    if (audio) {
+      audio.addEventListener('ended', () => voiceInput.start(), { once: true });
+    } else {
+      voiceInput.start();
+    }
+  }, [handsFree, voiceInput]);
+
+  // Streamed sentence audio plays back to back; the avatar follows each clip
+  const audioQueue = useAudioQueue({
+    onPlay: (audio, visemes) => {
+      setActiveVisemes(visemes);
+      setActiveAudio(audio);
+    },
+    onDrained: () => resumeListening(),
+  });
+
+  // No reply audio: speak with the browser's own voice instead
+  const speakFallback = useCallback((text: string) => {
+    if (!voiceOutputEnabled || !canSpeakInBrowser()) {
+      resumeListening();
+      return;
+    }
+    logger.info(COMPONENT, 'Using browser speech fallback');
+    activeAudio?.pause();
+    setActiveVisemes(undefined);
+    setActiveAudio(null);
+    speakInBrowser(text, {
+      onStart: () => setBrowserSpeaking(true),
+      onEnd: () => {
+        setBrowserSpeaking(false);
+        resumeListening();
+      },
+    });
+  }, [voiceOutputEnabled, activeAudio, resumeListening]);
+
+  // Send a message (typed or spoken)
+  const sendMessage = useCallback(async (text: string) => {
+    if (!text.trim() || isLoading || slowDown > 0) return;
 
     const userMessage: Message = {
       id: crypto.randomUUID(),
       role: 'user',
-      content: input.trim(),
+      content: text.trim(),
       timestamp: new Date(),
     };
 
@@ -103,32 +209,88 @@ export default function App() {
     setInput('');
     setIsLoading(true);
 
+    // Streamed tokens fill this message in place as they arrive
+    const assistantId = crypto.randomUUID();
+    activeAudio?.pause();
+    stopBrowserSpeech();
+    audioQueue.begin();
+
     try {
       const response: ChatResponse = await sendChatMessage({
         message: userMessage.content,
+        sessionId,
         includeVoice: voiceEnabled,
+      }, (token) => {
+        setStreamingId(assistantId);
+        setMessages(prev => {
+          const existing = prev.find(m => m.id === assistantId);
+          if (existing) {
+            return prev.map(m => m.id === assistantId ? { ...m, content: m.content + token } : m);
+          }
+          return [...prev, { id: assistantId, role: 'assistant', content: token, timestamp: new Date() }];
+        });
+      }, (chunk) => {
+        if (voiceEnabled) audioQueue.enqueue(chunk);
       });
 
+      // Keep the worker-side conversation memory across turns and reloads
+      if (response.sessionId !== sessionId) {
+        logger.info(COMPONENT, 'Session established', { sessionId: response.sessionId });
+        setSessionId(response.sessionId);
+        localStorage.setItem('maxi-session-id', response.sessionId);
+      }
+
       const assistantMessage: Message = {
-        id: crypto.randomUUID(),
+        id: assistantId,
         role: 'assistant',
         content: response.text,
         timestamp: new Date(),
         audioUrl: response.audioUrl,
+        sources: response.sources,
+        disclaimer: response.disclaimer,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => prev.some(m => m.id === assistantId)
+        ? prev.map(m => m.id === assistantId ? assistantMessage : m)
+        : [...prev, assistantMessage]);
       logger.success(COMPONENT, 'Received assistant response', { length: response.text.length });
+      setLastReply(response.text);
+      if (response.safety) {
+        logger.warn(COMPONENT, 'Reply replaced by safety protocol', response.safety);
+        // Drop any chunks voiced from the replaced draft
+        audioQueue.stop();
+      }
 
-      // Auto-play audio if available
-      if (response.audioUrl && voiceEnabled) {
-        logger.info(COMPONENT, 'Playing audio response');
+      // Auto-play audio if available; the avatar lip-syncs to it
+      if (response.audioChunks && voiceEnabled) {
+        logger.info(COMPONENT, 'Reply voiced in chunks', { chunks: response.audioChunks });
+        audioQueue.end();
+      } else if (response.audioUrl && voiceEnabled) {
+        audioQueue.stop();
+        logger.info(COMPONENT, 'Playing audio response', { visemes: response.visemes?.cues.length ?? 0 });
+        activeAudio?.pause();
         const audio = new Audio(response.audioUrl);
+        setActiveVisemes(response.visemes);
+        setActiveAudio(audio);
+        resumeListening(audio);
         audio.play().catch(error => {
           logger.error(COMPONENT, 'Audio playback failed', error);
+          speakFallback(response.text);
         });
+      } else if (voiceEnabled) {
+        speakFallback(response.text);
+      } else {
+        resumeListening();
       }
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        // Not a connection problem: keep the message in the box and wait it out
+        logger.warn(COMPONENT, 'Slowing down', { retryAfter: error.retryAfter });
+        setMessages(prev => prev.filter(m => m.id !== userMessage.id && m.id !== assistantId));
+        setInput(userMessage.content);
+        setSlowDown(error.retryAfter);
+        return;
+      }
       logger.error(COMPONENT, 'Chat error', error);
       
       setMessages(prev => [...prev, {
@@ -139,8 +301,15 @@ export default function App() {
       }]);
     } finally {
       setIsLoading(false);
+      setStreamingId(null);
     }
-  }, [input, isLoading, voiceEnabled]);
+  }, [isLoading, slowDown, voiceEnabled, sessionId, activeAudio, audioQueue, resumeListening, speakFallback]);
+
+  sendRef.current = sendMessage;
+
+  const handleSendMessage = useCallback(() => {
+    sendMessage(input);
+  }, [sendMessage, input]);
 
   // Handle voice toggle
   const handleVoiceToggle = useCallback((enabled: boolean) => {
@@ -154,24 +323,41 @@ export default function App() {
     setDarkMode(enabled);
   }, []);
 
+  // Handle hands-free toggle
+  const handleHandsFreeToggle = useCallback((enabled: boolean) => {
+    logger.info(COMPONENT, `Hands-free toggled: ${enabled}`);
+    setHandsFree(enabled);
+  }, []);
+
   // Handle mic button
   const handleMicToggle = useCallback(() => {
-    logger.info(COMPONENT, `Mic toggled: ${!isListening}`);
-    setIsListening(!isListening);
-    // Voice input would be implemented here with Web Speech API
-  }, [isListening]);
+    logger.info(COMPONENT, `Mic toggled: ${!voiceInput.isListening}`, { mode: voiceInput.mode });
+    if (voiceInput.isListening) {
+      voiceInput.stop();
+    } else {
+      // Talking over Maxi interrupts the reply
+      activeAudio?.pause();
+      audioQueue.stop();
+      stopBrowserSpeech();
+      voiceInput.start();
+    }
+  }, [voiceInput, activeAudio, audioQueue]);
 
   return (
     <div className={`min-h-screen ${darkMode ? 'dark' : ''}`}>
       <div className="bg-background text-foreground min-h-screen flex flex-col max-w-2xl mx-auto">
         {/* Header */}
         <header className="flex items-center gap-3 p-4 bg-card border-b border-border sticky top-0 z-10">
-          <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center border-2 border-primary/40">
-            <Icon name="heart" className="w-6 h-6 text-primary" />
-          </div>
+          <Avatar
+            visual={agentConfig.visual}
+            audio={activeAudio}
+            visemes={activeVisemes}
+            speaking={browserSpeaking}
+            replyText={lastReply}
+          />
           <div className="flex-1">
-            <h1 className="text-lg font-semibold">Maxi</h1>
-            <p className="text-sm text-foreground/60">Wellness Coach</p>
+            <h1 className="text-lg font-semibold">{agentConfig.persona.name}</h1>
+            <p className="text-sm text-foreground/60">{agentConfig.persona.role}</p>
           </div>
           <button
             onClick={() => handleVoiceToggle(!voiceEnabled)}
@@ -183,6 +369,26 @@ export default function App() {
               className="w-5 h-5 text-foreground/60" 
             />
           </button>
+          <button
+            onClick={() => {
+              logger.info(COMPONENT, 'Opening mood check-in');
+              setShowMood(true);
+            }}
+            className="p-2 rounded-lg hover:bg-foreground/10 transition-colors"
+            title="Mood check-in"
+          >
+            <Icon name="face-smile" className="w-5 h-5 text-foreground/60" />
+          </button>
+          <button
+            onClick={() => {
+              logger.info(COMPONENT, 'Opening journal');
+              setShowJournal(true);
+            }}
+            className="p-2 rounded-lg hover:bg-foreground/10 transition-colors"
+            title="Journal"
+          >
+            <Icon name="book-open" className="w-5 h-5 text-foreground/60" />
+          </button>
           <button
             onClick={() => {
               logger.info(COMPONENT, 'Opening settings');
@@ -209,7 +415,16 @@ export default function App() {
                     : 'bg-card border border-border rounded-bl-sm'
                 }`}
               >
-                <p className="leading-relaxed">{message.content}</p>
+                {message.disclaimer && (
+                  <div className="flex items-start gap-2 text-xs text-foreground/60 mb-3 pb-3 border-b border-border">
+                    <Icon name="shield" className="w-4 h-4 flex-shrink-0" />
+                    <span>{message.disclaimer}</span>
+                  </div>
+                )}
+                <p className="leading-relaxed whitespace-pre-line">{message.content}</p>
+                {message.sources && message.sources.length > 0 && (
+                  <SourceList sources={message.sources} />
+                )}
                 <p className={`text-xs mt-2 ${
                   message.role === 'user' ? 'text-primary-foreground/60' : 'text-foreground/40'
                 }`}>
@@ -220,7 +435,7 @@ export default function App() {
           ))}
           
           {/* Loading indicator */}
-          {isLoading && (
+          {isLoading && !streamingId && (
             <div className="flex justify-start">
               <div className="bg-card border border-border rounded-2xl rounded-bl-sm p-4">
                 <div className="flex gap-1">
@@ -237,18 +452,33 @@ export default function App() {
 
         {/* Input Area */}
         <footer className="p-4 bg-card border-t border-border sticky bottom-0">
+          {slowDown > 0 && (
+            <div className="flex items-center gap-2 text-xs text-foreground/60 mb-2">
+              <Icon name="clock" className="w-4 h-4" />
+              <span>That's a lot of messages in a short time. Let's take a breath - you can send again in {slowDown}s.</span>
+            </div>
+          )}
+          {voiceInput.error && (
+            <div className="flex items-center gap-2 text-xs text-red-500 mb-2">
+              <Icon name="warning" className="w-4 h-4" />
+              <span>{voiceInput.error}</span>
+            </div>
+          )}
           <div className="flex items-center gap-2">
-            <button
-              onClick={handleMicToggle}
-              className={`p-3 rounded-full transition-colors ${
-                isListening 
-                  ? 'bg-red-500 text-white animate-pulse' 
-                  : 'bg-foreground/10 text-foreground/60 hover:bg-foreground/20'
-              }`}
-              title={isListening ? 'Listening...' : 'Voice input'}
-            >
-              <Icon name={isListening ? 'microphone' : 'microphone'} className="w-5 h-5" />
-            </button>
+            {voiceInputEnabled && voiceInput.mode && (
+              <button
+                onClick={handleMicToggle}
+                disabled={voiceInput.isTranscribing}
+                className={`p-3 rounded-full transition-colors disabled:opacity-50 ${
+                  voiceInput.isListening
+                    ? 'bg-red-500 text-white animate-pulse'
+                    : 'bg-foreground/10 text-foreground/60 hover:bg-foreground/20'
+                }`}
+                title={voiceInput.isListening ? 'Listening... (tap to stop)' : voiceInput.isTranscribing ? 'Transcribing...' : 'Voice input'}
+              >
+                <Icon name="microphone" className="w-5 h-5" />
+              </button>
+            )}
             
             <input
               ref={inputRef}
@@ -256,14 +486,14 @@ export default function App() {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-              placeholder="Talk to Maxi..."
+              placeholder={voiceInput.isListening ? 'Listening...' : voiceInput.isTranscribing ? 'Transcribing...' : `Talk to ${agentConfig.persona.name}...`}
               disabled={isLoading}
               className="flex-1 bg-background border border-border rounded-full px-4 py-3 text-foreground placeholder:text-foreground/40 focus:outline-none focus:border-primary transition-colors"
             />
             
             <button
               onClick={handleSendMessage}
-              disabled={!input.trim() || isLoading}
+              disabled={!input.trim() || isLoading || slowDown > 0}
               className="p-3 rounded-full bg-primary text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary/90 transition-colors"
               title="Send message"
             >
@@ -280,6 +510,22 @@ export default function App() {
           onVoiceToggle={handleVoiceToggle}
           darkMode={darkMode}
           onDarkModeToggle={handleDarkModeToggle}
+          handsFree={handsFree}
+          onHandsFreeToggle={handleHandsFreeToggle}
+          agentConfig={agentConfig}
+        />
+
+        {/* Journal */}
+        <JournalView
+          isOpen={showJournal}
+          onClose={() => setShowJournal(false)}
+          sessionId={sessionId}
+        />
+
+        {/* Mood */}
+        <MoodView
+          isOpen={showMood}
+          onClose={() => setShowMood(false)}
         />
       </div>
     </div>
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Icon from './Icon';
+import logger from '../utils/logger';
+import { ExpressionConfig, VisemeTimeline, VisualConfig } from '../services/api';
+
+/**
+ * Avatar Component
+ * Idle/speaking states follow the playing audio (or `speaking`, for browser
+ * speech that has no audio element). With viseme lip sync the
+ * vector face shapes its mouth from the timeline; otherwise the configured
+ * idle/speaking video loops play. The expression is chosen by matching the
+ * configured trigger phrases against the current reply.
+ */
+
+const COMPONENT = 'Avatar';
+
+// Mirrors visual in configs/agent.json
+const DEFAULT_VISUAL: VisualConfig = {
+  enabled: true,
+  avatar: { backgroundColor: '#0a1628' },
+  lipSync: { mode: 'viseme', transitionDuration: 100, smoothing: 0.6 },
+  expressions: {
+    enabled: true,
+    emotions: {
+      empathy: { intensity: 0.8, ssmlTriggers: ['understand', 'feel', 'hear you'] },
+      encouragement: { intensity: 0.9, ssmlTriggers: ['you can', 'believe in', 'proud'] },
+      thoughtful: { intensity: 0.7, ssmlTriggers: ['consider', 'think about', 'reflect'] },
+    },
+  },
+};
+
+interface MouthShape {
+  open: number;
+  width: number;
+}
+
+const MOUTH_SHAPES: Record<string, MouthShape> = {
+  sil: { open: 0, width: 0.5 },
+  PP: { open: 0, width: 0.45 },
+  FF: { open: 0.15, width: 0.55 },
+  TH: { open: 0.25, width: 0.55 },
+  DD: { open: 0.35, width: 0.6 },
+  kk: { open: 0.4, width: 0.55 },
+  CH: { open: 0.35, width: 0.45 },
+  SS: { open: 0.2, width: 0.65 },
+  nn: { open: 0.3, width: 0.55 },
+  RR: { open: 0.35, width: 0.45 },
+  aa: { open: 0.9, width: 0.6 },
+  E: { open: 0.6, width: 0.75 },
+  ih: { open: 0.45, width: 0.7 },
+  oh: { open: 0.75, width: 0.45 },
+  ou: { open: 0.5, width: 0.35 },
+};
+
+// Glow colour (RGB), smile and brow lift per expression
+const EXPRESSION_STYLES: Record<string, { glow: string; smile: number; brows: number }> = {
+  empathy: { glow: '244 114 182', smile: 0.3, brows: 0.6 },
+  encouragement: { glow: '250 204 21', smile: 0.8, brows: 0.4 },
+  thoughtful: { glow: '129 140 248', smile: 0, brows: -0.3 },
+};
+const NEUTRAL_STYLE = { glow: '255 255 255', smile: 0.2, brows: 0 };
+
+interface Expression {
+  name: string;
+  intensity: number;
+}
+
+// Strongest configured emotion by trigger matches x intensity
+function pickExpression(text: string, emotions: Record<string, ExpressionConfig>): Expression | null {
+  const lower = text.toLowerCase();
+  let best: Expression | null = null;
+  let bestScore = 0;
+
+  for (const [name, emotion] of Object.entries(emotions)) {
+    const matches = emotion.ssmlTriggers.filter(trigger => lower.includes(trigger.toLowerCase())).length;
+    const score = matches * emotion.intensity;
+    if (score > bestScore) {
+      best = { name, intensity: emotion.intensity };
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function mouthAt(visemes: VisemeTimeline, timeMs: number): MouthShape {
+  const index = visemes.cues.findIndex(cue => timeMs >= cue.start && timeMs < cue.end);
+  if (index === -1) return MOUTH_SHAPES.sil;
+
+  const cue = visemes.cues[index];
+  const target = MOUTH_SHAPES[cue.viseme] || MOUTH_SHAPES.sil;
+  const previous = MOUTH_SHAPES[visemes.cues[index - 1]?.viseme] || MOUTH_SHAPES.sil;
+  const blend = cue.transition > 0 ? Math.min(1, (timeMs - cue.start) / cue.transition) : 1;
+
+  return {
+    open: previous.open + (target.open - previous.open) * blend,
+    width: previous.width + (target.width - previous.width) * blend,
+  };
+}
+
+function mouthPath({ open, width }: MouthShape, smile: number): string {
+  const halfWidth = 10 + width * 12;
+  const opening = open * 14;
+  const lift = smile * 4;
+  return `M ${50 - halfWidth} ${70 - lift} `
+    + `Q 50 ${70 - opening * 0.35} ${50 + halfWidth} ${70 - lift} `
+    + `Q 50 ${70 + opening + lift * 1.5} ${50 - halfWidth} ${70 - lift} Z`;
+}
+
+interface AvatarProps {
+  visual?: VisualConfig;
+  audio: HTMLAudioElement | null;
+  visemes?: VisemeTimeline;
+  speaking?: boolean;
+  replyText?: string;
+  className?: string;
+}
+
+const Avatar: React.FC<AvatarProps> = ({ visual, audio, visemes, speaking = false, replyText, className = 'w-12 h-12' }) => {
+  const config = { ...DEFAULT_VISUAL, ...visual };
+  const [audioSpeaking, setAudioSpeaking] = useState(false);
+  const isSpeaking = audioSpeaking || speaking;
+  const [videoFailed, setVideoFailed] = useState(false);
+  const mouthRef = useRef<SVGPathElement>(null);
+
+  const showFace = config.lipSync?.mode === 'viseme' || videoFailed || !config.avatar?.idleAsset;
+
+  const expression = useMemo(() => {
+    if (!replyText || !config.expressions?.enabled) return null;
+    return pickExpression(replyText, config.expressions.emotions);
+  }, [replyText, config.expressions]);
+
+  const style = expression ? EXPRESSION_STYLES[expression.name] || NEUTRAL_STYLE : NEUTRAL_STYLE;
+  const smile = style.smile * (expression?.intensity ?? 1);
+
+  useEffect(() => {
+    if (expression) {
+      logger.info(COMPONENT, 'Expression selected', expression);
+    }
+  }, [expression]);
+
+  // Speaking state follows the audio element
+  useEffect(() => {
+    if (!audio) return;
+    const start = () => {
+      logger.info(COMPONENT, 'Speaking started', { visemes: visemes?.cues.length ?? 0 });
+      setAudioSpeaking(true);
+    };
+    const stop = () => {
+      logger.info(COMPONENT, 'Speaking stopped');
+      setAudioSpeaking(false);
+    };
+    audio.addEventListener('playing', start);
+    audio.addEventListener('pause', stop);
+    audio.addEventListener('ended', stop);
+    if (!audio.paused) setAudioSpeaking(true);
+    return () => {
+      audio.removeEventListener('playing', start);
+      audio.removeEventListener('pause', stop);
+      audio.removeEventListener('ended', stop);
+      setAudioSpeaking(false);
+    };
+  }, [audio, visemes]);
+
+  // Mouth animation, written straight to the path to avoid a render per frame
+  useEffect(() => {
+    const mouth = mouthRef.current;
+    if (!mouth) return;
+    if (!isSpeaking) {
+      mouth.setAttribute('d', mouthPath(MOUTH_SHAPES.sil, smile));
+      return;
+    }
+
+    let frame = 0;
+    const startedAt = performance.now();
+    const animate = () => {
+      const timeMs = audio ? audio.currentTime * 1000 : performance.now() - startedAt;
+      // Without a timeline, a gentle talking cycle
+      const shape = visemes?.cues.length
+        ? mouthAt(visemes, timeMs)
+        : { open: 0.25 + 0.35 * Math.abs(Math.sin(timeMs / 90)), width: 0.55 };
+      mouth.setAttribute('d', mouthPath(shape, smile * (1 - shape.open)));
+      frame = requestAnimationFrame(animate);
+    };
+    frame = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frame);
+  }, [isSpeaking, audio, visemes, smile]);
+
+  const browLift = style.brows * (expression?.intensity ?? 0) * 4;
+
+  if (!config.enabled) {
+    return (
+      <div className={`${className} rounded-full bg-primary/20 flex items-center justify-center border-2 border-primary/40 shrink-0`}>
+        <Icon name="heart" className="w-1/2 h-1/2 text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`${className} rounded-full overflow-hidden border-2 border-primary/40 transition-shadow duration-500 shrink-0`}
+      style={{
+        backgroundColor: config.avatar?.backgroundColor,
+        boxShadow: expression ? `0 0 ${8 + expression.intensity * 12}px rgb(${style.glow} / ${expression.intensity * 0.6})` : undefined,
+      }}
+      title={expression ? `Maxi (${expression.name})` : 'Maxi'}
+    >
+      {showFace ? (
+        <svg viewBox="0 0 100 100" className="w-full h-full text-primary">
+          <circle cx="50" cy="50" r="38" fill="currentColor" opacity="0.2" />
+          {/* Brows */}
+          <path
+            d={`M 28 ${36 - browLift} Q 35 ${32 - browLift * 1.5} 42 ${35 - browLift * 0.5}`}
+            stroke="currentColor" strokeWidth="3" strokeLinecap="round" fill="none"
+            className="transition-all duration-500"
+          />
+          <path
+            d={`M 58 ${35 - browLift * 0.5} Q 65 ${32 - browLift * 1.5} 72 ${36 - browLift}`}
+            stroke="currentColor" strokeWidth="3" strokeLinecap="round" fill="none"
+            className="transition-all duration-500"
+          />
+          {/* Eyes */}
+          <ellipse cx="35" cy="46" rx="4" ry="5" fill="currentColor" />
+          <ellipse cx="65" cy="46" rx="4" ry="5" fill="currentColor" />
+          {/* Mouth */}
+          <path ref={mouthRef} d={mouthPath(MOUTH_SHAPES.sil, smile)} fill="currentColor" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" />
+        </svg>
+      ) : (
+        <video
+          key={isSpeaking ? 'speaking' : 'idle'}
+          src={isSpeaking && config.avatar?.speakingAsset ? config.avatar.speakingAsset : config.avatar?.idleAsset}
+          poster={config.avatar?.thumbnailUrl}
+          autoPlay
+          loop
+          muted
+          playsInline
+          onError={() => {
+            logger.warn(COMPONENT, 'Avatar video unavailable, using vector face');
+            setVideoFailed(true);
+          }}
+          className="w-full h-full object-cover"
+        />
+      )}
+    </div>
+  );
+};
+
+export default Avatar;
@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Icon from './Icon';
+import logger from '../utils/logger';
+import {
+  getJournalEntry,
+  getJournalPrompt,
+  JournalEntrySummary,
+  JournalPrompt,
+  listJournalEntries,
+  saveJournalEntry,
+  searchJournalEntries,
+} from '../services/api';
+
+/**
+ * Journal View Component
+ * Guided prompts plus a searchable, editable history of entries
+ */
+
+const COMPONENT = 'JournalView';
+
+interface JournalViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId?: string;
+}
+
+const JournalView: React.FC<JournalViewProps> = ({ isOpen, onClose, sessionId }) => {
+  const [prompt, setPrompt] = useState<JournalPrompt | null>(null);
+  const [isPromptLoading, setIsPromptLoading] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<JournalEntrySummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPrompt = useCallback(async () => {
+    logger.info(COMPONENT, 'Loading prompt');
+    setIsPromptLoading(true);
+    try {
+      setPrompt(await getJournalPrompt(sessionId));
+    } catch {
+      setError('Could not load a prompt right now.');
+    } finally {
+      setIsPromptLoading(false);
+    }
+  }, [sessionId]);
+
+  const loadEntries = useCallback(async () => {
+    logger.info(COMPONENT, 'Loading entries');
+    try {
+      setEntries(await listJournalEntries());
+    } catch {
+      setError('Could not load your journal.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    loadPrompt();
+    loadEntries();
+  }, [isOpen, loadPrompt, loadEntries]);
+
+  const handleSearch = useCallback(async () => {
+    if (!query.trim()) {
+      loadEntries();
+      return;
+    }
+    logger.info(COMPONENT, 'Searching entries', { query });
+    try {
+      const results = await searchJournalEntries(query.trim());
+      setEntries(results.map(entry => ({
+        id: entry.id,
+        date: entry.date,
+        createdAt: entry.createdAt,
+        preview: entry.content.slice(0, 140),
+      })));
+    } catch {
+      setError('Search failed. Please try again.');
+    }
+  }, [query, loadEntries]);
+
+  const handleEdit = useCallback(async (id: string) => {
+    logger.info(COMPONENT, 'Opening entry', { id });
+    try {
+      const entry = await getJournalEntry(id);
+      setEditingId(entry.id);
+      setDraft(entry.content);
+      setPrompt(entry.prompt ? { prompt: entry.prompt, themes: [] } : null);
+    } catch {
+      setError('Could not open that entry.');
+    }
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    logger.info(COMPONENT, 'Cancelling edit');
+    setEditingId(null);
+    setDraft('');
+    loadPrompt();
+  }, [loadPrompt]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft.trim() || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveJournalEntry({
+        id: editingId || undefined,
+        content: draft.trim(),
+        prompt: editingId ? undefined : prompt?.prompt,
+        tags: editingId ? undefined : prompt?.themes,
+      });
+      logger.success(COMPONENT, 'Entry saved');
+      setDraft('');
+      setEditingId(null);
+      setQuery('');
+      await loadEntries();
+      if (editingId) loadPrompt();
+    } catch {
+      setError('Could not save your entry.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draft, isSaving, editingId, prompt, loadEntries, loadPrompt]);
+
+  if (!isOpen) return null;
+
+  logger.info(COMPONENT, 'Rendering journal view');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-card rounded-xl shadow-2xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Icon name="book-open" className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Journal</h2>
+          </div>
+          <button
+            onClick={() => {
+              logger.info(COMPONENT, 'Closing journal');
+              onClose();
+            }}
+            className="p-2 rounded-lg hover:bg-foreground/10 transition-colors"
+          >
+            <Icon name="cross" className="w-5 h-5 text-foreground/60" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-500">
+              <Icon name="warning" className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Prompt and editor */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-foreground/70">
+                {editingId ? 'Edit entry' : "Today's prompt"}
+              </h3>
+              {!editingId && (
+                <button
+                  onClick={loadPrompt}
+                  disabled={isPromptLoading}
+                  className="p-1 rounded-lg hover:bg-foreground/10 transition-colors disabled:opacity-50"
+                  title="New prompt"
+                >
+                  <Icon name="refresh" className={`w-4 h-4 text-foreground/60 ${isPromptLoading ? 'animate-spin' : ''}`} />
+                </button>
+              )}
+            </div>
+            <div className="bg-background rounded-lg p-3 space-y-3">
+              {prompt && (
+                <div>
+                  <p className="text-sm text-foreground leading-relaxed">{prompt.prompt}</p>
+                  {prompt.themes.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {prompt.themes.map(theme => (
+                        <span key={theme} className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary">
+                          {theme}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {isPromptLoading && !prompt && (
+                <p className="text-sm text-foreground/40">Finding a prompt for you...</p>
+              )}
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Write freely..."
+                rows={6}
+                className="w-full bg-card border border-border rounded-lg p-3 text-sm text-foreground placeholder:text-foreground/40 focus:outline-none focus:border-primary transition-colors resize-y"
+              />
+              <div className="flex justify-end gap-2">
+                {editingId && (
+                  <button
+                    onClick={handleCancelEdit}
+                    className="px-4 py-2 rounded-lg text-sm text-foreground/60 hover:bg-foreground/10 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.trim() || isSaving}
+                  className="px-4 py-2 rounded-lg text-sm bg-primary text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary/90 transition-colors"
+                >
+                  {isSaving ? 'Saving...' : editingId ? 'Update' : 'Save entry'}
+                </button>
+              </div>
+            </div>
+          </section>
+
+          {/* History */}
+          <section>
+            <h3 className="text-sm font-medium text-foreground/70 mb-3">Past entries</h3>
+            <div className="flex items-center gap-2 mb-3">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                placeholder="Search your journal..."
+                className="flex-1 bg-background border border-border rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-foreground/40 focus:outline-none focus:border-primary transition-colors"
+              />
+              <button
+                onClick={handleSearch}
+                className="p-2 rounded-lg bg-foreground/10 hover:bg-foreground/20 transition-colors"
+                title="Search"
+              >
+                <Icon name="search" className="w-4 h-4 text-foreground/60" />
+              </button>
+            </div>
+            <div className="space-y-2">
+              {entries.length === 0 && (
+                <p className="text-sm text-foreground/40">No entries yet.</p>
+              )}
+              {entries.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => handleEdit(entry.id)}
+                  className={`w-full text-left bg-background rounded-lg p-3 hover:bg-foreground/5 transition-colors ${
+                    entry.id === editingId ? 'border border-primary' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-foreground/40">{entry.date}</span>
+                    <Icon name="pencil" className="w-4 h-4 text-foreground/40" />
+                  </div>
+                  <p className="text-sm text-foreground mt-1 line-clamp-2">{entry.preview}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalView;
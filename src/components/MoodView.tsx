@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Icon from './Icon';
+import logger from '../utils/logger';
+import { getMoodTrends, MoodTrends, recordMoodCheckIn } from '../services/api';
+
+/**
+ * Mood View Component
+ * Quick check-in form plus averages, streaks and breakdowns
+ */
+
+const COMPONENT = 'MoodView';
+
+const EMOTIONS = [
+  'calm', 'happy', 'grateful', 'hopeful', 'energized',
+  'anxious', 'stressed', 'sad', 'lonely', 'angry', 'tired', 'overwhelmed',
+];
+
+interface MoodViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MoodView: React.FC<MoodViewProps> = ({ isOpen, onClose }) => {
+  const [score, setScore] = useState(6);
+  const [emotions, setEmotions] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [trends, setTrends] = useState<MoodTrends | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrends = useCallback(async () => {
+    logger.info(COMPONENT, 'Loading trends');
+    try {
+      setTrends(await getMoodTrends());
+    } catch {
+      setError('Could not load your mood history.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setSaved(false);
+    loadTrends();
+  }, [isOpen, loadTrends]);
+
+  const toggleEmotion = useCallback((emotion: string) => {
+    logger.debug(COMPONENT, `Emotion toggled: ${emotion}`);
+    setEmotions(prev => prev.includes(emotion) ? prev.filter(e => e !== emotion) : [...prev, emotion]);
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await recordMoodCheckIn({ score, emotions, note: note.trim() || undefined });
+      logger.success(COMPONENT, 'Check-in saved');
+      setEmotions([]);
+      setNote('');
+      setSaved(true);
+      await loadTrends();
+    } catch {
+      setError('Could not save your check-in.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [isSaving, score, emotions, note, loadTrends]);
+
+  if (!isOpen) return null;
+
+  logger.info(COMPONENT, 'Rendering mood view');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-card rounded-xl shadow-2xl w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Icon name="face-smile" className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Mood Check-in</h2>
+          </div>
+          <button
+            onClick={() => {
+              logger.info(COMPONENT, 'Closing mood view');
+              onClose();
+            }}
+            className="p-2 rounded-lg hover:bg-foreground/10 transition-colors"
+          >
+            <Icon name="cross" className="w-5 h-5 text-foreground/60" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-500">
+              <Icon name="warning" className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Check-in */}
+          <section>
+            <h3 className="text-sm font-medium text-foreground/70 mb-3">How are you feeling?</h3>
+            <div className="bg-background rounded-lg p-3 space-y-4">
+              <div>
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="text-foreground/60">Mood</span>
+                  <span className="text-primary font-semibold">{score}/10</span>
+                </div>
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  value={score}
+                  onChange={(e) => setScore(Number(e.target.value))}
+                  className="w-full accent-primary"
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {EMOTIONS.map(emotion => (
+                  <button
+                    key={emotion}
+                    onClick={() => toggleEmotion(emotion)}
+                    className={`text-xs px-3 py-1 rounded-full transition-colors ${
+                      emotions.includes(emotion)
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-foreground/10 text-foreground/60 hover:bg-foreground/20'
+                    }`}
+                  >
+                    {emotion}
+                  </button>
+                ))}
+              </div>
+
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Anything on your mind? (optional)"
+                rows={3}
+                maxLength={2000}
+                className="w-full bg-card border border-border rounded-lg p-3 text-sm text-foreground placeholder:text-foreground/40 focus:outline-none focus:border-primary transition-colors resize-y"
+              />
+
+              <div className="flex items-center justify-end gap-3">
+                {saved && (
+                  <span className="flex items-center gap-1 text-xs text-green-500">
+                    <Icon name="check" className="w-4 h-4" />
+                    Saved
+                  </span>
+                )}
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSaving}
+                  className="px-4 py-2 rounded-lg text-sm bg-primary text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary/90 transition-colors"
+                >
+                  {isSaving ? 'Saving...' : 'Check in'}
+                </button>
+              </div>
+            </div>
+          </section>
+
+          {/* Trends */}
+          {trends && trends.totalCheckIns > 0 && (
+            <section>
+              <div className="flex items-center gap-2 mb-3">
+                <Icon name="chart-bar" className="w-4 h-4 text-foreground/70" />
+                <h3 className="text-sm font-medium text-foreground/70">Your patterns</h3>
+              </div>
+              <div className="bg-background rounded-lg p-3 space-y-4">
+                {trends.shift.summary && (
+                  <p className="text-sm text-foreground">{trends.shift.summary}</p>
+                )}
+
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <p className="text-lg font-semibold text-foreground">{trends.averages.last7Days ?? '-'}</p>
+                    <p className="text-xs text-foreground/40">7-day avg</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold text-foreground">{trends.averages.last30Days ?? '-'}</p>
+                    <p className="text-xs text-foreground/40">30-day avg</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold text-foreground">{trends.streak.current}</p>
+                    <p className="text-xs text-foreground/40">Day streak</p>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-xs text-foreground/60 mb-2">By weekday</p>
+                  <div className="flex items-end gap-1 h-16">
+                    {trends.byWeekday.map(day => (
+                      <div key={day.weekday} className="flex-1 flex flex-col items-center gap-1" title={`${day.weekday}: ${day.average ?? 'no data'}`}>
+                        <div
+                          className="w-full rounded-t bg-primary/60"
+                          style={{ height: `${((day.average ?? 0) / 10) * 100}%` }}
+                        />
+                        <span className="text-[10px] text-foreground/40">{day.weekday.slice(0, 2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <p className="text-xs text-foreground/60 mb-2">By time of day</p>
+                  {trends.byTimeOfDay.filter(slot => slot.count > 0).map(slot => (
+                    <div key={slot.period} className="flex items-center justify-between text-xs">
+                      <span className="text-foreground/60 capitalize">{slot.period}</span>
+                      <span className="text-foreground">{slot.average}/10 ({slot.count})</span>
+                    </div>
+                  ))}
+                </div>
+
+                {trends.topEmotions.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {trends.topEmotions.map(({ emotion, count }) => (
+                      <span key={emotion} className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary">
+                        {emotion} x{count}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MoodView;
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import Icon from './Icon';
 import logger from '../utils/logger';
 import { getPow3rPassService, CredentialInfo } from '../services/pow3rPass';
+import type { AgentConfig } from '../services/api';
 
 /**
  * Settings Modal Component
@@ -17,6 +18,9 @@ interface SettingsModalProps {
   onVoiceToggle: (enabled: boolean) => void;
   darkMode: boolean;
   onDarkModeToggle: (enabled: boolean) => void;
+  handsFree: boolean;
+  onHandsFreeToggle: (enabled: boolean) => void;
+  agentConfig: AgentConfig;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -26,6 +30,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onVoiceToggle,
   darkMode,
   onDarkModeToggle,
+  handsFree,
+  onHandsFreeToggle,
+  agentConfig,
 }) => {
   const [pow3rPassStatus, setPow3rPassStatus] = useState<'checking' | 'connected' | 'disconnected'>('checking');
   const [credentials, setCredentials] = useState<CredentialInfo[]>([]);
@@ -158,6 +165,29 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <Icon name="microphone" className="w-5 h-5 text-foreground/60" />
+                  <div>
+                    <span className="text-sm text-foreground">Hands-free Conversation</span>
+                    <p className="text-xs text-foreground/40">Listen again after Maxi replies</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => {
+                    logger.info(COMPONENT, `Hands-free toggled: ${!handsFree}`);
+                    onHandsFreeToggle(!handsFree);
+                  }}
+                  className={`relative w-11 h-6 rounded-full transition-colors ${
+                    handsFree ? 'bg-primary' : 'bg-foreground/20'
+                  }`}
+                >
+                  <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                    handsFree ? 'translate-x-6' : 'translate-x-1'
+                  }`} />
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Icon name="volume-up" className="w-5 h-5 text-foreground/60" />
                   <span className="text-sm text-foreground">Voice Provider</span>
                 </div>
                 <span className="text-sm text-primary">ElevenLabs</span>
@@ -197,19 +227,19 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             <div className="bg-background rounded-lg p-3 space-y-2">
               <div className="flex items-center justify-between text-sm">
                 <span className="text-foreground/60">Agent</span>
-                <span className="text-foreground">Maxi</span>
+                <span className="text-foreground">{agentConfig.persona.name}</span>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-foreground/60">Role</span>
-                <span className="text-foreground">Wellness Coach</span>
+                <span className="text-foreground">{agentConfig.persona.role}</span>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-foreground/60">LLM</span>
-                <span className="text-foreground">xAI/Grok-2</span>
+                <span className="text-foreground">{agentConfig.capabilities.llm.provider}/{agentConfig.capabilities.llm.model}</span>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-foreground/60">Version</span>
-                <span className="text-foreground">1.0.0</span>
+                <span className="text-foreground">{agentConfig.version}</span>
               </div>
             </div>
           </section>
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import Icon from './Icon';
+import logger from '../utils/logger';
+import { ChatSource } from '../services/api';
+
+/**
+ * Source List Component
+ * Expandable citations for the knowledge entries a reply drew on
+ */
+
+const COMPONENT = 'SourceList';
+
+interface SourceListProps {
+  sources: ChatSource[];
+}
+
+const SourceList: React.FC<SourceListProps> = ({ sources }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border">
+      <button
+        onClick={() => {
+          logger.info(COMPONENT, `Sources ${isOpen ? 'collapsed' : 'expanded'}`, { count: sources.length });
+          setIsOpen(!isOpen);
+        }}
+        className="flex items-center gap-1 text-xs text-foreground/60 hover:text-foreground transition-colors"
+      >
+        <Icon name={isOpen ? 'chevron-down' : 'chevron-right'} className="w-3 h-3" />
+        <Icon name="book-open" className="w-3 h-3" />
+        <span>{sources.length} {sources.length === 1 ? 'source' : 'sources'}</span>
+      </button>
+
+      {isOpen && (
+        <ol className="mt-2 space-y-1">
+          {sources.map(source => (
+            <li key={source.id}>
+              <button
+                onClick={() => {
+                  logger.debug(COMPONENT, 'Source toggled', { id: source.id });
+                  setExpandedId(expandedId === source.id ? null : source.id);
+                }}
+                className="w-full text-left bg-background rounded-lg px-3 py-2 hover:bg-foreground/5 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-foreground truncate">
+                    [{source.citation}] {source.title}{source.section ? ` - ${source.section}` : ''}
+                  </span>
+                  <span className="text-foreground/40 shrink-0">{source.score.toFixed(2)}</span>
+                </div>
+                {expandedId === source.id && (
+                  <p className="text-xs text-foreground/60 mt-2 leading-relaxed whitespace-pre-line">{source.snippet}</p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import logger from '../utils/logger';
+import { AudioChunk, VisemeTimeline } from '../services/api';
+
+/**
+ * Audio Queue Hook
+ * Plays sentence-chunk audio back to back, in arrival order, while a reply
+ * is still streaming. onPlay fires for each clip (so the avatar can follow
+ * it); onDrained fires once the reply is complete and the last clip ended.
+ */
+
+const COMPONENT = 'AudioQueue';
+
+interface AudioQueueOptions {
+  onPlay: (audio: HTMLAudioElement, visemes?: VisemeTimeline) => void;
+  onDrained: () => void;
+}
+
+export function useAudioQueue({ onPlay, onDrained }: AudioQueueOptions) {
+  const queue = useRef<AudioChunk[]>([]);
+  const current = useRef<HTMLAudioElement | null>(null);
+  // More chunks may still arrive for the current reply
+  const open = useRef(false);
+  const played = useRef(0);
+
+  // Latest callbacks, so clips queued earlier never call stale closures
+  const callbacks = useRef({ onPlay, onDrained });
+  callbacks.current = { onPlay, onDrained };
+
+  const playNext = useCallback(() => {
+    const next = queue.current.shift();
+    if (!next) {
+      current.current = null;
+      if (!open.current && played.current > 0) {
+        logger.info(COMPONENT, 'Queue drained', { played: played.current });
+        callbacks.current.onDrained();
+      }
+      return;
+    }
+
+    const audio = new Audio(next.audioUrl);
+    current.current = audio;
+    played.current++;
+    audio.addEventListener('ended', playNext, { once: true });
+    logger.info(COMPONENT, 'Playing chunk', { index: next.index, visemes: next.visemes?.cues.length ?? 0 });
+    callbacks.current.onPlay(audio, next.visemes);
+    audio.play().catch(error => {
+      logger.error(COMPONENT, 'Chunk playback failed', error);
+      audio.removeEventListener('ended', playNext);
+      playNext();
+    });
+  }, []);
+
+  // Drop anything queued or playing
+  const stop = useCallback(() => {
+    if (current.current || queue.current.length) {
+      logger.info(COMPONENT, 'Stopping playback', { queued: queue.current.length });
+    }
+    queue.current = [];
+    open.current = false;
+    if (current.current) {
+      current.current.removeEventListener('ended', playNext);
+      current.current.pause();
+      current.current = null;
+    }
+  }, [playNext]);
+
+  // A new reply is about to stream
+  const begin = useCallback(() => {
+    stop();
+    open.current = true;
+    played.current = 0;
+  }, [stop]);
+
+  const enqueue = useCallback((chunk: AudioChunk) => {
+    queue.current.push(chunk);
+    if (!current.current) playNext();
+  }, [playNext]);
+
+  // The reply is complete; onDrained fires when the last clip ends
+  const end = useCallback(() => {
+    open.current = false;
+    if (!current.current && !queue.current.length && played.current > 0) {
+      callbacks.current.onDrained();
+    }
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return useMemo(() => ({ begin, enqueue, end, stop }), [begin, enqueue, end, stop]);
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import logger from '../utils/logger';
+import { transcribeAudio } from '../services/api';
+
+/**
+ * Voice Input Hook
+ * Uses the Web Speech API where available (with interim transcripts);
+ * otherwise records audio and transcribes it on the worker. Either way a
+ * pause in speech ends the utterance and hands the transcript to onFinal.
+ */
+
+const COMPONENT = 'VoiceInput';
+
+// Pause that ends an utterance
+const SILENCE_MS = 1500;
+// Recorder fallback: RMS level that counts as speech, and a hard length cap
+const SPEECH_LEVEL = 0.02;
+const MAX_RECORDING_MS = 30000;
+
+// Minimal Web Speech API surface (not in the TypeScript DOM lib)
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  const w = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+}
+
+export type VoiceInputMode = 'speech' | 'recorder';
+
+interface VoiceInputOptions {
+  onInterim: (text: string) => void;
+  onFinal: (text: string) => void;
+}
+
+export function useVoiceInput({ onInterim, onFinal }: VoiceInputOptions) {
+  const [isListening, setIsListening] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mode: VoiceInputMode | null = getSpeechRecognition()
+    ? 'speech'
+    : typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia ? 'recorder' : null;
+
+  // Latest callbacks, so long-lived recognizers never call stale closures
+  const callbacks = useRef({ onInterim, onFinal });
+  callbacks.current = { onInterim, onFinal };
+
+  const stopRef = useRef<(() => void) | null>(null);
+
+  const startSpeech = useCallback(() => {
+    const Recognition = getSpeechRecognition()!;
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = navigator.language || 'en-US';
+
+    let transcript = '';
+    let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(silenceTimer);
+      recognition.stop();
+      setIsListening(false);
+      stopRef.current = null;
+      const text = transcript.trim();
+      logger.info(COMPONENT, 'Utterance complete', { mode: 'speech', length: text.length });
+      if (text) callbacks.current.onFinal(text);
+    };
+
+    recognition.onresult = (event) => {
+      transcript = Array.from(event.results).map(result => result[0].transcript).join('');
+      callbacks.current.onInterim(transcript);
+      clearTimeout(silenceTimer);
+      silenceTimer = setTimeout(finish, SILENCE_MS);
+    };
+    recognition.onerror = (event) => {
+      // "no-speech" and "aborted" are normal ends of a quiet turn
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        logger.error(COMPONENT, 'Speech recognition error', event.error);
+        setError(event.error === 'not-allowed' ? 'Microphone access was denied.' : 'Voice input failed.');
+      }
+    };
+    recognition.onend = finish;
+
+    recognition.start();
+    stopRef.current = finish;
+    logger.info(COMPONENT, 'Listening', { mode: 'speech' });
+  }, []);
+
+  const startRecorder = useCallback(async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+
+    // Level meter for silence detection
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let heardSpeech = false;
+    let lastSound = Date.now();
+    const startedAt = Date.now();
+    let frame = 0;
+
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    const monitor = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((total, sample) => total + sample * sample, 0) / samples.length);
+      if (rms > SPEECH_LEVEL) {
+        heardSpeech = true;
+        lastSound = Date.now();
+      }
+      const now = Date.now();
+      if ((heardSpeech && now - lastSound > SILENCE_MS) || now - startedAt > MAX_RECORDING_MS) {
+        stop();
+        return;
+      }
+      frame = requestAnimationFrame(monitor);
+    };
+
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+      setIsListening(false);
+      stopRef.current = null;
+      if (!heardSpeech) {
+        logger.info(COMPONENT, 'No speech detected');
+        return;
+      }
+
+      setIsTranscribing(true);
+      try {
+        const text = (await transcribeAudio(new Blob(chunks, { type: recorder.mimeType }))).trim();
+        logger.info(COMPONENT, 'Utterance complete', { mode: 'recorder', length: text.length });
+        if (text) callbacks.current.onFinal(text);
+      } catch {
+        setError('Could not transcribe that. Please try again.');
+      } finally {
+        setIsTranscribing(false);
+      }
+    };
+
+    recorder.start();
+    frame = requestAnimationFrame(monitor);
+    stopRef.current = stop;
+    logger.info(COMPONENT, 'Listening', { mode: 'recorder', mimeType: recorder.mimeType });
+  }, []);
+
+  const start = useCallback(async () => {
+    if (stopRef.current || !mode) return;
+    setError(null);
+    setIsListening(true);
+    try {
+      if (mode === 'speech') startSpeech();
+      else await startRecorder();
+    } catch (err) {
+      logger.error(COMPONENT, 'Could not start voice input', err);
+      setError('Microphone is unavailable.');
+      setIsListening(false);
+    }
+  }, [mode, startSpeech, startRecorder]);
+
+  const stop = useCallback(() => {
+    logger.info(COMPONENT, 'Stopping voice input');
+    stopRef.current?.();
+  }, []);
+
+  // Release the microphone on unmount
+  useEffect(() => () => stopRef.current?.(), []);
+
+  return { mode, isListening, isTranscribing, error, start, stop };
+}
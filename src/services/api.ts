@@ -3,76 +3,278 @@
  * All functions log per Guardian rules
  */
 
+import type { AgentConfig } from '../../shared/agentConfig';
 import logger from '../utils/logger';
 import { getPow3rPassService } from './pow3rPass';
 
+export type { AgentConfig, ExpressionConfig, VisualConfig } from '../../shared/agentConfig';
+
 const COMPONENT = 'API';
 const WORKER_URL = 'https://maxi-orchestrator.contact-7d8.workers.dev';
+const USER_ID_KEY = 'maxi-user-id';
+const SESSION_TOKEN_KEY = 'maxi-session-token';
+// Refresh the session token when less than this is left
+const SESSION_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
 
 export interface ChatRequest {
   message: string;
   sessionId?: string;
   includeVoice?: boolean;
+  stream?: boolean;
+}
+
+export interface ChatSource {
+  // The [n] marker used in the reply text
+  citation: number;
+  id: string;
+  docId?: string;
+  title: string;
+  section?: string;
+  score: number;
+  snippet: string;
+}
+
+export interface VisemeCue {
+  viseme: string;
+  start: number;
+  end: number;
+  transition: number;
+}
+
+export interface VisemeTimeline {
+  duration: number;
+  cues: VisemeCue[];
+}
+
+// One sentence-chunk of reply audio, streamed ahead of the final event
+export interface AudioChunk {
+  index: number;
+  text: string;
+  audioUrl: string;
+  visemes?: VisemeTimeline;
 }
 
 export interface ChatResponse {
   text: string;
   audioUrl?: string;
+  // Set when the reply was voiced as streamed audio chunks instead of one audioUrl
+  audioChunks?: number;
+  visemes?: VisemeTimeline;
   sessionId: string;
+  sources?: ChatSource[];
   metadata?: {
     model: string;
     tokensUsed: number;
     retrievalCount: number;
   };
+  // Set when the worker's safety gate replaced the reply with the crisis protocol
+  safety?: {
+    stage: 'input' | 'output';
+    categories: string[];
+  };
+  // Shown with the first reply of a session
+  disclaimer?: string;
 }
 
-export interface AgentConfig {
-  agentId: string;
-  persona: {
-    name: string;
-    role: string;
-    systemPrompt: string;
-    greeting: string;
+export interface JournalEntry {
+  id: string;
+  date: string;
+  prompt?: string;
+  content: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JournalEntrySummary {
+  id: string;
+  date: string;
+  createdAt: string;
+  preview: string;
+}
+
+export interface JournalPrompt {
+  prompt: string;
+  themes: string[];
+}
+
+export interface MoodCheckIn {
+  id: string;
+  score: number;
+  emotions: string[];
+  note?: string;
+  timestamp: string;
+  localDate: string;
+}
+
+export interface MoodTrends {
+  totalCheckIns: number;
+  latest?: MoodCheckIn;
+  averages: {
+    last7Days: number | null;
+    last30Days: number | null;
+    baseline: number | null;
   };
-  voice: {
-    enabled: boolean;
-    ttsProvider: string;
+  streak: {
+    current: number;
+    longest: number;
   };
-  capabilities: {
-    llm: {
-      provider: string;
-      model: string;
-    };
+  byWeekday: Array<{ weekday: string; average: number | null; count: number }>;
+  byTimeOfDay: Array<{ period: string; average: number | null; count: number }>;
+  topEmotions: Array<{ emotion: string; count: number }>;
+  shift: {
+    direction: 'lower' | 'higher' | 'steady';
+    delta: number;
+    summary: string | null;
   };
 }
 
+/**
+ * The worker refused a call with 429; retry after `retryAfter` seconds
+ */
+export class RateLimitError extends Error {
+  constructor(readonly retryAfter: number) {
+    super(`Rate limited, retry in ${retryAfter}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Anonymous per-device user id that scopes journal and tracking data;
+ * claimed by the first session token this device requests
+ */
+export function getUserId(): string {
+  let userId = localStorage.getItem(USER_ID_KEY);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    localStorage.setItem(USER_ID_KEY, userId);
+    logger.info(COMPONENT, 'Created user id');
+  }
+  return userId;
+}
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+let pendingSession: Promise<string> | null = null;
+
+async function requestSession(current: string | null): Promise<string> {
+  const post = (body: object, token?: string | null) => fetch(`${WORKER_URL}/auth/session`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Agent-ID': 'maxi',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  // Refresh, or claim this device's existing user id
+  let response = await post(current ? {} : { userId: getUserId() }, current);
+  if (response.status === 409) {
+    // The id was claimed by an earlier session we no longer hold; start fresh
+    logger.warn(COMPONENT, 'User id already claimed, starting a new session');
+    response = await post({});
+  }
+  if (!response.ok) {
+    throw new Error(`Session error: ${response.status}`);
+  }
+
+  const { userId, token, expiresAt } = await response.json() as { userId: string } & StoredSession;
+  localStorage.setItem(USER_ID_KEY, userId);
+  localStorage.setItem(SESSION_TOKEN_KEY, JSON.stringify({ token, expiresAt }));
+  logger.success(COMPONENT, 'Session token issued', { expiresAt });
+  return token;
+}
+
+/**
+ * Signed session token for this device, issued or refreshed as needed
+ */
+async function getSessionToken(forceNew: boolean = false): Promise<string> {
+  const stored = localStorage.getItem(SESSION_TOKEN_KEY);
+  const session = stored && !forceNew ? JSON.parse(stored) as StoredSession : null;
+  const remaining = session ? new Date(session.expiresAt).getTime() - Date.now() : 0;
+  if (session && remaining > SESSION_REFRESH_MS) {
+    return session.token;
+  }
+
+  if (!pendingSession) {
+    logger.info(COMPONENT, session ? 'Refreshing session token' : 'Requesting session token');
+    pendingSession = requestSession(session && remaining > 0 ? session.token : null)
+      .finally(() => { pendingSession = null; });
+  }
+  return pendingSession;
+}
+
+/**
+ * fetch() against the worker with the session token; a rejected token is
+ * replaced once
+ */
+async function authFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string) => fetch(`${WORKER_URL}${path}`, {
+    ...init,
+    headers: {
+      'X-Agent-ID': 'maxi',
+      ...init.headers,
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  const response = await send(await getSessionToken());
+  if (response.status !== 401) return response;
+
+  logger.warn(COMPONENT, 'Session token rejected, requesting a new one');
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+  return send(await getSessionToken(true));
+}
+
 /**
  * Send a chat message to Maxi
+ * Pass `onToken` to stream the reply; it is called with each text delta as it arrives.
+ * With voice, `onAudio` receives sentence-chunk audio in order while the reply streams.
  */
-export async function sendChatMessage(request: ChatRequest): Promise<ChatResponse> {
+export async function sendChatMessage(
+  request: ChatRequest,
+  onToken?: (token: string) => void,
+  onAudio?: (chunk: AudioChunk) => void
+): Promise<ChatResponse> {
   logger.info(COMPONENT, 'Sending chat message', { 
     messageLength: request.message.length,
-    includeVoice: request.includeVoice 
+    includeVoice: request.includeVoice,
+    stream: !!onToken,
   });
 
   try {
-    const response = await fetch(`${WORKER_URL}/chat`, {
+    const response = await authFetch('/chat', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Agent-ID': 'maxi',
+        'Accept': onToken ? 'text/event-stream' : 'application/json',
       },
-      body: JSON.stringify(request),
+      body: JSON.stringify({ ...request, stream: !!onToken }),
     });
 
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '') || 60;
+      logger.warn(COMPONENT, 'Chat rate limited', { retryAfter });
+      throw new RateLimitError(retryAfter);
+    }
     if (!response.ok) {
       throw new Error(`Chat API error: ${response.status}`);
     }
 
-    const data = await response.json() as ChatResponse;
+    // The worker falls back to JSON when streaming is disabled in config
+    const isStream = response.headers.get('Content-Type')?.includes('text/event-stream');
+    const data = onToken && isStream && response.body
+      ? await readChatStream(response.body, onToken, onAudio)
+      : await response.json() as ChatResponse;
+
     logger.success(COMPONENT, 'Chat response received', { 
       textLength: data.text.length,
-      hasAudio: !!data.audioUrl 
+      hasAudio: !!data.audioUrl,
+      streamed: !!isStream,
     });
     
     return data;
@@ -82,6 +284,63 @@ export async function sendChatMessage(request: ChatRequest): Promise<ChatRespons
   }
 }
 
+/**
+ * Read the worker's chat SSE stream (`token`, `audio`, `done`, `error` events)
+ */
+async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onToken: (token: string) => void,
+  onAudio?: (chunk: AudioChunk) => void
+): Promise<ChatResponse> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  // `done` carries `text` only when it replaces the streamed tokens (or none were streamed)
+  let final: Partial<ChatResponse> | null = null;
+
+  const handleEvent = (raw: string) => {
+    const event = raw.match(/^event: (.*)$/m)?.[1];
+    const data = raw.match(/^data: (.*)$/m)?.[1];
+    if (!event || !data) return;
+
+    const payload = JSON.parse(data);
+    if (event === 'token') {
+      text += payload.text;
+      onToken(payload.text);
+    } else if (event === 'audio') {
+      logger.debug(COMPONENT, 'Audio chunk received', { index: payload.index });
+      onAudio?.(payload);
+    } else if (event === 'done') {
+      final = payload;
+    } else if (event === 'error') {
+      throw new Error(payload.message || 'Chat stream error');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      handleEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  if (!final) {
+    throw new Error('Chat stream ended without a final event');
+  }
+
+  logger.debug(COMPONENT, 'Chat stream complete', { textLength: text.length });
+  return { text, ...(final as Partial<ChatResponse>) } as ChatResponse;
+}
+
+// ETag (config version) of the last config read, for optimistic concurrency on save
+let configETag: string | null = null;
+
 /**
  * Get agent configuration from KV
  */
@@ -89,11 +348,10 @@ export async function getAgentConfig(): Promise<AgentConfig | null> {
   logger.info(COMPONENT, 'Fetching agent config');
 
   try {
-    const response = await fetch(`${WORKER_URL}/config`, {
+    const response = await authFetch('/config', {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
-        'X-Agent-ID': 'maxi',
       },
     });
 
@@ -103,7 +361,8 @@ export async function getAgentConfig(): Promise<AgentConfig | null> {
     }
 
     const config = await response.json() as AgentConfig;
-    logger.success(COMPONENT, 'Config loaded', { agentId: config.agentId });
+    configETag = response.headers.get('ETag');
+    logger.success(COMPONENT, 'Config loaded', { agentId: config.agentId, version: configETag });
     return config;
   } catch (error) {
     logger.error(COMPONENT, 'Config fetch error', error);
@@ -111,32 +370,62 @@ export async function getAgentConfig(): Promise<AgentConfig | null> {
   }
 }
 
+export interface SaveConfigResult {
+  success: boolean;
+  // New version on success
+  version?: number;
+  // Someone else saved since the config was read (or it was never read); reload and reapply
+  conflict?: boolean;
+}
+
 /**
  * Save agent configuration to KV (for self-healing tests)
+ * Requires an admin API key. The save only applies on top of the version
+ * last read with getAgentConfig (or `options.etag`).
  */
-export async function saveAgentConfig(config: AgentConfig): Promise<boolean> {
+export async function saveAgentConfig(
+  config: AgentConfig,
+  adminKey: string,
+  options: { etag?: string; note?: string; author?: string } = {}
+): Promise<SaveConfigResult> {
   logger.info(COMPONENT, 'Saving agent config', { agentId: config.agentId });
 
+  const etag = options.etag ?? configETag;
   try {
     const response = await fetch(`${WORKER_URL}/config`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
         'X-Agent-ID': 'maxi',
+        'Authorization': `Bearer ${adminKey}`,
+        ...(etag ? { 'If-Match': etag } : {}),
+        // Header values must be ASCII
+        ...(options.note ? { 'X-Change-Note': encodeURIComponent(options.note) } : {}),
+        ...(options.author ? { 'X-Config-Author': encodeURIComponent(options.author) } : {}),
       },
       body: JSON.stringify(config),
     });
 
+    // 428: no config was read yet, so there was no ETag to send
+    if (response.status === 412 || response.status === 428) {
+      logger.warn(COMPONENT, 'Config changed since it was read', { etag, current: response.headers.get('ETag') });
+      return { success: false, conflict: true };
+    }
+
     if (!response.ok) {
-      logger.warn(COMPONENT, `Config save failed: ${response.status}`);
-      return false;
+      // 422 carries the per-gate Guardian report
+      const body = await response.json().catch(() => ({})) as { report?: unknown };
+      logger.warn(COMPONENT, `Config save failed: ${response.status}`, body.report);
+      return { success: false };
     }
 
-    logger.success(COMPONENT, 'Config saved successfully');
-    return true;
+    const { version } = await response.json() as { version: number };
+    configETag = response.headers.get('ETag');
+    logger.success(COMPONENT, 'Config saved successfully', { version });
+    return { success: true, version };
   } catch (error) {
     logger.error(COMPONENT, 'Config save error', error);
-    return false;
+    return { success: false };
   }
 }
 
@@ -147,12 +436,13 @@ export async function getAgentStatus(): Promise<{
   status: string;
   sessions: number;
   messages: number;
-  uptime: string;
+  // When usage counting started
+  since: string;
 } | null> {
   logger.info(COMPONENT, 'Fetching agent status');
 
   try {
-    const response = await fetch(`${WORKER_URL}/status`, {
+    const response = await authFetch('/status', {
       method: 'GET',
       headers: { 'Accept': 'application/json' },
     });
@@ -181,15 +471,11 @@ export async function checkApiKeys(): Promise<{
 }> {
   logger.info(COMPONENT, 'Checking API key availability');
 
-  const pow3rPass = getPow3rPassService();
-  
-  const [xai, elevenlabs, gemini] = await Promise.all([
-    pow3rPass.hasCredential('xai'),
-    pow3rPass.hasCredential('elevenlabs'),
-    pow3rPass.hasCredential('gemini'),
-  ]);
+  // Availability list only; the browser never fetches the secrets themselves
+  const credentials = await getPow3rPassService().getAllCredentials();
+  const available = (provider: string) => credentials.some(c => c.provider === provider && c.available);
 
-  const result = { xai, elevenlabs, gemini };
+  const result = { xai: available('xai'), elevenlabs: available('elevenlabs'), gemini: available('gemini') };
   logger.success(COMPONENT, 'API key check complete', result);
   return result;
 }
@@ -217,3 +503,182 @@ export async function checkWorkerHealth(): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Call a per-user worker route and parse the JSON body
+ */
+async function userRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await authFetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({})) as { error?: string };
+    throw new Error(body.error || `API error: ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Get a journaling prompt based on the current conversation
+ */
+export async function getJournalPrompt(sessionId?: string): Promise<JournalPrompt> {
+  logger.info(COMPONENT, 'Fetching journal prompt', { hasSession: !!sessionId });
+
+  try {
+    const prompt = await userRequest<JournalPrompt>('/journal/prompt', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId }),
+    });
+    logger.success(COMPONENT, 'Journal prompt received', { themes: prompt.themes.length });
+    return prompt;
+  } catch (error) {
+    logger.error(COMPONENT, 'Journal prompt failed', error);
+    throw error;
+  }
+}
+
+/**
+ * List journal entries, newest first
+ */
+export async function listJournalEntries(limit: number = 50): Promise<JournalEntrySummary[]> {
+  logger.info(COMPONENT, 'Listing journal entries', { limit });
+
+  try {
+    const { entries } = await userRequest<{ entries: JournalEntrySummary[] }>(`/journal?limit=${limit}`);
+    logger.success(COMPONENT, 'Journal entries loaded', { count: entries.length });
+    return entries;
+  } catch (error) {
+    logger.error(COMPONENT, 'Journal list failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Search journal entries by text, prompt and tags
+ */
+export async function searchJournalEntries(query: string): Promise<JournalEntry[]> {
+  logger.info(COMPONENT, 'Searching journal', { query });
+
+  try {
+    const { entries } = await userRequest<{ entries: JournalEntry[] }>(`/journal/search?q=${encodeURIComponent(query)}`);
+    logger.success(COMPONENT, 'Journal search complete', { count: entries.length });
+    return entries;
+  } catch (error) {
+    logger.error(COMPONENT, 'Journal search failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Load a single journal entry
+ */
+export async function getJournalEntry(id: string): Promise<JournalEntry> {
+  logger.info(COMPONENT, 'Fetching journal entry', { id });
+
+  try {
+    const entry = await userRequest<JournalEntry>(`/journal/${id}`);
+    logger.success(COMPONENT, 'Journal entry loaded', { id });
+    return entry;
+  } catch (error) {
+    logger.error(COMPONENT, 'Journal entry fetch failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Create or update a journal entry
+ */
+export async function saveJournalEntry(
+  entry: { id?: string; content: string; prompt?: string; tags?: string[] }
+): Promise<JournalEntry> {
+  logger.info(COMPONENT, entry.id ? 'Updating journal entry' : 'Creating journal entry', { id: entry.id });
+
+  try {
+    const saved = await userRequest<JournalEntry>(entry.id ? `/journal/${entry.id}` : '/journal', {
+      method: entry.id ? 'PUT' : 'POST',
+      body: JSON.stringify(entry),
+    });
+    logger.success(COMPONENT, 'Journal entry saved', { id: saved.id });
+    return saved;
+  } catch (error) {
+    logger.error(COMPONENT, 'Journal save failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a mood check-in
+ */
+export async function recordMoodCheckIn(
+  checkIn: { score: number; emotions: string[]; note?: string }
+): Promise<MoodCheckIn> {
+  logger.info(COMPONENT, 'Recording mood check-in', { score: checkIn.score });
+
+  try {
+    const saved = await userRequest<MoodCheckIn>('/mood', {
+      method: 'POST',
+      body: JSON.stringify({ ...checkIn, timezoneOffset: new Date().getTimezoneOffset() }),
+    });
+    logger.success(COMPONENT, 'Mood check-in recorded', { id: saved.id });
+    return saved;
+  } catch (error) {
+    logger.error(COMPONENT, 'Mood check-in failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Get mood averages, streaks and breakdowns
+ */
+export async function getMoodTrends(): Promise<MoodTrends> {
+  logger.info(COMPONENT, 'Fetching mood trends');
+
+  try {
+    const trends = await userRequest<MoodTrends>(`/mood/trends?tz=${new Date().getTimezoneOffset()}`);
+    logger.success(COMPONENT, 'Mood trends loaded', { total: trends.totalCheckIns });
+    return trends;
+  } catch (error) {
+    logger.error(COMPONENT, 'Mood trends fetch failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Transcribe recorded speech on the worker (fallback when the browser has
+ * no speech recognition)
+ */
+export async function transcribeAudio(audio: Blob): Promise<string> {
+  logger.info(COMPONENT, 'Transcribing audio', { bytes: audio.size, type: audio.type });
+
+  try {
+    const response = await authFetch('/transcribe', {
+      method: 'POST',
+      headers: {
+        'Content-Type': audio.type || 'audio/webm',
+      },
+      body: audio,
+    });
+
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '') || 60;
+      logger.warn(COMPONENT, 'Transcription rate limited', { retryAfter });
+      throw new RateLimitError(retryAfter);
+    }
+    if (!response.ok) {
+      throw new Error(`Transcription error: ${response.status}`);
+    }
+
+    const { text } = await response.json() as { text: string };
+    logger.success(COMPONENT, 'Transcription received', { length: text.length });
+    return text;
+  } catch (error) {
+    logger.error(COMPONENT, 'Transcription failed', error);
+    throw error;
+  }
+}
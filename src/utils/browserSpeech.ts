@@ -0,0 +1,57 @@
+import logger from './logger';
+
+/**
+ * Browser Speech Fallback
+ * Speaks a reply with the Web Speech API's speechSynthesis when the worker
+ * returns no audio (no TTS key, every provider failed) or playback fails.
+ */
+
+const COMPONENT = 'BrowserSpeech';
+
+// Citation markers and markdown read badly aloud
+function toSpokenText(text: string): string {
+  return text
+    .replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#+\s*/gm, '')
+    .replace(/[*_~]+/g, '')
+    .replace(/^\s*[-+]\s+/gm, '')
+    .trim();
+}
+
+export function canSpeakInBrowser(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+export function speakInBrowser(text: string, handlers: { onStart?: () => void; onEnd?: () => void } = {}): void {
+  const spoken = toSpokenText(text);
+  if (!canSpeakInBrowser() || !spoken) {
+    handlers.onEnd?.();
+    return;
+  }
+
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(spoken);
+  utterance.lang = navigator.language || 'en-US';
+  utterance.onstart = () => handlers.onStart?.();
+  utterance.onend = () => handlers.onEnd?.();
+  utterance.onerror = (event) => {
+    // "interrupted" and "canceled" mean the user or a newer reply stopped it
+    if (event.error !== 'interrupted' && event.error !== 'canceled') {
+      logger.error(COMPONENT, 'Speech synthesis error', event.error);
+    }
+    handlers.onEnd?.();
+  };
+
+  logger.info(COMPONENT, 'Speaking with browser voice', { length: spoken.length });
+  window.speechSynthesis.speak(utterance);
+}
+
+export function stopBrowserSpeech(): void {
+  if (canSpeakInBrowser() && window.speechSynthesis.speaking) {
+    logger.info(COMPONENT, 'Stopping browser speech');
+    window.speechSynthesis.cancel();
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * Analytics
+ *
+ * Usage counters live in one Durable Object (AgentAnalytics). Each batch of
+ * events is applied inside blockConcurrencyWhile, so no other request runs
+ * between reading and writing the counters, and concurrent chats never lose
+ * counts the way a KV read-modify-write does. Counters are kept per UTC day
+ * and all-time: sessions, messages, tokens, TTS characters, TTS cache hits,
+ * safety flags, retrieval hits, chat latency and errors by kind. Latency is a histogram,
+ * so percentiles can be merged across any range of days. Days older than
+ * RETENTION_DAYS are pruned when a new day starts.
+ */
+
+import { log } from './logger';
+import type { Env } from './types';
+
+export type AnalyticsEvent =
+  // First turn of a chat session
+  | { type: 'session' }
+  // A chat reply; `retrieved` is whether knowledge search found anything
+  | { type: 'message'; tokens: number; latencyMs: number; retrieved: boolean }
+  // Characters sent to a TTS provider (cache hits are not counted)
+  | { type: 'tts'; characters: number }
+  // A TTS cache lookup; a hit saves `bytes` of audio and `characters` of synthesis
+  | { type: 'tts-cache'; hit: boolean; bytes?: number; characters?: number }
+  | { type: 'safety-flag' }
+  | { type: 'error'; kind: string };
+
+interface Counters {
+  sessions: number;
+  messages: number;
+  tokens: number;
+  ttsCharacters: number;
+  ttsCacheHits: number;
+  ttsCacheMisses: number;
+  ttsCacheBytesSaved: number;
+  ttsCacheCharactersSaved: number;
+  safetyFlags: number;
+  retrievals: number;
+  retrievalHits: number;
+  // Chat replies per LATENCY_BUCKETS_MS bucket; the last slot counts anything slower
+  latency: number[];
+  errors: Record<string, number>;
+}
+
+interface DayCounters extends Counters {
+  date: string;
+}
+
+interface AllTimeCounters extends Counters {
+  // When counting started
+  since: string;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface SeriesPoint {
+  sessions: number;
+  messages: number;
+  tokens: number;
+  ttsCharacters: number;
+  ttsCache: { hits: number; misses: number; hitRate: number | null; bytesSaved: number; charactersSaved: number };
+  safetyFlags: number;
+  retrieval: { queries: number; hits: number; hitRate: number | null };
+  // Bucket upper bounds, so values are rounded up to the next bucket
+  latencyMs: { count: number; p50: number | null; p95: number | null; p99: number | null };
+  errors: { total: number; byKind: Record<string, number> };
+}
+
+export interface AnalyticsReport {
+  since: string;
+  range: DateRange;
+  allTime: Omit<SeriesPoint, 'latencyMs' | 'retrieval'>;
+  totals: SeriesPoint;
+  series: Array<SeriesPoint & { date: string }>;
+}
+
+const DAY_PREFIX = 'day:';
+const TOTALS_KEY = 'totals';
+const RETENTION_DAYS = 400;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+// Further error kinds are counted as `other`
+const MAX_ERROR_KINDS = 50;
+// Storage deletes take at most 128 keys
+const DELETE_BATCH = 128;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const LATENCY_BUCKETS_MS = [100, 250, 500, 750, 1000, 1500, 2000, 3000, 4000, 5000, 7500, 10000, 15000, 20000, 30000, 60000];
+
+// Counters kept in KV before this subsystem; carried into the all-time totals once
+const LEGACY_STAT_KEYS: Partial<Record<keyof Counters, string>> = {
+  sessions: 'stats:sessions',
+  messages: 'stats:messages',
+  safetyFlags: 'stats:safety-flags',
+  ttsCacheHits: 'stats:tts-cache:hits',
+  ttsCacheMisses: 'stats:tts-cache:misses',
+  ttsCacheBytesSaved: 'stats:tts-cache:bytes-saved',
+  ttsCacheCharactersSaved: 'stats:tts-cache:characters-saved',
+};
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function emptyCounters(): Counters {
+  return {
+    sessions: 0,
+    messages: 0,
+    tokens: 0,
+    ttsCharacters: 0,
+    ttsCacheHits: 0,
+    ttsCacheMisses: 0,
+    ttsCacheBytesSaved: 0,
+    ttsCacheCharactersSaved: 0,
+    safetyFlags: 0,
+    retrievals: 0,
+    retrievalHits: 0,
+    latency: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+    errors: {},
+  };
+}
+
+function latencyBucket(latencyMs: number): number {
+  const index = LATENCY_BUCKETS_MS.findIndex(bound => latencyMs <= bound);
+  return index === -1 ? LATENCY_BUCKETS_MS.length : index;
+}
+
+function applyEvent(counters: Counters, event: AnalyticsEvent): void {
+  switch (event.type) {
+    case 'session':
+      counters.sessions++;
+      break;
+    case 'message':
+      counters.messages++;
+      counters.tokens += Math.max(0, event.tokens || 0);
+      counters.retrievals++;
+      if (event.retrieved) counters.retrievalHits++;
+      counters.latency[latencyBucket(event.latencyMs)]++;
+      break;
+    case 'tts':
+      counters.ttsCharacters += Math.max(0, event.characters || 0);
+      break;
+    case 'tts-cache':
+      if (event.hit) {
+        counters.ttsCacheHits++;
+        counters.ttsCacheBytesSaved += Math.max(0, event.bytes || 0);
+        counters.ttsCacheCharactersSaved += Math.max(0, event.characters || 0);
+      } else {
+        counters.ttsCacheMisses++;
+      }
+      break;
+    case 'safety-flag':
+      counters.safetyFlags++;
+      break;
+    case 'error': {
+      const known = event.kind in counters.errors || Object.keys(counters.errors).length < MAX_ERROR_KINDS;
+      const kind = known ? event.kind : 'other';
+      counters.errors[kind] = (counters.errors[kind] || 0) + 1;
+      break;
+    }
+  }
+}
+
+function mergeCounters(target: Counters, source: Counters): void {
+  target.sessions += source.sessions;
+  target.messages += source.messages;
+  target.tokens += source.tokens;
+  target.ttsCharacters += source.ttsCharacters;
+  target.ttsCacheHits += source.ttsCacheHits;
+  target.ttsCacheMisses += source.ttsCacheMisses;
+  target.ttsCacheBytesSaved += source.ttsCacheBytesSaved;
+  target.ttsCacheCharactersSaved += source.ttsCacheCharactersSaved;
+  target.safetyFlags += source.safetyFlags;
+  target.retrievals += source.retrievals;
+  target.retrievalHits += source.retrievalHits;
+  source.latency.forEach((count, i) => { target.latency[i] += count; });
+  for (const [kind, count] of Object.entries(source.errors)) {
+    target.errors[kind] = (target.errors[kind] || 0) + count;
+  }
+}
+
+// Upper bound of the bucket holding the p-th percentile; the overflow slot reports the last bound
+function percentile(histogram: number[], count: number, p: number): number | null {
+  if (!count) return null;
+  const rank = Math.ceil(p * count);
+  let seen = 0;
+  for (const [i, bucketCount] of histogram.entries()) {
+    seen += bucketCount;
+    if (seen >= rank) return LATENCY_BUCKETS_MS[Math.min(i, LATENCY_BUCKETS_MS.length - 1)];
+  }
+  return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+}
+
+function ttsCacheTotals(counters: Counters): SeriesPoint['ttsCache'] {
+  const lookups = counters.ttsCacheHits + counters.ttsCacheMisses;
+  return {
+    hits: counters.ttsCacheHits,
+    misses: counters.ttsCacheMisses,
+    hitRate: lookups ? Math.round(counters.ttsCacheHits / lookups * 1000) / 1000 : null,
+    bytesSaved: counters.ttsCacheBytesSaved,
+    charactersSaved: counters.ttsCacheCharactersSaved,
+  };
+}
+
+function errorTotals(errors: Record<string, number>): SeriesPoint['errors'] {
+  return { total: Object.values(errors).reduce((sum, count) => sum + count, 0), byKind: errors };
+}
+
+function toSeriesPoint(counters: Counters): SeriesPoint {
+  const latencyCount = counters.latency.reduce((sum, count) => sum + count, 0);
+  return {
+    sessions: counters.sessions,
+    messages: counters.messages,
+    tokens: counters.tokens,
+    ttsCharacters: counters.ttsCharacters,
+    ttsCache: ttsCacheTotals(counters),
+    safetyFlags: counters.safetyFlags,
+    retrieval: {
+      queries: counters.retrievals,
+      hits: counters.retrievalHits,
+      hitRate: counters.retrievals ? Math.round(counters.retrievalHits / counters.retrievals * 1000) / 1000 : null,
+    },
+    latencyMs: {
+      count: latencyCount,
+      p50: percentile(counters.latency, latencyCount, 0.5),
+      p95: percentile(counters.latency, latencyCount, 0.95),
+      p99: percentile(counters.latency, latencyCount, 0.99),
+    },
+    errors: errorTotals(counters.errors),
+  };
+}
+
+/**
+ * The Durable Object holding every counter. One instance (`global`) serves
+ * the whole agent, so all writes are serialized through it.
+ */
+export class AgentAnalytics implements DurableObject {
+  constructor(private readonly state: DurableObjectState, private readonly env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/record' && request.method === 'POST') {
+      const events = await request.json() as AnalyticsEvent[];
+      await this.state.blockConcurrencyWhile(() => this.record(Array.isArray(events) ? events : []));
+      return new Response(null, { status: 204 });
+    }
+
+    if (url.pathname === '/series' && request.method === 'GET') {
+      const from = url.searchParams.get('from') || today();
+      const to = url.searchParams.get('to') || today();
+      return Response.json(await this.series({ from, to }));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async loadTotals(): Promise<AllTimeCounters> {
+    const totals = await this.state.storage.get<AllTimeCounters>(TOTALS_KEY);
+    if (totals) return { ...emptyCounters(), ...totals };
+
+    const legacy = await Promise.all(Object.entries(LEGACY_STAT_KEYS).map(async ([field, key]) =>
+      [field, parseInt(await this.env.AGENT_STORE.get(key!) || '0') || 0] as const));
+    const seeded = Object.fromEntries(legacy) as Partial<Counters>;
+    log('info', 'Analytics', 'Totals initialized', seeded);
+    return { ...emptyCounters(), ...seeded, since: new Date().toISOString() };
+  }
+
+  private async record(events: AnalyticsEvent[]): Promise<void> {
+    if (!events.length) return;
+    const date = today();
+    const key = `${DAY_PREFIX}${date}`;
+    const [stored, totals] = await Promise.all([this.state.storage.get<DayCounters>(key), this.loadTotals()]);
+    // Counters stored before a field existed read it as zero
+    const day = { ...emptyCounters(), ...stored, date };
+
+    for (const event of events) {
+      applyEvent(day, event);
+      applyEvent(totals, event);
+    }
+    await this.state.storage.put<Counters>({ [key]: day, [TOTALS_KEY]: totals });
+    log('debug', 'Analytics', 'Events recorded', { date, events: events.length });
+
+    if (!stored) await this.prune(date);
+  }
+
+  private async prune(date: string): Promise<void> {
+    const cutoff = `${DAY_PREFIX}${addDays(date, -RETENTION_DAYS)}`;
+    const expired = [...(await this.state.storage.list({ prefix: DAY_PREFIX, end: cutoff })).keys()];
+    for (let i = 0; i < expired.length; i += DELETE_BATCH) {
+      await this.state.storage.delete(expired.slice(i, i + DELETE_BATCH));
+    }
+    if (expired.length) log('info', 'Analytics', 'Pruned days', { count: expired.length });
+  }
+
+  private async series(range: DateRange): Promise<{ since: string; allTime: Counters; days: DayCounters[] }> {
+    const [totals, stored] = await Promise.all([
+      this.loadTotals(),
+      this.state.storage.list<DayCounters>({ start: `${DAY_PREFIX}${range.from}`, end: `${DAY_PREFIX}${addDays(range.to, 1)}` }),
+    ]);
+    const { since, ...allTime } = totals;
+    return { since, allTime, days: [...stored.values()] };
+  }
+}
+
+function analyticsStub(env: Env): DurableObjectStub {
+  return env.ANALYTICS.get(env.ANALYTICS.idFromName('global'));
+}
+
+/**
+ * Record events; failures are logged and never reach the caller, so
+ * analytics cannot break a chat
+ */
+export async function recordAnalytics(env: Env, events: AnalyticsEvent[]): Promise<void> {
+  if (!events.length) return;
+  try {
+    const response = await analyticsStub(env).fetch('https://analytics/record', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(events),
+    });
+    if (!response.ok) {
+      log('warn', 'Analytics', 'Record rejected', { status: response.status });
+    }
+  } catch (error) {
+    log('warn', 'Analytics', 'Record failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * `from` / `to` (YYYY-MM-DD, UTC, inclusive) from the query string. Defaults
+ * to the last 30 days; null when invalid or longer than MAX_RANGE_DAYS.
+ */
+export function parseDateRange(params: URLSearchParams): DateRange | null {
+  const to = params.get('to') || today();
+  const from = params.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+  const valid = (date: string) => DATE_PATTERN.test(date) && addDays(date, 0) === date;
+  if (!valid(from) || !valid(to) || from > to || addDays(from, MAX_RANGE_DAYS) <= to) {
+    return null;
+  }
+  return { from, to };
+}
+
+// Per-day series for `range` (days without traffic are zero), with range and all-time totals
+export async function getAnalytics(env: Env, range: DateRange): Promise<AnalyticsReport> {
+  const response = await analyticsStub(env).fetch(`https://analytics/series?from=${range.from}&to=${range.to}`);
+  if (!response.ok) {
+    throw new Error(`Analytics unavailable: ${response.status}`);
+  }
+  const { since, allTime, days } = await response.json() as { since: string; allTime: Counters; days: DayCounters[] };
+
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const totals = emptyCounters();
+  const series: AnalyticsReport['series'] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    const day = { ...emptyCounters(), ...byDate.get(date), date };
+    mergeCounters(totals, day);
+    series.push({ date, ...toSeriesPoint(day) });
+  }
+
+  log('info', 'Analytics', 'Series read', { ...range, days: series.length });
+  return {
+    since,
+    range,
+    allTime: {
+      sessions: allTime.sessions,
+      messages: allTime.messages,
+      tokens: allTime.tokens,
+      ttsCharacters: allTime.ttsCharacters,
+      ttsCache: ttsCacheTotals(allTime),
+      safetyFlags: allTime.safetyFlags,
+      errors: errorTotals(allTime.errors),
+    },
+    totals: toSeriesPoint(totals),
+    series,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Audio Assets
+ *
+ * Synthesized speech lives in R2 under `audio/<sessionId>/<ts>.mp3`. Clients
+ * get short-lived HMAC-signed URLs on the worker's own origin; `/assets/*`
+ * verifies the signature and serves the object with HTTP range support so
+ * players can seek. A scheduled job deletes audio past the retention window,
+ * including cached speech under `tts-cache/`, which can hold reply text.
+ */
+
+import { getHmacKey, hmacSign, hmacVerify } from './hmac';
+import { corsHeaders, jsonResponse } from './http';
+import { log } from './logger';
+import type { Env } from './types';
+
+// Signed URLs stay valid this long
+export const AUDIO_URL_TTL_SECONDS = 60 * 60;
+// Audio objects are deleted after this long
+export const AUDIO_RETENTION_HOURS = 24;
+
+// Session audio and the TTS cache; both are served through signed URLs
+const AUDIO_PREFIXES = ['audio/', 'tts-cache/'];
+const SIGNING_KEY_KV = 'asset-signing-key';
+const R2_DELETE_BATCH = 1000;
+
+function getSigningKey(env: Env): Promise<CryptoKey> {
+  return getHmacKey(env, SIGNING_KEY_KV, env.ASSET_SIGNING_KEY);
+}
+
+// get() returns a bodiless object when an If-* precondition fails
+function hasBody(object: R2Object): object is R2ObjectBody {
+  return 'body' in object;
+}
+
+// Absolute, signed URL for an R2 object served from this worker
+export async function signAssetUrl(env: Env, origin: string, key: string, ttlSeconds: number = AUDIO_URL_TTL_SECONDS): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = await hmacSign(await getSigningKey(env), `${key}:${expires}`);
+  return `${origin}/assets/${key}?expires=${expires}&sig=${signature}`;
+}
+
+async function verifyAssetSignature(env: Env, key: string, expires: string | null, sig: string | null): Promise<'valid' | 'invalid' | 'expired'> {
+  if (!expires || !/^\d+$/.test(expires) || !sig) return 'invalid';
+
+  const valid = await hmacVerify(await getSigningKey(env), `${key}:${expires}`, sig);
+  if (!valid) return 'invalid';
+  return parseInt(expires) * 1000 < Date.now() ? 'expired' : 'valid';
+}
+
+// Store synthesized audio and return its signed URL
+export async function storeAudio(env: Env, origin: string, sessionId: string, audio: ArrayBuffer): Promise<string> {
+  const key = `audio/${sessionId}/${Date.now()}.mp3`;
+  await env.ASSETS.put(key, audio, { httpMetadata: { contentType: 'audio/mpeg' } });
+  log('info', 'Assets', 'Audio stored', { key, bytes: audio.byteLength });
+  return signAssetUrl(env, origin, key);
+}
+
+// GET/HEAD /assets/<key>?expires=&sig=
+export async function handleAssetRequest(request: Request, url: URL, env: Env): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  let key: string;
+  try {
+    key = decodeURIComponent(url.pathname.slice('/assets/'.length));
+  } catch {
+    log('warn', 'Assets', 'Malformed asset path', { path: url.pathname });
+    return jsonResponse({ error: 'Malformed asset path' }, 400);
+  }
+  const verdict = await verifyAssetSignature(env, key, url.searchParams.get('expires'), url.searchParams.get('sig'));
+  if (verdict !== 'valid') {
+    log('warn', 'Assets', 'Rejected asset request', { key, verdict });
+    return verdict === 'expired'
+      ? jsonResponse({ error: 'Link expired' }, 410)
+      : jsonResponse({ error: 'Invalid signature' }, 403);
+  }
+
+  let object: R2Object | R2ObjectBody | null;
+  try {
+    object = request.method === 'HEAD'
+      ? await env.ASSETS.head(key)
+      : await env.ASSETS.get(key, { range: request.headers, onlyIf: request.headers });
+  } catch {
+    // R2 rejects ranges that fall outside the object
+    log('warn', 'Assets', 'Unsatisfiable range', { key, range: request.headers.get('Range') });
+    const head = await env.ASSETS.head(key);
+    return new Response(null, {
+      status: 416,
+      headers: { ...corsHeaders, ...(head ? { 'Content-Range': `bytes */${head.size}` } : {}) },
+    });
+  }
+  if (!object) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const headers = new Headers(corsHeaders);
+  object.writeHttpMetadata(headers);
+  headers.set('ETag', object.httpEtag);
+  headers.set('Accept-Ranges', 'bytes');
+  headers.set('Access-Control-Expose-Headers', 'Content-Range, Content-Length, Accept-Ranges, ETag');
+  const maxAge = Math.max(0, parseInt(url.searchParams.get('expires')!) - Math.floor(Date.now() / 1000));
+  headers.set('Cache-Control', `private, max-age=${maxAge}`);
+
+  // Conditional request matched (If-None-Match etc.): no body
+  if (!hasBody(object)) {
+    return new Response(null, { status: request.method === 'HEAD' ? 200 : 304, headers: withLength(headers, object.size, request.method === 'HEAD') });
+  }
+
+  const range = request.headers.has('Range') && object.range ? resolveRange(object.range, object.size) : null;
+  if (range) {
+    headers.set('Content-Range', `bytes ${range.offset}-${range.offset + range.length - 1}/${object.size}`);
+    headers.set('Content-Length', String(range.length));
+    log('debug', 'Assets', 'Serving range', { key, ...range });
+    return new Response(object.body, { status: 206, headers });
+  }
+
+  headers.set('Content-Length', String(object.size));
+  return new Response(object.body, { headers });
+}
+
+// Absolute offset/length for any R2Range form (offset, length or suffix)
+function resolveRange(range: R2Range, size: number): { offset: number; length: number } {
+  if ('suffix' in range && range.suffix !== undefined) {
+    const length = Math.min(range.suffix, size);
+    return { offset: size - length, length };
+  }
+  const offset = 'offset' in range && range.offset !== undefined ? range.offset : 0;
+  const length = 'length' in range && range.length !== undefined ? range.length : size - offset;
+  return { offset, length: Math.min(length, size - offset) };
+}
+
+function withLength(headers: Headers, size: number, include: boolean): Headers {
+  if (include) headers.set('Content-Length', String(size));
+  return headers;
+}
+
+// Delete audio objects older than the retention window
+export async function cleanupExpiredAudio(env: Env, retentionHours: number = AUDIO_RETENTION_HOURS): Promise<number> {
+  const cutoff = Date.now() - retentionHours * 60 * 60 * 1000;
+  let deleted = 0;
+
+  for (const prefix of AUDIO_PREFIXES) {
+    let cursor: string | undefined;
+    do {
+      const page = await env.ASSETS.list({ prefix, cursor, limit: R2_DELETE_BATCH });
+      const expired = page.objects.filter(object => object.uploaded.getTime() < cutoff).map(object => object.key);
+      if (expired.length > 0) {
+        await env.ASSETS.delete(expired);
+        deleted += expired.length;
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+  }
+
+  log('info', 'Assets', 'Audio cleanup complete', { deleted, retentionHours });
+  return deleted;
+}
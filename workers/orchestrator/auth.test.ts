@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { authenticate, handleSessionRequest, hasRole, issueSessionToken, requiredRole, SESSION_TTL_SECONDS } from './auth';
+import { fromHex, getHmacKey, hmacSign, hmacVerify, toHex } from './hmac';
+import { createTestEnv } from './testEnv';
+
+const USER_ID = 'user-1234abcd';
+
+function bearer(credential: string): Request {
+  return new Request('https://worker/chat', { headers: { Authorization: `Bearer ${credential}` } });
+}
+
+describe('hmac', () => {
+  it('round-trips hex and rejects malformed hex', () => {
+    expect(toHex(fromHex('00ff10')!)).toBe('00ff10');
+    expect(fromHex('0g')).toBeNull();
+    expect(fromHex('abc')).toBeNull();
+  });
+
+  it('verifies its own signatures and rejects altered data or signatures', async () => {
+    const key = await getHmacKey(createTestEnv(), 'test-key', 'secret');
+    const signature = await hmacSign(key, 'payload');
+    expect(await hmacVerify(key, 'payload', signature)).toBe(true);
+    expect(await hmacVerify(key, 'payload2', signature)).toBe(false);
+    expect(await hmacVerify(key, 'payload', signature.replace(/^./, c => (c === '0' ? '1' : '0')))).toBe(false);
+    expect(await hmacVerify(key, 'payload', 'not-hex')).toBe(false);
+  });
+
+  it('generates a key once and keeps it in KV when no secret is set', async () => {
+    const env = createTestEnv();
+    const first = await hmacSign(await getHmacKey(env, 'generated-key'), 'data');
+    const stored = await env.AGENT_STORE.get('generated-key');
+    expect(stored).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hmacSign(await getHmacKey(env, 'generated-key'), 'data')).toBe(first);
+  });
+});
+
+describe('session tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('authenticates the user a token was issued for', async () => {
+    const env = createTestEnv({ AUTH_SIGNING_KEY: 'signing-secret' });
+    const { token, expiresAt } = await issueSessionToken(env, USER_ID);
+    expect(token).toMatch(/^v1\.[\w-]+\.[0-9a-f]{64}$/);
+    expect(Date.parse(expiresAt) - Date.now()).toBeGreaterThan((SESSION_TTL_SECONDS - 60) * 1000);
+    expect(await authenticate(bearer(token), env)).toEqual({ role: 'user', userId: USER_ID });
+  });
+
+  it('rejects a token with a swapped payload', async () => {
+    const env = createTestEnv({ AUTH_SIGNING_KEY: 'signing-secret' });
+    const [version, , signature] = (await issueSessionToken(env, USER_ID)).token.split('.');
+    const forged = btoa(JSON.stringify({ sub: 'someone-else-123', iat: 0, exp: 4102444800 })).replace(/=+$/, '');
+    expect(await authenticate(bearer(`${version}.${forged}.${signature}`), env)).toEqual({ role: 'public' });
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const { token } = await issueSessionToken(createTestEnv({ AUTH_SIGNING_KEY: 'old-secret' }), USER_ID);
+    expect(await authenticate(bearer(token), createTestEnv({ AUTH_SIGNING_KEY: 'new-secret' }))).toEqual({ role: 'public' });
+  });
+
+  it('rejects an expired token', async () => {
+    const env = createTestEnv({ AUTH_SIGNING_KEY: 'signing-secret' });
+    const { token } = await issueSessionToken(env, USER_ID);
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + (SESSION_TTL_SECONDS + 1) * 1000);
+    expect(await authenticate(bearer(token), env)).toEqual({ role: 'public' });
+  });
+});
+
+describe('handleSessionRequest', () => {
+  const claim = (env: ReturnType<typeof createTestEnv>, userId: string) =>
+    handleSessionRequest(new Request('https://worker/auth/session', { method: 'POST', body: JSON.stringify({ userId }) }), env, { role: 'public' });
+
+  it('lets only one of several concurrent sessions claim a device id', async () => {
+    const env = createTestEnv({ AUTH_SIGNING_KEY: 'signing-secret' });
+    const statuses = (await Promise.all(Array.from({ length: 5 }, () => claim(env, USER_ID)))).map(response => response.status);
+    expect(statuses.sort()).toEqual([201, 409, 409, 409, 409]);
+  });
+
+  it('refuses ids claimed in KV before claims moved to Durable Objects', async () => {
+    const env = createTestEnv({ AUTH_SIGNING_KEY: 'signing-secret' });
+    await env.AGENT_STORE.put(`auth-claim:${USER_ID}`, '2026-01-01T00:00:00.000Z');
+    expect((await claim(env, USER_ID)).status).toBe(409);
+  });
+
+  it('claims the id it makes up for a new user', async () => {
+    const env = createTestEnv({ AUTH_SIGNING_KEY: 'signing-secret' });
+    const response = await handleSessionRequest(new Request('https://worker/auth/session', { method: 'POST' }), env, { role: 'public' });
+    const { userId } = await response.json() as { userId: string };
+    expect(response.status).toBe(201);
+    expect((await claim(env, userId)).status).toBe(409);
+  });
+});
+
+describe('authenticate', () => {
+  it('treats a missing credential as public', async () => {
+    expect(await authenticate(new Request('https://worker/chat'), createTestEnv())).toEqual({ role: 'public' });
+  });
+
+  it('grants admin for a configured API key, with a fingerprint', async () => {
+    const env = createTestEnv({ ADMIN_API_KEYS: 'first-key, second-key' });
+    const principal = await authenticate(bearer('second-key'), env);
+    expect(principal.role).toBe('admin');
+    expect(principal.keyId).toMatch(/^[0-9a-f]{8}$/);
+    expect(await authenticate(bearer('third-key'), env)).toEqual({ role: 'public' });
+  });
+
+  it('grants nothing for keys when none are configured', async () => {
+    expect(await authenticate(bearer(''), createTestEnv())).toEqual({ role: 'public' });
+    expect(await authenticate(bearer('any-key'), createTestEnv())).toEqual({ role: 'public' });
+  });
+});
+
+describe('roles', () => {
+  it('maps routes to the role they need', () => {
+    expect(requiredRole('GET', '/health')).toBe('public');
+    expect(requiredRole('POST', '/auth/session')).toBe('public');
+    expect(requiredRole('GET', '/config')).toBe('user');
+    expect(requiredRole('PUT', '/config')).toBe('admin');
+    expect(requiredRole('POST', '/config/rollback')).toBe('admin');
+    expect(requiredRole('POST', '/chat')).toBe('user');
+    expect(requiredRole('POST', '/mcp')).toBe('admin');
+  });
+
+  it('lets higher roles through lower checks', () => {
+    expect(hasRole({ role: 'admin' }, 'user')).toBe(true);
+    expect(hasRole({ role: 'user' }, 'user')).toBe(true);
+    expect(hasRole({ role: 'user' }, 'admin')).toBe(false);
+    expect(hasRole({ role: 'public' }, 'user')).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Authentication and Roles
+ *
+ * Callers present `Authorization: Bearer <credential>`:
+ * - a session token (`v1.<payload>.<sig>`, HMAC-signed) identifies an end
+ *   user of the PWA; `POST /auth/session` issues and refreshes them
+ * - an admin API key (one of `ADMIN_API_KEYS`) grants the admin role
+ *
+ * Every route declares the role it needs; admins pass every check.
+ */
+
+import { getHmacKey, hmacSign, hmacVerify, toHex } from './hmac';
+import { isValidUserId, jsonResponse } from './http';
+import { log } from './logger';
+import type { Env } from './types';
+
+export type Role = 'public' | 'user' | 'admin';
+
+export interface Principal {
+  role: Role;
+  // Set for session tokens
+  userId?: string;
+  // Set for admin keys: a short fingerprint of the key, for audit trails
+  keyId?: string;
+}
+
+interface SessionPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+const TOKEN_VERSION = 'v1';
+const SIGNING_KEY_KV = 'auth-signing-key';
+// Sessions last this long and are refreshed by the PWA before they expire
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const ROLE_RANK: Record<Role, number> = { public: 0, user: 1, admin: 2 };
+
+// First matching rule wins; unmatched routes need a user session
+const ROUTE_ROLES: Array<{ method?: string; pattern: RegExp; role: Role }> = [
+  { pattern: /^\/(?:health)?$/, role: 'public' },
+  { method: 'POST', pattern: /^\/auth\/session$/, role: 'public' },
+  // Access is checked by the URL signature
+  { pattern: /^\/assets\//, role: 'public' },
+  { method: 'PUT', pattern: /^\/config$/, role: 'admin' },
+  // Version history, diffs and rollback
+  { pattern: /^\/config\//, role: 'admin' },
+  { pattern: /^\/knowledge\//, role: 'admin' },
+  { pattern: /^\/mcp$/, role: 'admin' },
+  { pattern: /^\/pow3r-pass\//, role: 'admin' },
+  { pattern: /^\/safety\//, role: 'admin' },
+];
+
+export function requiredRole(method: string, path: string): Role {
+  const rule = ROUTE_ROLES.find(r => (!r.method || r.method === method) && r.pattern.test(path));
+  return rule?.role ?? 'user';
+}
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return ROLE_RANK[principal.role] >= ROLE_RANK[role];
+}
+
+function getSigningKey(env: Env): Promise<CryptoKey> {
+  return getHmacKey(env, SIGNING_KEY_KV, env.AUTH_SIGNING_KEY);
+}
+
+function toBase64Url(text: string): string {
+  return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(data: string): string {
+  return atob(data.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+export async function issueSessionToken(env: Env, userId: string): Promise<{ token: string; expiresAt: string }> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = { sub: userId, iat: now, exp: now + SESSION_TTL_SECONDS };
+  const body = `${TOKEN_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+  const token = `${body}.${await hmacSign(await getSigningKey(env), body)}`;
+  return { token, expiresAt: new Date(payload.exp * 1000).toISOString() };
+}
+
+async function verifySessionToken(env: Env, token: string): Promise<SessionPayload | null> {
+  const [version, encoded, signature] = token.split('.');
+  if (version !== TOKEN_VERSION || !encoded || !signature) return null;
+  if (!await hmacVerify(await getSigningKey(env), `${version}.${encoded}`, signature)) return null;
+
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded)) as SessionPayload;
+    if (!isValidUserId(payload.sub) || payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Compare digests so the comparison time does not depend on the key.
+// Returns the matched key's fingerprint, or null.
+async function matchAdminKey(env: Env, candidate: string): Promise<string | null> {
+  const keys = (env.ADMIN_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (!keys.length) return null;
+
+  const digest = async (value: string) => new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+  const candidateDigest = await digest(candidate);
+  let matched = false;
+  for (const key of keys) {
+    const keyDigest = await digest(key);
+    let diff = 0;
+    for (let i = 0; i < keyDigest.length; i++) diff |= keyDigest[i] ^ candidateDigest[i];
+    matched = matched || diff === 0;
+  }
+  return matched ? toHex(candidateDigest.buffer).slice(0, 8) : null;
+}
+
+export async function authenticate(request: Request, env: Env): Promise<Principal> {
+  const header = request.headers.get('Authorization') || '';
+  const credential = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!credential) return { role: 'public' };
+
+  if (credential.startsWith(`${TOKEN_VERSION}.`)) {
+    const session = await verifySessionToken(env, credential);
+    if (session) return { role: 'user', userId: session.sub };
+    log('warn', 'Auth', 'Invalid or expired session token');
+    return { role: 'public' };
+  }
+
+  const keyId = await matchAdminKey(env, credential);
+  if (keyId) {
+    return { role: 'admin', keyId };
+  }
+  log('warn', 'Auth', 'Unknown bearer credential');
+  return { role: 'public' };
+}
+
+// 401 when no (valid) credential was sent, 403 when it lacks the role
+export function authError(principal: Principal, role: Role): Response {
+  if (principal.role === 'public') {
+    return jsonResponse({ error: 'Authentication required' }, 401, { 'WWW-Authenticate': 'Bearer' });
+  }
+  return jsonResponse({ error: `Requires ${role} role` }, 403);
+}
+
+// Claims made before UserClaim existed; no longer written
+const LEGACY_CLAIM_PREFIX = 'auth-claim:';
+
+/**
+ * One per user id. The check and the write happen in one step, so of two
+ * concurrent sessions claiming the same id exactly one gets it.
+ */
+export class UserClaim implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    if (url.pathname === '/claim') {
+      const claimed = await this.state.blockConcurrencyWhile(async () => {
+        if (await this.state.storage.get<string>('claimedAt')) return false;
+        await this.state.storage.put('claimedAt', new Date().toISOString());
+        return true;
+      });
+      return Response.json({ claimed });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+}
+
+// True if this call claimed the id; false if it was already taken
+async function claimUserId(env: Env, userId: string): Promise<boolean> {
+  if (await env.AGENT_STORE.get(`${LEGACY_CLAIM_PREFIX}${userId}`)) return false;
+
+  const stub = env.USER_CLAIMS.get(env.USER_CLAIMS.idFromName(userId));
+  const response = await stub.fetch('https://user-claim/claim', { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(`User claim failed: ${response.status}`);
+  }
+  return (await response.json() as { claimed: boolean }).claimed;
+}
+
+/**
+ * POST /auth/session
+ * - with a valid session token: refresh it for the same user
+ * - with `{ userId }`: claim that device id, once; later claims are refused
+ * - otherwise: a new anonymous user
+ */
+export async function handleSessionRequest(request: Request, env: Env, principal: Principal): Promise<Response> {
+  if (principal.userId) {
+    log('info', 'Auth', 'Session refreshed');
+    return jsonResponse({ userId: principal.userId, ...await issueSessionToken(env, principal.userId) });
+  }
+
+  const { userId: requested } = await request.json().catch(() => ({})) as { userId?: unknown };
+  let userId: string;
+  if (requested !== undefined) {
+    if (!isValidUserId(requested)) {
+      return jsonResponse({ error: 'Invalid userId' }, 400);
+    }
+    // Existing PWA installs keep their journal and tracking data
+    if (!await claimUserId(env, requested)) {
+      log('warn', 'Auth', 'User id already claimed');
+      return jsonResponse({ error: 'User id already claimed' }, 409);
+    }
+    userId = requested;
+  } else {
+    userId = crypto.randomUUID();
+    // Random ids pass isValidUserId too, so they are claimed like any other
+    await claimUserId(env, userId);
+  }
+
+  log('info', 'Auth', 'Session issued', { claimed: requested !== undefined });
+  return jsonResponse({ userId, ...await issueSessionToken(env, userId) }, 201);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_SCHEMA_VERSION } from '../../shared/agentConfig';
+import { configSchemaVersion, migrateConfig } from './configMigrations';
+
+const V1_CONFIG = {
+  agentId: 'maxi',
+  capabilities: { mcpTools: ['memory_search', 'agent_configure'], rateLimits: { chat: { limit: 5 } } },
+};
+
+describe('configSchemaVersion', () => {
+  it('counts configs without a valid schemaVersion as version 1', () => {
+    expect(configSchemaVersion({ schemaVersion: 2 })).toBe(2);
+    expect(configSchemaVersion({})).toBe(1);
+    expect(configSchemaVersion({ schemaVersion: '2' })).toBe(1);
+    expect(configSchemaVersion({ schemaVersion: 0 })).toBe(1);
+    expect(configSchemaVersion({ schemaVersion: 1.5 })).toBe(1);
+    expect(configSchemaVersion(null)).toBe(1);
+  });
+});
+
+describe('migrateConfig', () => {
+  it('renames the agent_configure tool and stamps the current version', () => {
+    expect(migrateConfig(V1_CONFIG)).toEqual({
+      agentId: 'maxi',
+      capabilities: { mcpTools: ['memory_search', 'agent_config'], rateLimits: { chat: { limit: 5 } } },
+      schemaVersion: CONFIG_SCHEMA_VERSION,
+    });
+  });
+
+  it('drops the unused vector index name', () => {
+    const config = { schemaVersion: 2, knowledge: { domain: 'sleep', vectorConfig: { indexName: 'maxi-vectors', topK: 5 } } };
+    expect(migrateConfig(config)).toEqual({
+      schemaVersion: CONFIG_SCHEMA_VERSION,
+      knowledge: { domain: 'sleep', vectorConfig: { topK: 5 } },
+    });
+  });
+
+  it('leaves the input untouched', () => {
+    const config = structuredClone(V1_CONFIG);
+    migrateConfig(config);
+    expect(config).toEqual(V1_CONFIG);
+  });
+
+  it('stamps the version on old configs without MCP tools', () => {
+    expect(migrateConfig({ agentId: 'maxi', schemaVersion: 1 })).toEqual({ agentId: 'maxi', schemaVersion: CONFIG_SCHEMA_VERSION });
+  });
+
+  it('returns current configs as they are', () => {
+    const config = { schemaVersion: CONFIG_SCHEMA_VERSION, capabilities: { mcpTools: ['agent_configure'] } };
+    expect(migrateConfig(config)).toBe(config);
+  });
+
+  it('returns newer configs and non-objects unchanged', () => {
+    const newer = { schemaVersion: CONFIG_SCHEMA_VERSION + 1, capabilities: { mcpTools: ['agent_configure'] } };
+    expect(migrateConfig(newer)).toBe(newer);
+    expect(migrateConfig(null)).toBeNull();
+    expect(migrateConfig(['agent_configure'])).toEqual(['agent_configure']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Config Migrations
+ *
+ * Configs carry `schemaVersion`; ones stored before it existed count as
+ * version 1. Each migration lifts a config by one version, and migrateConfig
+ * runs them in order whenever a config is read from KV or written, so older
+ * live configs and rollbacks to old versions keep working. When a field is
+ * renamed or reshaped, add a migration here and bump CONFIG_SCHEMA_VERSION
+ * in shared/agentConfig.ts.
+ */
+
+import { CONFIG_SCHEMA_VERSION } from '../../shared/agentConfig';
+import { log } from './logger';
+
+type ConfigObject = Record<string, any>;
+
+interface ConfigMigration {
+  // Schema version the migration upgrades from
+  from: number;
+  description: string;
+  migrate: (config: ConfigObject) => ConfigObject;
+}
+
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 1,
+    description: 'Rename the agent_configure MCP tool to agent_config',
+    migrate: config => {
+      const tools = config.capabilities?.mcpTools;
+      if (!Array.isArray(tools)) return config;
+      return {
+        ...config,
+        capabilities: {
+          ...config.capabilities,
+          mcpTools: tools.map(tool => tool === 'agent_configure' ? 'agent_config' : tool),
+        },
+      };
+    },
+  },
+  {
+    from: 2,
+    description: 'Drop knowledge.vectorConfig.indexName; the index is fixed by the VECTORS binding',
+    migrate: config => {
+      const vectorConfig = config.knowledge?.vectorConfig;
+      if (!vectorConfig || !('indexName' in vectorConfig)) return config;
+      const { indexName, ...kept } = vectorConfig;
+      return { ...config, knowledge: { ...config.knowledge, vectorConfig: kept } };
+    },
+  },
+];
+
+function isConfigObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function configSchemaVersion(config: unknown): number {
+  const version = isConfigObject(config) ? config.schemaVersion : undefined;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : 1;
+}
+
+/**
+ * Upgrade `config` to CONFIG_SCHEMA_VERSION. Values that are not objects, and
+ * configs from a newer schema, are returned unchanged (the schema gate
+ * rejects both on write).
+ */
+export function migrateConfig<T>(config: T): T {
+  if (!isConfigObject(config)) return config;
+
+  const from = configSchemaVersion(config);
+  if (from > CONFIG_SCHEMA_VERSION) {
+    log('warn', 'ConfigMigrations', 'Config is newer than this worker', { schemaVersion: from, supported: CONFIG_SCHEMA_VERSION });
+    return config;
+  }
+
+  let migrated: ConfigObject = config;
+  for (const migration of MIGRATIONS) {
+    if (migration.from < from) continue;
+    migrated = migration.migrate(migrated);
+    log('debug', 'ConfigMigrations', 'Migrated', { from: migration.from, to: migration.from + 1, description: migration.description });
+  }
+  return (from === CONFIG_SCHEMA_VERSION ? config : { ...migrated, schemaVersion: CONFIG_SCHEMA_VERSION }) as T;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import seedConfig from '../../configs/agent.json';
+import { CONFIG_SCHEMA_VERSION } from '../../shared/agentConfig';
+import { AGENT_CONFIG_SCHEMA } from './configSchema';
+import { validateSchema } from './schema';
+
+// A fresh copy of the seed config for each test to edit
+function seed(): Record<string, any> {
+  return structuredClone(seedConfig);
+}
+
+describe('AGENT_CONFIG_SCHEMA', () => {
+  it('accepts the seed config', () => {
+    expect(validateSchema(seed(), AGENT_CONFIG_SCHEMA)).toEqual([]);
+  });
+
+  it('catches a mistyped property name', () => {
+    const config = seed();
+    config.persona.systemPromt = config.persona.systemPrompt;
+    delete config.persona.systemPrompt;
+    expect(validateSchema(config, AGENT_CONFIG_SCHEMA)).toEqual([
+      { path: '$.persona.systemPrompt', message: 'Required' },
+      { path: '$.persona.systemPromt', message: 'Unknown property' },
+    ]);
+  });
+
+  it('reports wrong types and out-of-range values with their paths', () => {
+    const config = seed();
+    config.voice.enabled = 'yes';
+    config.persona.personality.openness = 1.5;
+    config.capabilities.rateLimits = { chat: { limit: 0 } };
+    expect(validateSchema(config, AGENT_CONFIG_SCHEMA)).toEqual([
+      { path: '$.persona.personality.openness', message: 'Must be <= 1' },
+      { path: '$.voice.enabled', message: 'Expected boolean, got string' },
+      { path: '$.capabilities.rateLimits.chat.limit', message: 'Must be >= 1' },
+    ]);
+  });
+
+  it('rejects configs written for a newer schema version', () => {
+    const config = { ...seed(), schemaVersion: CONFIG_SCHEMA_VERSION + 1 };
+    expect(validateSchema(config, AGENT_CONFIG_SCHEMA)).toEqual([
+      { path: '$.schemaVersion', message: `Must be <= ${CONFIG_SCHEMA_VERSION}` },
+    ]);
+  });
+
+  it('checks crisis resources in the content policy', () => {
+    const config = seed();
+    config.guardian.contentPolicy = { crisisResources: { US: [{ name: 'Line', categories: ['sadness'] }] } };
+    expect(validateSchema(config, AGENT_CONFIG_SCHEMA)).toEqual([
+      { path: '$.guardian.contentPolicy.crisisResources.US[0].contact', message: 'Required' },
+      { path: '$.guardian.contentPolicy.crisisResources.US[0].categories[0]', message: 'Must be one of: "self-harm", "abuse", "medical-emergency"' },
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Agent Config Schema
+ * The shared AgentConfig shape (shared/agentConfig.ts), checked by the
+ * `gate-schema` Guardian gate on every config write
+ */
+
+import { CONFIG_SCHEMA_VERSION } from '../../shared/agentConfig';
+import type { JsonSchema } from './schema';
+
+const nonEmpty: JsonSchema = { type: 'string', minLength: 1 };
+const unit: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const providerTarget = (required: string[]): JsonSchema => ({
+  type: 'object',
+  properties: {
+    provider: nonEmpty,
+    model: { type: 'string' },
+    voiceId: { type: 'string' },
+    baseUrl: { type: 'string', pattern: '^https?://' },
+    credential: { type: 'string' },
+  },
+  required,
+  additionalProperties: false,
+});
+
+const rateLimitRule: JsonSchema = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1 },
+    windowSeconds: { type: 'integer', minimum: 1, maximum: 86400 },
+  },
+  additionalProperties: false,
+};
+
+const crisisResource: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: nonEmpty,
+    contact: nonEmpty,
+    categories: { type: 'array', items: { enum: ['self-harm', 'abuse', 'medical-emergency'] } },
+  },
+  required: ['name', 'contact'],
+  additionalProperties: false,
+};
+
+export const AGENT_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    schemaVersion: { type: 'integer', minimum: 1, maximum: CONFIG_SCHEMA_VERSION },
+    agentId: { type: 'string', pattern: '^[a-z0-9][a-z0-9-]*$' },
+    version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+' },
+    createdAt: { type: 'string', format: 'date-time' },
+    lastUpdated: { type: 'string', format: 'date-time' },
+    persona: {
+      type: 'object',
+      properties: {
+        name: nonEmpty,
+        role: nonEmpty,
+        systemPrompt: { type: 'string', minLength: 20 },
+        greeting: nonEmpty,
+        farewell: { type: 'string' },
+        traits: stringList,
+        personality: { type: 'object', additionalProperties: unit },
+      },
+      required: ['name', 'role', 'systemPrompt', 'greeting'],
+      additionalProperties: false,
+    },
+    voice: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        ttsProvider: nonEmpty,
+        voiceId: { type: 'string' },
+        model: { type: 'string' },
+        baseUrl: { type: 'string', pattern: '^https?://' },
+        settings: {
+          type: 'object',
+          properties: {
+            stability: unit,
+            similarityBoost: unit,
+            style: unit,
+            speed: { type: 'number', minimum: 0.25, maximum: 4 },
+          },
+          additionalProperties: false,
+        },
+        timeoutMs: { type: 'integer', minimum: 1000, maximum: 120000 },
+        cache: { type: 'object', properties: { enabled: { type: 'boolean' } }, required: ['enabled'] },
+        streaming: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            maxChunkChars: { type: 'integer', minimum: 50, maximum: 5000 },
+            concurrency: { type: 'integer', minimum: 1, maximum: 8 },
+          },
+          required: ['enabled'],
+          additionalProperties: false,
+        },
+        fallback: { type: 'array', items: providerTarget(['provider']) },
+        yaipProfile: { type: 'object' },
+        ssmlConfig: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            includeBreaks: { type: 'boolean' },
+            includeProsody: { type: 'boolean' },
+            includeEmphasis: { type: 'boolean' },
+          },
+          required: ['enabled'],
+        },
+      },
+      required: ['enabled', 'ttsProvider'],
+      additionalProperties: false,
+    },
+    visual: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        avatarType: { type: 'string' },
+        avatar: { type: 'object' },
+        lipSync: {
+          type: 'object',
+          properties: {
+            mode: { enum: ['viseme', 'amplitude', 'none'] },
+            transitionDuration: { type: 'number', minimum: 0 },
+            smoothing: unit,
+            visemeMapping: {
+              type: 'object',
+              properties: {
+                enabled: { type: 'boolean' },
+                phonemeSource: { enum: ['tts', 'text'] },
+              },
+            },
+          },
+          required: ['mode', 'transitionDuration', 'smoothing'],
+        },
+        expressions: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            emotions: {
+              type: 'object',
+              additionalProperties: {
+                type: 'object',
+                properties: { intensity: unit, ssmlTriggers: stringList },
+                required: ['intensity', 'ssmlTriggers'],
+              },
+            },
+          },
+        },
+      },
+      required: ['enabled'],
+    },
+    knowledge: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string' },
+        vectorConfig: {
+          type: 'object',
+          properties: {
+            embeddingModel: nonEmpty,
+            topK: { type: 'integer', minimum: 1, maximum: 50 },
+            similarityThreshold: unit,
+            reranking: { type: 'boolean' },
+            hybrid: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    capabilities: {
+      type: 'object',
+      properties: {
+        voice: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            inputEnabled: { type: 'boolean' },
+            outputEnabled: { type: 'boolean' },
+          },
+        },
+        chat: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            streaming: { type: 'boolean' },
+            maxTokens: { type: 'integer', minimum: 1 },
+            contextWindow: { type: 'integer', minimum: 1024 },
+          },
+        },
+        llm: {
+          type: 'object',
+          properties: {
+            provider: nonEmpty,
+            model: nonEmpty,
+            baseUrl: { type: 'string', pattern: '^https?://' },
+            temperature: { type: 'number', minimum: 0, maximum: 2 },
+            topP: unit,
+            timeoutMs: { type: 'integer', minimum: 1000, maximum: 300000 },
+            fallback: { type: 'array', items: providerTarget(['provider', 'model']) },
+          },
+          required: ['provider', 'model'],
+          additionalProperties: false,
+        },
+        rateLimits: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            chat: rateLimitRule,
+            ttsCharacters: rateLimitRule,
+            transcribe: rateLimitRule,
+            mcp: rateLimitRule,
+          },
+          additionalProperties: false,
+        },
+        mcpTools: stringList,
+        integrations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: nonEmpty,
+              endpoint: { type: 'string', pattern: '^https?://' },
+              enabled: { type: 'boolean' },
+            },
+            required: ['name', 'enabled'],
+          },
+        },
+      },
+      required: ['llm'],
+      additionalProperties: false,
+    },
+    deployment: { type: 'object' },
+    guardian: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        gates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { id: nonEmpty, name: nonEmpty, required: { type: 'boolean' } },
+            required: ['id', 'name', 'required'],
+            additionalProperties: false,
+          },
+        },
+        outputGates: { type: 'boolean' },
+        constitutionRef: { type: 'string' },
+        contentPolicy: {
+          type: 'object',
+          properties: {
+            sensitiveTopics: stringList,
+            safetyLevel: { type: 'string' },
+            disclaimerRequired: { type: 'boolean' },
+            disclaimer: nonEmpty,
+            defaultRegion: { type: 'string', pattern: '^[A-Z]{2}$' },
+            crisisResources: {
+              type: 'object',
+              additionalProperties: { type: 'array', items: crisisResource, minItems: 1 },
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+      required: ['enabled'],
+      additionalProperties: false,
+    },
+  },
+  required: ['agentId', 'version', 'persona', 'voice', 'capabilities'],
+  additionalProperties: false,
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { diffConfigs, handleConfigRequest } from './configVersions';
+import { createTestEnv } from './testEnv';
+
+describe('diffConfigs', () => {
+  it('finds nothing between equal configs', () => {
+    const config = { persona: { name: 'Maxi', traits: ['calm'] }, voice: { enabled: true } };
+    expect(diffConfigs(config, structuredClone(config))).toEqual([]);
+  });
+
+  it('reports nested changes, additions and removals by path in key order', () => {
+    const from = { voice: { enabled: true, voiceId: 'a' }, persona: { name: 'Maxi', farewell: 'Bye' } };
+    const to = { voice: { enabled: false, voiceId: 'a', model: 'm1' }, persona: { name: 'Maxi' } };
+    expect(diffConfigs(from, to)).toEqual([
+      { path: '$.persona.farewell', op: 'removed', from: 'Bye' },
+      { path: '$.voice.enabled', op: 'changed', from: true, to: false },
+      { path: '$.voice.model', op: 'added', to: 'm1' },
+    ]);
+  });
+
+  it('compares arrays as whole values', () => {
+    expect(diffConfigs({ traits: ['calm', 'kind'] }, { traits: ['kind', 'calm'] })).toEqual([
+      { path: '$.traits', op: 'changed', from: ['calm', 'kind'], to: ['kind', 'calm'] },
+    ]);
+  });
+
+  it('reports a whole subtree when its type changes', () => {
+    expect(diffConfigs({ avatar: { url: 'x' } }, { avatar: null })).toEqual([
+      { path: '$.avatar', op: 'changed', from: { url: 'x' }, to: null },
+    ]);
+  });
+
+  it('starts paths from the given root', () => {
+    expect(diffConfigs({ a: 1 }, { a: 2 }, '$.voice')).toEqual([{ path: '$.voice.a', op: 'changed', from: 1, to: 2 }]);
+  });
+});
+
+describe('config writes', () => {
+  const admin = { role: 'admin' as const, keyId: 'abcd1234' };
+  const put = (env: ReturnType<typeof createTestEnv>, headers: Record<string, string>) => {
+    const request = new Request('https://worker/config', { method: 'PUT', headers, body: JSON.stringify({ agentId: 'maxi' }) });
+    return handleConfigRequest(request, new URL(request.url), env, admin);
+  };
+
+  it('requires If-Match', async () => {
+    const env = createTestEnv();
+    const response = await put(env, {});
+    expect(response.status).toBe(428);
+    expect(await response.json()).toMatchObject({ success: false, currentVersion: 0 });
+    expect((await env.AGENT_STORE.list()).keys).toEqual([]);
+  });
+
+  it('rejects a stale If-Match', async () => {
+    const env = createTestEnv();
+    const read = await handleConfigRequest(new Request('https://worker/config'), new URL('https://worker/config'), env, admin);
+    const response = await put(env, { 'If-Match': '"999"' });
+    expect(response.status).toBe(412);
+    expect(response.headers.get('ETag')).toBe(read.headers.get('ETag'));
+  });
+});
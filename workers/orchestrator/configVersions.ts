@@ -0,0 +1,249 @@
+/**
+ * Config Versions
+ *
+ * Every accepted config write is kept as an immutable, numbered version with
+ * its author, timestamp and change note. The live config stays at
+ * `agent-config` for fast reads, and `config-version:head` holds the latest
+ * version number, which is also the ETag of `GET /config`. Writes must send
+ * `If-Match` naming the current head (428 without it, 412 if stale), so two
+ * admins editing the same version cannot overwrite each other. KV has no
+ * compare-and-swap, so two writes landing within the same instant can still
+ * both pass the check.
+ *
+ * The first read of an empty store seeds version 1 from configs/agent.json.
+ * Configs are migrated to the current schema version whenever they are
+ * served or written; history keeps each version as it was saved.
+ *
+ * Routes (all but `GET /config` are admin-only):
+ * - GET  /config                      live config, with ETag
+ * - PUT  /config                      save a new version (gated)
+ * - GET  /config/versions             newest first; ?limit=&before=
+ * - GET  /config/versions/:version    one version, with its config
+ * - GET  /config/diff?from=&to=       changes between versions (to defaults to head)
+ * - POST /config/rollback             { version, note? } - saves that config as a new version
+ */
+
+import seedConfig from '../../configs/agent.json';
+import type { Principal } from './auth';
+import { migrateConfig } from './configMigrations';
+import { runConfigGates } from './guardian';
+import { jsonResponse } from './http';
+import { log } from './logger';
+import type { AgentConfig, Env } from './types';
+
+export interface ConfigVersion {
+  version: number;
+  config: AgentConfig;
+  author: string;
+  note?: string;
+  createdAt: string;
+  // Set when this version restored an earlier one
+  rollbackOf?: number;
+}
+
+export type ConfigVersionSummary = Omit<ConfigVersion, 'config'>;
+
+export interface ConfigChange {
+  path: string;
+  op: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+const LIVE_KEY = 'agent-config';
+const HEAD_KEY = 'config-version:head';
+const MAX_NOTE_LENGTH = 500;
+
+function versionKey(version: number): string {
+  return `config-version:${version}`;
+}
+
+async function getHeadVersion(env: Env): Promise<number> {
+  return parseInt(await env.AGENT_STORE.get(HEAD_KEY) || '0');
+}
+
+async function getVersion(env: Env, version: number): Promise<ConfigVersion | null> {
+  return env.AGENT_STORE.get<ConfigVersion>(versionKey(version), 'json');
+}
+
+function etag(version: number): string {
+  return `"${version}"`;
+}
+
+// If-Match: `*`, or a list of (possibly weak) entity tags
+function matchesETag(header: string, version: number): boolean {
+  return header.split(',').some(tag => {
+    const value = tag.trim().replace(/^W\//, '');
+    return value === '*' || value === etag(version);
+  });
+}
+
+function summarize({ config: _config, ...summary }: ConfigVersion): ConfigVersionSummary {
+  return summary;
+}
+
+// Header values are ASCII, so clients URI-encode free text
+function headerText(request: Request, name: string): string | undefined {
+  const value = request.headers.get(name);
+  if (!value) return undefined;
+  try {
+    return decodeURIComponent(value).slice(0, MAX_NOTE_LENGTH);
+  } catch {
+    return value.slice(0, MAX_NOTE_LENGTH);
+  }
+}
+
+function authorOf(request: Request, principal: Principal): string {
+  const identity = principal.keyId ? `admin:${principal.keyId}` : principal.role;
+  const name = headerText(request, 'X-Config-Author');
+  return name ? `${name} (${identity})` : identity;
+}
+
+async function saveVersion(env: Env, config: AgentConfig, meta: Omit<ConfigVersionSummary, 'version' | 'createdAt'>): Promise<ConfigVersion> {
+  let head = await getHeadVersion(env);
+
+  // The config that predates versioning becomes version 1, so it can be restored
+  if (head === 0) {
+    const existing = await env.AGENT_STORE.get<AgentConfig>(LIVE_KEY, 'json');
+    if (existing) {
+      head = 1;
+      const baseline: ConfigVersion = { version: head, config: existing, author: 'system', note: 'Config before versioning', createdAt: existing.lastUpdated || new Date().toISOString() };
+      await env.AGENT_STORE.put(versionKey(head), JSON.stringify(baseline));
+      log('info', 'ConfigVersions', 'Baseline recorded');
+    }
+  }
+
+  const createdAt = new Date().toISOString();
+  const record: ConfigVersion = { version: head + 1, ...meta, createdAt, config: { ...config, lastUpdated: createdAt } };
+  await env.AGENT_STORE.put(versionKey(record.version), JSON.stringify(record));
+  await env.AGENT_STORE.put(LIVE_KEY, JSON.stringify(record.config));
+  await env.AGENT_STORE.put(HEAD_KEY, String(record.version));
+  log('info', 'ConfigVersions', 'Version saved', { version: record.version, author: record.author, rollbackOf: record.rollbackOf });
+  return record;
+}
+
+async function seed(env: Env): Promise<AgentConfig> {
+  const saved = await saveVersion(env, migrateConfig(seedConfig as AgentConfig), { author: 'system', note: 'Seeded from configs/agent.json' });
+  return saved.config;
+}
+
+/**
+ * The live config, migrated to the current schema; seeds it from
+ * configs/agent.json when none has been saved yet
+ */
+export async function loadAgentConfig(env: Env): Promise<AgentConfig> {
+  const config = await env.AGENT_STORE.get<AgentConfig>(LIVE_KEY, 'json');
+  return config ? migrateConfig(config) : seed(env);
+}
+
+// Structural diff; arrays are compared as whole values
+export function diffConfigs(from: unknown, to: unknown, path: string = '$'): ConfigChange[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (isObject(from) && isObject(to)) {
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    return keys.flatMap(key => {
+      const childPath = `${path}.${key}`;
+      if (!(key in from)) return [{ path: childPath, op: 'added' as const, to: to[key] }];
+      if (!(key in to)) return [{ path: childPath, op: 'removed' as const, from: from[key] }];
+      return diffConfigs(from[key], to[key], childPath);
+    });
+  }
+  return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ path, op: 'changed', from, to }];
+}
+
+/**
+ * Handle /config and /config/*
+ */
+export async function handleConfigRequest(request: Request, url: URL, env: Env, principal: Principal): Promise<Response> {
+  const path = url.pathname;
+  const method = request.method;
+
+  if (path === '/config' && method === 'GET') {
+    // Seeding may write the first version, so the head is read after it
+    const config = await loadAgentConfig(env);
+    return jsonResponse(config, 200, { 'ETag': etag(await getHeadVersion(env)) });
+  }
+
+  // Both writes must name the current head in If-Match
+  if ((path === '/config' && method === 'PUT') || (path === '/config/rollback' && method === 'POST')) {
+    const head = await getHeadVersion(env);
+    const ifMatch = request.headers.get('If-Match');
+    if (!ifMatch) {
+      log('warn', 'ConfigVersions', 'Write without If-Match rejected', { head });
+      return jsonResponse({ success: false, error: 'If-Match required; read the config first', currentVersion: head }, 428, { 'ETag': etag(head) });
+    }
+    if (!matchesETag(ifMatch, head)) {
+      log('warn', 'ConfigVersions', 'Stale write rejected', { ifMatch, head });
+      return jsonResponse({ success: false, error: 'Config has changed since it was read', currentVersion: head }, 412, { 'ETag': etag(head) });
+    }
+
+    const body = await request.json().catch(() => undefined);
+    if (body === undefined) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+
+    let candidate: unknown = body;
+    let rollbackOf: number | undefined;
+    let note = headerText(request, 'X-Change-Note');
+    if (path === '/config/rollback') {
+      const { version, note: rollbackNote } = (body || {}) as { version?: unknown; note?: unknown };
+      const target = typeof version === 'number' && Number.isInteger(version) ? await getVersion(env, version) : null;
+      if (!target) {
+        return jsonResponse({ error: 'Unknown version' }, 404);
+      }
+      candidate = target.config;
+      rollbackOf = target.version;
+      note = typeof rollbackNote === 'string' ? rollbackNote.slice(0, MAX_NOTE_LENGTH) : note || `Rollback to version ${target.version}`;
+    }
+
+    // Older configs (and rollbacks to them) are lifted to the current schema first
+    candidate = migrateConfig(candidate);
+
+    // Nothing is written unless every required Guardian gate passes
+    const report = await runConfigGates(candidate, env);
+    if (!report.passed) {
+      return jsonResponse({ success: false, error: 'Config rejected by Guardian gates', report }, 422);
+    }
+
+    const saved = await saveVersion(env, candidate as AgentConfig, { author: authorOf(request, principal), note, rollbackOf });
+    return jsonResponse({ success: true, config: saved.config, version: saved.version, report }, 200, { 'ETag': etag(saved.version) });
+  }
+
+  if (path === '/config/versions' && method === 'GET') {
+    const head = await getHeadVersion(env);
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '20') || 20, 1), 100);
+    const before = Math.min(parseInt(url.searchParams.get('before') || '') || head + 1, head + 1);
+    const numbers = Array.from({ length: Math.min(limit, before - 1) }, (_, i) => before - 1 - i);
+    const versions = (await Promise.all(numbers.map(version => getVersion(env, version))))
+      .filter((record): record is ConfigVersion => !!record)
+      .map(summarize);
+    const oldest = numbers[numbers.length - 1];
+    return jsonResponse({ head, versions, before: oldest > 1 ? oldest : undefined });
+  }
+
+  const versionMatch = path.match(/^\/config\/versions\/(\d+)$/);
+  if (versionMatch && method === 'GET') {
+    const record = await getVersion(env, parseInt(versionMatch[1]));
+    return record ? jsonResponse(record) : jsonResponse({ error: 'Unknown version' }, 404);
+  }
+
+  if (path === '/config/diff' && method === 'GET') {
+    const head = await getHeadVersion(env);
+    const from = parseInt(url.searchParams.get('from') || '');
+    const to = parseInt(url.searchParams.get('to') || '') || head;
+    const [fromRecord, toRecord] = await Promise.all([
+      Number.isInteger(from) ? getVersion(env, from) : null,
+      getVersion(env, to),
+    ]);
+    if (!fromRecord || !toRecord) {
+      return jsonResponse({ error: 'Unknown version' }, 404);
+    }
+    const changes = diffConfigs(fromRecord.config, toRecord.config);
+    log('info', 'ConfigVersions', 'Diff', { from, to, changes: changes.length });
+    return jsonResponse({ from, to, changes });
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { computeGoalProgress, Goal, validateGoalInput } from './goals';
+
+const NOW = new Date('2024-03-15T12:00:00Z');
+
+function goal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: 'goal-1',
+    title: 'Walk every morning',
+    motivation: '',
+    milestones: [],
+    cadence: 'daily',
+    status: 'active',
+    checkIns: [],
+    createdAt: '2024-03-14T12:00:00Z',
+    updatedAt: '2024-03-14T12:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('computeGoalProgress', () => {
+  it('measures progress by milestones done', () => {
+    const progress = computeGoalProgress(goal({
+      milestones: [
+        { id: 'a', title: 'Buy shoes', done: true },
+        { id: 'b', title: 'First 5k', done: false },
+        { id: 'c', title: 'First 10k', done: false },
+      ],
+      checkIns: [{ id: 'c1', timestamp: '2024-03-15T08:00:00Z', progress: 90 }],
+    }), NOW);
+    expect(progress).toMatchObject({ percent: 33, milestonesDone: 1, milestonesTotal: 3 });
+  });
+
+  it('uses the latest self-reported progress without milestones', () => {
+    const progress = computeGoalProgress(goal({
+      checkIns: [
+        { id: 'c1', timestamp: '2024-03-13T08:00:00Z', progress: 20 },
+        { id: 'c2', timestamp: '2024-03-14T08:00:00Z', progress: 45 },
+        { id: 'c3', timestamp: '2024-03-15T08:00:00Z', note: 'Rained, walked indoors' },
+      ],
+    }), NOW);
+    expect(progress.percent).toBe(45);
+    expect(progress.lastCheckIn).toBe('2024-03-15T08:00:00Z');
+  });
+
+  it('reports 0% before any progress and 100% once completed', () => {
+    expect(computeGoalProgress(goal(), NOW).percent).toBe(0);
+    expect(computeGoalProgress(goal({ status: 'completed', milestones: [{ id: 'a', title: 'x', done: false }] }), NOW).percent).toBe(100);
+  });
+
+  it('schedules the next check-in one cadence period after the last activity', () => {
+    expect(computeGoalProgress(goal(), NOW).nextCheckInDue).toBe('2024-03-15T12:00:00.000Z');
+    const weekly = goal({ cadence: 'weekly', checkIns: [{ id: 'c1', timestamp: '2024-03-10T09:00:00Z' }] });
+    expect(computeGoalProgress(weekly, NOW)).toMatchObject({ nextCheckInDue: '2024-03-17T09:00:00.000Z', daysSinceActivity: 5 });
+  });
+
+  it('flags an active goal as stalled after two missed periods', () => {
+    expect(computeGoalProgress(goal({ createdAt: '2024-03-13T12:00:00Z' }), NOW).stalled).toBe(false);
+    expect(computeGoalProgress(goal({ createdAt: '2024-03-13T11:00:00Z' }), NOW).stalled).toBe(true);
+    expect(computeGoalProgress(goal({ cadence: 'monthly', createdAt: '2024-02-01T00:00:00Z' }), NOW).stalled).toBe(false);
+  });
+
+  it('never flags paused or finished goals as stalled', () => {
+    const old = { createdAt: '2023-01-01T00:00:00Z' };
+    expect(computeGoalProgress(goal({ ...old, status: 'paused' }), NOW).stalled).toBe(false);
+    expect(computeGoalProgress(goal({ ...old, status: 'completed' }), NOW).stalled).toBe(false);
+  });
+});
+
+describe('validateGoalInput', () => {
+  it('requires a title when creating', () => {
+    expect(validateGoalInput({ title: 'Read more' }, true)).toBeNull();
+    expect(validateGoalInput({}, true)).toMatch(/title/);
+    expect(validateGoalInput({ title: '   ' }, true)).toMatch(/title/);
+    expect(validateGoalInput({}, false)).toBeNull();
+  });
+
+  it('rejects unknown cadences and statuses, bad dates and empty milestones', () => {
+    expect(validateGoalInput({ cadence: 'hourly' as Goal['cadence'] }, false)).toMatch(/cadence/);
+    expect(validateGoalInput({ status: 'done' as Goal['status'] }, false)).toMatch(/status/);
+    expect(validateGoalInput({ targetDate: 'soon' }, false)).toMatch(/targetDate/);
+    expect(validateGoalInput({ title: 'Run', milestones: ['5k', ''] }, true)).toMatch(/milestones/);
+    expect(validateGoalInput({ addMilestones: ['10k'] }, false)).toBeNull();
+  });
+});
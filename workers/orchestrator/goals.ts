@@ -0,0 +1,361 @@
+/**
+ * Goal Tracking
+ *
+ * Goals with a motivation, milestones, a check-in cadence and a status,
+ * stored per user. Progress comes from completed milestones (or the latest
+ * self-reported percentage when a goal has none); an active goal is stalled
+ * once two cadence periods pass without a check-in.
+ */
+
+import { jsonResponse } from './http';
+import { log } from './logger';
+import type { Env } from './types';
+
+export type GoalCadence = 'daily' | 'weekly' | 'monthly';
+export type GoalStatus = 'active' | 'paused' | 'completed' | 'abandoned';
+
+export interface GoalMilestone {
+  id: string;
+  title: string;
+  done: boolean;
+  completedAt?: string;
+}
+
+export interface GoalCheckIn {
+  id: string;
+  timestamp: string;
+  note?: string;
+  // Self-reported completion, 0-100
+  progress?: number;
+  milestoneId?: string;
+}
+
+export interface Goal {
+  id: string;
+  title: string;
+  motivation: string;
+  milestones: GoalMilestone[];
+  cadence: GoalCadence;
+  status: GoalStatus;
+  targetDate?: string;
+  checkIns: GoalCheckIn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GoalProgress {
+  percent: number;
+  milestonesDone: number;
+  milestonesTotal: number;
+  lastCheckIn?: string;
+  nextCheckInDue: string;
+  stalled: boolean;
+  daysSinceActivity: number;
+}
+
+export type GoalWithProgress = Goal & { progress: GoalProgress };
+
+export interface GoalInput {
+  title: string;
+  motivation?: string;
+  milestones?: string[];
+  cadence?: GoalCadence;
+  targetDate?: string;
+}
+
+export interface GoalUpdate {
+  title?: string;
+  motivation?: string;
+  cadence?: GoalCadence;
+  status?: GoalStatus;
+  targetDate?: string;
+  addMilestones?: string[];
+}
+
+export interface GoalCheckInInput {
+  note?: string;
+  progress?: number;
+  milestoneId?: string;
+}
+
+export const GOAL_CADENCES: GoalCadence[] = ['daily', 'weekly', 'monthly'];
+export const GOAL_STATUSES: GoalStatus[] = ['active', 'paused', 'completed', 'abandoned'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CADENCE_DAYS: Record<GoalCadence, number> = { daily: 1, weekly: 7, monthly: 30 };
+// Missed periods before an active goal counts as stalled
+const STALL_PERIODS = 2;
+const MAX_CHECK_INS_PER_GOAL = 500;
+
+function goalsKey(userId: string): string {
+  return `goals:${userId}`;
+}
+
+async function loadGoals(env: Env, userId: string): Promise<Goal[]> {
+  const stored = await env.AGENT_STORE.get(goalsKey(userId), 'json') as { goals: Goal[] } | null;
+  return stored?.goals || [];
+}
+
+async function saveGoals(env: Env, userId: string, goals: Goal[]): Promise<void> {
+  await env.AGENT_STORE.put(goalsKey(userId), JSON.stringify({ goals }));
+}
+
+function newMilestone(title: string): GoalMilestone {
+  return { id: crypto.randomUUID(), title: title.trim(), done: false };
+}
+
+export function computeGoalProgress(goal: Goal, now: Date = new Date()): GoalProgress {
+  const milestonesDone = goal.milestones.filter(m => m.done).length;
+  const milestonesTotal = goal.milestones.length;
+  const reported = [...goal.checkIns].reverse().find(c => c.progress !== undefined)?.progress;
+
+  let percent: number;
+  if (goal.status === 'completed') {
+    percent = 100;
+  } else if (milestonesTotal > 0) {
+    percent = Math.round((milestonesDone / milestonesTotal) * 100);
+  } else {
+    percent = reported ?? 0;
+  }
+
+  const lastCheckIn = goal.checkIns[goal.checkIns.length - 1]?.timestamp;
+  const lastActivity = Date.parse(lastCheckIn || goal.createdAt);
+  const periodMs = CADENCE_DAYS[goal.cadence] * DAY_MS;
+  const daysSinceActivity = Math.floor((now.getTime() - lastActivity) / DAY_MS);
+
+  return {
+    percent,
+    milestonesDone,
+    milestonesTotal,
+    lastCheckIn,
+    nextCheckInDue: new Date(lastActivity + periodMs).toISOString(),
+    stalled: goal.status === 'active' && now.getTime() - lastActivity > STALL_PERIODS * periodMs,
+    daysSinceActivity,
+  };
+}
+
+function withProgress(goal: Goal): GoalWithProgress {
+  return { ...goal, progress: computeGoalProgress(goal) };
+}
+
+export function validateGoalInput(input: Partial<GoalInput & GoalUpdate>, creating: boolean): string | null {
+  if (creating || input.title !== undefined) {
+    if (typeof input.title !== 'string' || !input.title.trim() || input.title.length > 200) {
+      return 'title is required (at most 200 characters)';
+    }
+  }
+  if (input.motivation !== undefined && (typeof input.motivation !== 'string' || input.motivation.length > 2000)) {
+    return 'motivation must be a string of at most 2000 characters';
+  }
+  if (input.cadence !== undefined && !GOAL_CADENCES.includes(input.cadence)) {
+    return `cadence must be one of: ${GOAL_CADENCES.join(', ')}`;
+  }
+  if (input.status !== undefined && !GOAL_STATUSES.includes(input.status)) {
+    return `status must be one of: ${GOAL_STATUSES.join(', ')}`;
+  }
+  if (input.targetDate !== undefined && Number.isNaN(Date.parse(input.targetDate))) {
+    return 'targetDate must be a date';
+  }
+  for (const list of [input.milestones, input.addMilestones]) {
+    if (list !== undefined && (!Array.isArray(list) || list.some(m => typeof m !== 'string' || !m.trim()))) {
+      return 'milestones must be an array of non-empty strings';
+    }
+  }
+  return null;
+}
+
+export async function createGoal(env: Env, userId: string, input: GoalInput): Promise<GoalWithProgress> {
+  const now = new Date().toISOString();
+  const goal: Goal = {
+    id: crypto.randomUUID(),
+    title: input.title.trim(),
+    motivation: input.motivation?.trim() || '',
+    milestones: (input.milestones || []).map(newMilestone),
+    cadence: input.cadence || 'weekly',
+    status: 'active',
+    targetDate: input.targetDate,
+    checkIns: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const goals = await loadGoals(env, userId);
+  goals.push(goal);
+  await saveGoals(env, userId, goals);
+
+  log('info', 'Goals', 'Goal created', { userId, id: goal.id, cadence: goal.cadence, milestones: goal.milestones.length });
+  return withProgress(goal);
+}
+
+export async function listGoals(env: Env, userId: string, status?: GoalStatus): Promise<GoalWithProgress[]> {
+  const goals = await loadGoals(env, userId);
+  const filtered = status ? goals.filter(g => g.status === status) : goals;
+  log('info', 'Goals', 'Goals listed', { userId, status, count: filtered.length });
+  return filtered.map(withProgress);
+}
+
+export async function getGoal(env: Env, userId: string, id: string): Promise<GoalWithProgress | null> {
+  const goal = (await loadGoals(env, userId)).find(g => g.id === id);
+  return goal ? withProgress(goal) : null;
+}
+
+export async function updateGoal(env: Env, userId: string, id: string, update: GoalUpdate): Promise<GoalWithProgress | null> {
+  const goals = await loadGoals(env, userId);
+  const goal = goals.find(g => g.id === id);
+  if (!goal) {
+    log('warn', 'Goals', 'Goal not found for update', { userId, id });
+    return null;
+  }
+
+  if (update.title !== undefined) goal.title = update.title.trim();
+  if (update.motivation !== undefined) goal.motivation = update.motivation.trim();
+  if (update.cadence !== undefined) goal.cadence = update.cadence;
+  if (update.status !== undefined) goal.status = update.status;
+  if (update.targetDate !== undefined) goal.targetDate = update.targetDate;
+  if (update.addMilestones) goal.milestones.push(...update.addMilestones.map(newMilestone));
+  goal.updatedAt = new Date().toISOString();
+
+  await saveGoals(env, userId, goals);
+  log('info', 'Goals', 'Goal updated', { userId, id, status: goal.status });
+  return withProgress(goal);
+}
+
+export async function deleteGoal(env: Env, userId: string, id: string): Promise<boolean> {
+  const goals = await loadGoals(env, userId);
+  const remaining = goals.filter(g => g.id !== id);
+  if (remaining.length === goals.length) return false;
+  await saveGoals(env, userId, remaining);
+  log('info', 'Goals', 'Goal deleted', { userId, id });
+  return true;
+}
+
+/**
+ * Record a check-in against a goal. Naming a milestone marks it done; a goal
+ * whose milestones are all done is completed automatically.
+ */
+export async function checkInGoal(
+  env: Env,
+  userId: string,
+  id: string,
+  input: GoalCheckInInput
+): Promise<GoalWithProgress | null> {
+  const goals = await loadGoals(env, userId);
+  const goal = goals.find(g => g.id === id);
+  if (!goal) {
+    log('warn', 'Goals', 'Goal not found for check-in', { userId, id });
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  if (input.milestoneId) {
+    const milestone = goal.milestones.find(m => m.id === input.milestoneId);
+    if (!milestone) {
+      throw new Error(`Milestone not found: ${input.milestoneId}`);
+    }
+    milestone.done = true;
+    milestone.completedAt = now;
+  }
+
+  goal.checkIns.push({
+    id: crypto.randomUUID(),
+    timestamp: now,
+    note: input.note?.trim() || undefined,
+    progress: input.progress,
+    milestoneId: input.milestoneId,
+  });
+  if (goal.checkIns.length > MAX_CHECK_INS_PER_GOAL) {
+    goal.checkIns = goal.checkIns.slice(-MAX_CHECK_INS_PER_GOAL);
+  }
+
+  const allMilestonesDone = goal.milestones.length > 0 && goal.milestones.every(m => m.done);
+  if (goal.status === 'active' && (allMilestonesDone || input.progress === 100)) {
+    goal.status = 'completed';
+    log('info', 'Goals', 'Goal completed', { userId, id });
+  }
+  goal.updatedAt = now;
+
+  await saveGoals(env, userId, goals);
+  log('info', 'Goals', 'Check-in recorded', { userId, id, progress: input.progress, milestoneId: input.milestoneId });
+  return withProgress(goal);
+}
+
+/**
+ * System-context summary of the user's active goals for the chat prompt,
+ * or null when there are none.
+ */
+export async function getGoalsContext(env: Env, userId: string): Promise<string | null> {
+  const active = (await loadGoals(env, userId)).filter(g => g.status === 'active').map(withProgress);
+  if (active.length === 0) return null;
+
+  const lines = active.map(goal => {
+    const { progress } = goal;
+    const next = goal.milestones.find(m => !m.done);
+    const parts = [
+      `- "${goal.title}" (${goal.cadence}, ${progress.percent}% done)`,
+      goal.motivation ? `why: ${goal.motivation}` : '',
+      next ? `next milestone: ${next.title}` : '',
+      progress.stalled ? `STALLED - no check-in for ${progress.daysSinceActivity} days` : '',
+    ];
+    return parts.filter(Boolean).join('; ');
+  });
+
+  return `Active goals (hold the user accountable, ask about stalled goals when it fits):\n${lines.join('\n')}`;
+}
+
+// REST routes under /goals
+export async function handleGoalsRequest(request: Request, url: URL, env: Env, userId: string): Promise<Response> {
+  const method = request.method;
+  const segments = url.pathname.split('/').filter(Boolean);
+  const [, id, sub] = segments;
+
+  if (!id) {
+    if (method === 'GET') {
+      const status = url.searchParams.get('status') as GoalStatus | null;
+      return jsonResponse({ goals: await listGoals(env, userId, status || undefined) });
+    }
+    if (method === 'POST') {
+      const body = await request.json() as Partial<GoalInput>;
+      const error = validateGoalInput(body, true);
+      if (error) return jsonResponse({ error }, 400);
+      return jsonResponse(await createGoal(env, userId, body as GoalInput), 201);
+    }
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  if (sub === 'check-ins' && segments.length === 3 && method === 'POST') {
+    const body = await request.json() as GoalCheckInInput;
+    if (body.progress !== undefined && (typeof body.progress !== 'number' || body.progress < 0 || body.progress > 100)) {
+      return jsonResponse({ error: 'progress must be a number from 0 to 100' }, 400);
+    }
+    try {
+      const goal = await checkInGoal(env, userId, id, body);
+      return goal ? jsonResponse(goal, 201) : jsonResponse({ error: 'Goal not found' }, 404);
+    } catch (error) {
+      return jsonResponse({ error: error instanceof Error ? error.message : 'Check-in failed' }, 400);
+    }
+  }
+
+  if (segments.length !== 2) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  if (method === 'GET') {
+    const goal = await getGoal(env, userId, id);
+    return goal ? jsonResponse(goal) : jsonResponse({ error: 'Goal not found' }, 404);
+  }
+
+  if (method === 'PUT') {
+    const body = await request.json() as GoalUpdate;
+    const error = validateGoalInput(body, false);
+    if (error) return jsonResponse({ error }, 400);
+    const goal = await updateGoal(env, userId, id, body);
+    return goal ? jsonResponse(goal) : jsonResponse({ error: 'Goal not found' }, 404);
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deleteGoal(env, userId, id);
+    return deleted ? jsonResponse({ success: true }) : jsonResponse({ error: 'Goal not found' }, 404);
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405);
+}
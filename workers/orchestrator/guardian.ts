@@ -0,0 +1,158 @@
+/**
+ * Guardian Gates
+ *
+ * Pluggable checks that run on every config write and, when
+ * `guardian.outputGates` is set, on chat replies. Gates run in registration
+ * order; `gate-schema` is registered first and the rest are skipped when it
+ * fails, since they rely on the config's shape. A gate's failure blocks the
+ * write unless the config lists the gate with `required: false` (the schema
+ * gate always blocks).
+ */
+
+import { AGENT_CONFIG_SCHEMA } from './configSchema';
+import { log } from './logger';
+import { validateSchema } from './schema';
+import type { AgentConfig, Env } from './types';
+
+export interface GateIssue {
+  path: string;
+  message: string;
+}
+
+export interface GuardianGateCheck {
+  id: string;
+  name: string;
+  // Cannot be downgraded to optional by the config
+  enforced?: boolean;
+  checkConfig?: (config: AgentConfig, env: Env) => GateIssue[] | Promise<GateIssue[]>;
+  checkOutput?: (text: string, config: AgentConfig, env: Env) => GateIssue[] | Promise<GateIssue[]>;
+}
+
+export interface GateResult {
+  id: string;
+  name: string;
+  required: boolean;
+  status: 'passed' | 'failed' | 'skipped';
+  issues: GateIssue[];
+}
+
+export interface GateReport {
+  passed: boolean;
+  gates: GateResult[];
+}
+
+const SCHEMA_GATE_ID = 'gate-schema';
+
+const gates: GuardianGateCheck[] = [];
+
+export function registerGate(gate: GuardianGateCheck): void {
+  gates.push(gate);
+}
+
+function isRequired(gate: GuardianGateCheck, config: unknown): boolean {
+  if (gate.enforced) return true;
+  const listed = (config as Partial<AgentConfig> | null)?.guardian?.gates?.find(entry => entry.id === gate.id);
+  return listed?.required ?? true;
+}
+
+async function runGates(
+  stage: 'config' | 'output',
+  config: unknown,
+  run: (gate: GuardianGateCheck) => GateIssue[] | Promise<GateIssue[]> | undefined
+): Promise<GateReport> {
+  const results: GateResult[] = [];
+  let blocked = false;
+
+  for (const gate of gates) {
+    const required = isRequired(gate, config);
+    if (blocked) {
+      results.push({ id: gate.id, name: gate.name, required, status: 'skipped', issues: [] });
+      continue;
+    }
+
+    let issues: GateIssue[] | undefined;
+    try {
+      issues = await run(gate);
+    } catch (error) {
+      issues = [{ path: '$', message: `Gate error: ${error instanceof Error ? error.message : 'Unknown error'}` }];
+    }
+    if (!issues) continue;
+
+    results.push({ id: gate.id, name: gate.name, required, status: issues.length ? 'failed' : 'passed', issues });
+    // Later gates assume a config that matches the schema
+    if (gate.id === SCHEMA_GATE_ID && issues.length) blocked = true;
+  }
+
+  const passed = results.every(result => result.status !== 'failed' || !result.required);
+  log(passed ? 'info' : 'warn', 'Guardian', `${stage === 'config' ? 'Config' : 'Output'} gates ${passed ? 'passed' : 'failed'}`, {
+    failed: results.filter(result => result.status === 'failed').map(result => result.id),
+  });
+  return { passed, gates: results };
+}
+
+// Every gate with a config check, against a candidate config of unknown shape
+export function runConfigGates(candidate: unknown, env: Env): Promise<GateReport> {
+  return runGates('config', candidate, gate => gate.checkConfig?.(candidate as AgentConfig, env));
+}
+
+// Every gate with an output check, against a draft chat reply
+export function runOutputGates(text: string, config: AgentConfig, env: Env): Promise<GateReport> {
+  return runGates('output', config, gate => gate.checkOutput?.(text, config, env));
+}
+
+// Built-in gates (ids match guardian.gates in configs/agent.json)
+
+registerGate({
+  id: SCHEMA_GATE_ID,
+  name: 'Schema Validation',
+  enforced: true,
+  checkConfig: config => validateSchema(config, AGENT_CONFIG_SCHEMA),
+});
+
+// Placeholder text that must never ship in a live persona or reply
+const PLACEHOLDER_PATTERN = /\blorem ipsum\b|\b(?:TODO|FIXME|TBD)\b|\{\{[^}]*\}\}|\bmock(?:ed)? (?:data|response|reply)\b|\bexample\.(?:com|org)\b/i;
+
+registerGate({
+  id: 'gate-no-mock',
+  name: 'No Mock Data',
+  checkConfig: config => Object.entries(config.persona)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && PLACEHOLDER_PATTERN.test(entry[1]))
+    .map(([key]) => ({ path: `$.persona.${key}`, message: 'Contains placeholder or mock content' })),
+  checkOutput: text => PLACEHOLDER_PATTERN.test(text)
+    ? [{ path: '$.text', message: 'Reply contains placeholder or mock content' }]
+    : [],
+});
+
+// The agent must not present itself as a human or a licensed professional
+const HUMAN_OR_LICENSED = "(?:a |an )?(?:human|real person|licensed (?:therapist|counsel(?:l)?or|psychologist|psychiatrist)|(?:medical )?doctor)\\b";
+const PROMPT_CLAIM_PATTERN = new RegExp(`\\b(?:you are|you're) ${HUMAN_OR_LICENSED}`, 'i');
+const REPLY_CLAIM_PATTERN = new RegExp(`\\b(?:i am|i'm) ${HUMAN_OR_LICENSED}`, 'i');
+const DENIES_AI_PATTERN = /\b(?:never|do not|don't) (?:reveal|admit|say|mention) (?:that )?(?:you are|you're) (?:an )?ai\b/i;
+
+registerGate({
+  id: 'gate-constitutional',
+  name: 'Constitutional Compliance',
+  checkConfig: config => {
+    const issues: GateIssue[] = [];
+    const prompt = config.persona.systemPrompt;
+    if (PROMPT_CLAIM_PATTERN.test(prompt) || DENIES_AI_PATTERN.test(prompt)) {
+      issues.push({ path: '$.persona.systemPrompt', message: 'Must not present the agent as human or a licensed professional' });
+    }
+    const policy = config.guardian?.contentPolicy;
+    if (policy?.sensitiveTopics?.includes('mental-health') && policy.disclaimerRequired === false) {
+      issues.push({ path: '$.guardian.contentPolicy.disclaimerRequired', message: 'Required while mental-health is a sensitive topic' });
+    }
+    return issues;
+  },
+  checkOutput: text => REPLY_CLAIM_PATTERN.test(text)
+    ? [{ path: '$.text', message: 'Reply presents the agent as human or a licensed professional' }]
+    : [],
+});
+
+registerGate({
+  id: 'gate-content-safety',
+  name: 'Content Safety',
+  checkConfig: config => config.guardian?.enabled === false && !!config.guardian.contentPolicy?.sensitiveTopics?.length
+    ? [{ path: '$.guardian.enabled', message: 'The content-safety gate cannot be disabled while sensitive topics are configured' }]
+    : [],
+});
@@ -0,0 +1,46 @@
+/**
+ * HMAC helpers shared by signed asset URLs and session tokens
+ *
+ * Each use has its own key: a secret from the environment when set,
+ * otherwise a random key generated once and kept in KV.
+ */
+
+import { log } from './logger';
+import type { Env } from './types';
+
+const keyCache = new Map<string, { secret: string; key: CryptoKey }>();
+
+export function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): ArrayBuffer | null {
+  if (!/^(?:[0-9a-f]{2})+$/.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16))).buffer;
+}
+
+export async function getHmacKey(env: Env, kvKey: string, secret?: string): Promise<CryptoKey> {
+  let resolved = secret || await env.AGENT_STORE.get(kvKey);
+  if (!resolved) {
+    resolved = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+    await env.AGENT_STORE.put(kvKey, resolved);
+    log('info', 'HMAC', 'Generated signing key', { kvKey });
+  }
+
+  const cached = keyCache.get(kvKey);
+  if (cached?.secret === resolved) return cached.key;
+
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(resolved), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  keyCache.set(kvKey, { secret: resolved, key });
+  return key;
+}
+
+export async function hmacSign(key: CryptoKey, data: string): Promise<string> {
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+}
+
+// Constant-time via subtle.verify
+export async function hmacVerify(key: CryptoKey, data: string, signatureHex: string): Promise<boolean> {
+  const signature = fromHex(signatureHex);
+  return !!signature && crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(data));
+}
@@ -0,0 +1,30 @@
+/**
+ * HTTP helpers shared by worker routes
+ */
+
+// CORS headers
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Agent-ID, Mcp-Session-Id, MCP-Protocol-Version, If-Match, X-Change-Note, X-Config-Author',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id, Retry-After, ETag',
+};
+
+// JSON response helper
+export function jsonResponse(data: any, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+  });
+}
+
+// Anonymous per-device user id, carried in session tokens and MCP tool arguments
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isValidUserId(userId: unknown): userId is string {
+  return typeof userId === 'string' && USER_ID_PATTERN.test(userId);
+}
@@ -0,0 +1,321 @@
+/**
+ * Guided Journaling
+ *
+ * Generates journaling prompts from the themes of recent conversation and
+ * stores dated entries per user. Entries live under `journal:<userId>:<id>`
+ * with a short preview in the KV key metadata so listing stays cheap.
+ */
+
+import { jsonResponse } from './http';
+import { completeChat } from './llm';
+import { log } from './logger';
+import { isSessionOwner, loadSession } from './session';
+import type { AgentConfig, Env } from './types';
+
+export interface JournalEntry {
+  id: string;
+  userId: string;
+  // Calendar day the entry belongs to (YYYY-MM-DD)
+  date: string;
+  prompt?: string;
+  content: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JournalPrompt {
+  prompt: string;
+  themes: string[];
+}
+
+interface JournalKeyMetadata {
+  date: string;
+  createdAt: string;
+  preview: string;
+}
+
+const PREVIEW_LENGTH = 140;
+const MAX_CONTENT_LENGTH = 20000;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+// Search reads each entry it checks, so it stops at the newest entries
+const SEARCH_SCAN_LIMIT = 200;
+const SEARCH_BATCH_SIZE = 25;
+
+// Used when there is no conversation to draw themes from, or the LLM is unavailable
+const STARTER_PROMPTS = [
+  'What is one thing that took up most of your emotional energy today, and what did it teach you?',
+  'Describe a moment this week when you felt most like yourself. What made it possible?',
+  'What is a conversation you have been avoiding? What would you want the other person to understand?',
+  'Which boundary did you hold or let slide recently, and how did it feel afterwards?',
+  'What are you ready to let go of, and what would you make room for instead?',
+];
+
+function entryKey(userId: string, id: string): string {
+  return `journal:${userId}:${id}`;
+}
+
+function toDate(value: string | undefined): string {
+  if (value && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  return new Date().toISOString().slice(0, 10);
+}
+
+function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  return [...new Set(tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+async function putEntry(env: Env, entry: JournalEntry): Promise<void> {
+  const metadata: JournalKeyMetadata = {
+    date: entry.date,
+    createdAt: entry.createdAt,
+    preview: entry.content.slice(0, PREVIEW_LENGTH),
+  };
+  await env.AGENT_STORE.put(entryKey(entry.userId, entry.id), JSON.stringify(entry), { metadata });
+}
+
+export async function createJournalEntry(
+  env: Env,
+  userId: string,
+  input: { content: string; prompt?: string; date?: string; tags?: string[] }
+): Promise<JournalEntry> {
+  const now = new Date().toISOString();
+  const entry: JournalEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    date: toDate(input.date),
+    prompt: input.prompt,
+    content: input.content,
+    tags: normalizeTags(input.tags),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putEntry(env, entry);
+  log('info', 'Journal', 'Entry created', { userId, id: entry.id, date: entry.date });
+  return entry;
+}
+
+export async function getJournalEntry(env: Env, userId: string, id: string): Promise<JournalEntry | null> {
+  return env.AGENT_STORE.get(entryKey(userId, id), 'json');
+}
+
+export async function updateJournalEntry(
+  env: Env,
+  userId: string,
+  id: string,
+  changes: { content?: string; date?: string; tags?: string[] }
+): Promise<JournalEntry | null> {
+  const entry = await getJournalEntry(env, userId, id);
+  if (!entry) {
+    log('warn', 'Journal', 'Entry not found for update', { userId, id });
+    return null;
+  }
+
+  if (changes.content !== undefined) entry.content = changes.content;
+  if (changes.date !== undefined) entry.date = toDate(changes.date);
+  if (changes.tags !== undefined) entry.tags = normalizeTags(changes.tags);
+  entry.updatedAt = new Date().toISOString();
+
+  await putEntry(env, entry);
+  log('info', 'Journal', 'Entry updated', { userId, id });
+  return entry;
+}
+
+export async function deleteJournalEntry(env: Env, userId: string, id: string): Promise<boolean> {
+  const entry = await getJournalEntry(env, userId, id);
+  if (!entry) return false;
+  await env.AGENT_STORE.delete(entryKey(userId, id));
+  log('info', 'Journal', 'Entry deleted', { userId, id });
+  return true;
+}
+
+// Summaries of a user's entries, newest first
+export async function listJournalEntries(
+  env: Env,
+  userId: string,
+  limit: number = 20
+): Promise<Array<{ id: string } & JournalKeyMetadata>> {
+  const summaries: Array<{ id: string } & JournalKeyMetadata> = [];
+  const prefix = `journal:${userId}:`;
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.AGENT_STORE.list<JournalKeyMetadata>({ prefix, cursor });
+    for (const key of page.keys) {
+      if (key.metadata) {
+        summaries.push({ id: key.name.slice(prefix.length), ...key.metadata });
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  summaries.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  log('info', 'Journal', 'Entries listed', { userId, total: summaries.length, limit });
+  return summaries.slice(0, limit);
+}
+
+/**
+ * Case-insensitive search over entry content, prompts and tags; every term
+ * must match. Each entry checked costs a KV read, so only the newest
+ * SEARCH_SCAN_LIMIT entries are searched, in batches, stopping once `limit`
+ * matches are found. `complete` is false when older entries were left out.
+ */
+export async function searchJournalEntries(
+  env: Env,
+  userId: string,
+  query: string,
+  limit: number = 20
+): Promise<{ entries: JournalEntry[]; complete: boolean }> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return { entries: [], complete: true };
+
+  const summaries = await listJournalEntries(env, userId, Number.MAX_SAFE_INTEGER);
+  const scanned = summaries.slice(0, SEARCH_SCAN_LIMIT);
+  const matches: JournalEntry[] = [];
+
+  for (let i = 0; i < scanned.length && matches.length < limit; i += SEARCH_BATCH_SIZE) {
+    const batch = scanned.slice(i, i + SEARCH_BATCH_SIZE);
+    const entries = await Promise.all(batch.map(summary => getJournalEntry(env, userId, summary.id)));
+    matches.push(...entries.filter((entry): entry is JournalEntry => {
+      if (!entry) return false;
+      const haystack = `${entry.content}\n${entry.prompt || ''}\n${entry.tags.join(' ')}`.toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    }));
+  }
+
+  const complete = summaries.length <= SEARCH_SCAN_LIMIT || matches.length >= limit;
+  log('info', 'Journal', 'Search complete', { userId, terms: terms.length, matches: matches.length, total: summaries.length, complete });
+  return { entries: matches.slice(0, limit), complete };
+}
+
+/**
+ * Generate a journaling prompt from the themes of the given chat session
+ * and the user's most recent entries.
+ */
+export async function generateJournalPrompt(
+  env: Env,
+  config: AgentConfig,
+  userId: string,
+  sessionId?: string
+): Promise<JournalPrompt> {
+  const context: string[] = [];
+
+  if (sessionId) {
+    const session = await loadSession(env, sessionId);
+    if (!isSessionOwner(session, userId)) {
+      log('warn', 'Journal', 'Session belongs to another user, ignoring it', { userId, sessionId });
+    } else {
+      if (session.summary) context.push(`Conversation summary: ${session.summary}`);
+      const recent = session.turns.slice(-6).map(turn => `${turn.role === 'user' ? 'User' : config.persona?.name || 'Assistant'}: ${turn.content}`);
+      if (recent.length > 0) context.push(`Recent conversation:\n${recent.join('\n')}`);
+    }
+  }
+
+  const recentEntries = await listJournalEntries(env, userId, 3);
+  if (recentEntries.length > 0) {
+    context.push(`Recent journal entries:\n${recentEntries.map(entry => `- (${entry.date}) ${entry.preview}`).join('\n')}`);
+  }
+
+  const starter = STARTER_PROMPTS[Math.floor(Math.random() * STARTER_PROMPTS.length)];
+  if (context.length === 0) {
+    log('info', 'Journal', 'No context, using starter prompt', { userId });
+    return { prompt: starter, themes: [] };
+  }
+
+  try {
+    const response = await completeChat(config, env, [
+      {
+        role: 'system',
+        content: `${config.persona?.systemPrompt || ''}\n\nYou are writing a single guided journaling prompt for the user. Identify up to three themes from the context and write one open, reflective question (at most two sentences) that helps the user explore them. Respond with JSON only: {"themes": ["..."], "prompt": "..."}`,
+      },
+      { role: 'user', content: context.join('\n\n') },
+    ]);
+
+    const json = response.text.match(/\{[\s\S]*\}/)?.[0];
+    const parsed = json ? JSON.parse(json) as Partial<JournalPrompt> : null;
+    if (parsed?.prompt) {
+      log('info', 'Journal', 'Prompt generated', { userId, themes: parsed.themes?.length || 0 });
+      return { prompt: parsed.prompt, themes: Array.isArray(parsed.themes) ? parsed.themes : [] };
+    }
+    return { prompt: response.text.trim() || starter, themes: [] };
+  } catch (error) {
+    log('warn', 'Journal', 'Prompt generation failed, using starter prompt', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { prompt: starter, themes: [] };
+  }
+}
+
+// REST routes under /journal
+export async function handleJournalRequest(
+  request: Request,
+  url: URL,
+  env: Env,
+  userId: string,
+  config: AgentConfig
+): Promise<Response> {
+  const path = url.pathname;
+  const method = request.method;
+
+  if (path === '/journal/prompt' && method === 'POST') {
+    const { sessionId } = await request.json() as { sessionId?: string };
+    return jsonResponse(await generateJournalPrompt(env, config, userId, sessionId));
+  }
+
+  if (path === '/journal/search' && method === 'GET') {
+    const query = url.searchParams.get('q') || '';
+    const limit = parseLimit(url);
+    return jsonResponse(await searchJournalEntries(env, userId, query, limit));
+  }
+
+  if (path === '/journal' && method === 'GET') {
+    const limit = parseLimit(url);
+    return jsonResponse({ entries: await listJournalEntries(env, userId, limit) });
+  }
+
+  if (path === '/journal' && method === 'POST') {
+    const body = await request.json() as { content?: string; prompt?: string; date?: string; tags?: string[] };
+    const error = validateContent(body.content);
+    if (error) return jsonResponse({ error }, 400);
+    return jsonResponse(await createJournalEntry(env, userId, { ...body, content: body.content! }), 201);
+  }
+
+  const id = path.slice('/journal/'.length);
+  if (!id || id.includes('/')) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  if (method === 'GET') {
+    const entry = await getJournalEntry(env, userId, id);
+    return entry ? jsonResponse(entry) : jsonResponse({ error: 'Journal entry not found' }, 404);
+  }
+
+  if (method === 'PUT') {
+    const body = await request.json() as { content?: string; date?: string; tags?: string[] };
+    if (body.content !== undefined) {
+      const error = validateContent(body.content);
+      if (error) return jsonResponse({ error }, 400);
+    }
+    const entry = await updateJournalEntry(env, userId, id, body);
+    return entry ? jsonResponse(entry) : jsonResponse({ error: 'Journal entry not found' }, 404);
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deleteJournalEntry(env, userId, id);
+    return deleted ? jsonResponse({ success: true }) : jsonResponse({ error: 'Journal entry not found' }, 404);
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405);
+}
+
+function parseLimit(url: URL): number {
+  return Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || DEFAULT_LIMIT, 1), MAX_LIMIT);
+}
+
+function validateContent(content: unknown): string | null {
+  if (typeof content !== 'string' || !content.trim()) return 'content is required';
+  if (content.length > MAX_CONTENT_LENGTH) return `content must be at most ${MAX_CONTENT_LENGTH} characters`;
+  return null;
+}
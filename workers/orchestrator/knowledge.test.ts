@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { citedSources, DEFAULT_VECTOR_CONFIG, RetrievalOptions, searchKnowledge, stripCitations } from './knowledge';
+import { indexChunks } from './lexicon';
+import { createTestEnv } from './testEnv';
+
+const TEXTS: Record<string, string> = {
+  a: 'Breathing exercises calm the nervous system.',
+  b: 'Attachment theory describes early bonds.',
+  c: 'Attachment styles can change in adult relationships.',
+  d: 'Sleep hygiene basics.',
+};
+
+const OPTIONS: RetrievalOptions = { embeddingModel: DEFAULT_VECTOR_CONFIG.embeddingModel, topK: 10, similarityThreshold: 0.7, reranking: false, hybrid: true };
+
+// Vector matches are fixed; keyword matches come from a real index over TEXTS
+async function knowledgeEnv(vectorMatches: Array<{ id: string; score: number }>, rerank?: () => unknown) {
+  const env = createTestEnv({
+    AI: {
+      run: async (model: string, input: { text?: string[] }) => {
+        if (model === DEFAULT_VECTOR_CONFIG.embeddingModel) return { data: (input.text || []).map(() => [0.1, 0.2]) };
+        if (!rerank) throw new Error('No reranker');
+        return rerank();
+      },
+    } as unknown as Ai,
+    VECTORS: { query: async () => ({ matches: vectorMatches, count: vectorMatches.length }) } as unknown as Vectorize,
+  });
+  for (const [id, text] of Object.entries(TEXTS)) {
+    await env.AGENT_STORE.put(`knowledge:${id}`, text, { metadata: { docId: 'doc', title: 'Guide', chunk: 0 } });
+  }
+  await indexChunks(env, Object.entries(TEXTS).map(([id, text]) => ({ id, text })));
+  return env;
+}
+
+describe('searchKnowledge', () => {
+  it('fuses vector and keyword rankings, favouring chunks both retrievers found', async () => {
+    const env = await knowledgeEnv([{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }]);
+    const results = await searchKnowledge('attachment theory', env, OPTIONS);
+
+    expect(results.map(result => result.id)).toEqual(['b', 'a', 'c']);
+    expect(results[0]).toMatchObject({ vectorScore: 0.8, title: 'Guide', text: TEXTS.b });
+    expect(results[0].keywordScore).toBeGreaterThan(0);
+    expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(results[1].keywordScore).toBeUndefined();
+  });
+
+  it('drops vector matches below the similarity threshold', async () => {
+    const env = await knowledgeEnv([{ id: 'a', score: 0.9 }, { id: 'd', score: 0.5 }]);
+    const results = await searchKnowledge('breathing', env, OPTIONS);
+    expect(results.map(result => result.id)).toEqual(['a']);
+  });
+
+  it('uses only vector matches when hybrid search is off', async () => {
+    const env = await knowledgeEnv([{ id: 'a', score: 0.9 }]);
+    const results = await searchKnowledge('attachment theory', env, { ...OPTIONS, hybrid: false });
+    expect(results.map(result => result.id)).toEqual(['a']);
+  });
+
+  it('reorders by the reranker and cuts to topK', async () => {
+    const env = await knowledgeEnv([{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }], () => ({
+      response: [{ id: 0, score: 0.1 }, { id: 1, score: 0.3 }, { id: 2, score: 0.9 }],
+    }));
+    const results = await searchKnowledge('attachment theory', env, { ...OPTIONS, reranking: true, topK: 2 });
+    expect(results.map(result => [result.id, result.score])).toEqual([['c', 0.9], ['a', 0.3]]);
+  });
+
+  it('keeps the fused ranking when the reranker fails', async () => {
+    const env = await knowledgeEnv([{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }]);
+    const results = await searchKnowledge('attachment theory', env, { ...OPTIONS, reranking: true });
+    expect(results.map(result => result.id)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('citations', () => {
+  const results = Object.entries(TEXTS).map(([id, text]) => ({ id, text, score: 0.01234, title: 'Guide' }));
+
+  it('maps [n] markers to sources in first-cited order, ignoring unknown numbers', () => {
+    const sources = citedSources('Try breathing [3]. Bonds matter [1, 3] [9].', results);
+    expect(sources.map(source => source.citation)).toEqual([3, 1]);
+    expect(sources[0]).toMatchObject({ id: 'c', title: 'Guide', score: 0.012, snippet: TEXTS.c });
+  });
+
+  it('strips markers for speech', () => {
+    expect(stripCitations('Try breathing [3]. Bonds matter [1, 3].')).toBe('Try breathing. Bonds matter.');
+  });
+});
@@ -0,0 +1,630 @@
+/**
+ * Knowledge Base
+ *
+ * Ingests documents into Maxi's retrieval stores: text is split into
+ * overlapping chunks, embedded with Workers AI, and written to Vectorize
+ * (vectors) and KV (`knowledge:<chunkId>` texts). Each (re-)index writes a
+ * new generation of chunk ids next to the current one, flips the document
+ * record, then retires the old generation. While an ingest is in flight,
+ * searches can see chunks of both generations; if it fails, the chunks it
+ * wrote are deleted again.
+ *
+ * The keyword index lives in its own Durable Object (see lexicon.ts). A
+ * worker invocation gets about 1000 KV operations, and one ingest costs
+ * roughly two per chunk (the new generation's texts and the retired one's),
+ * so document size is capped and a full reindex runs one document per
+ * request.
+ */
+
+import { jsonResponse } from './http';
+import { indexChunks, removeFromIndex, searchIndex } from './lexicon';
+import { log } from './logger';
+import type { AgentConfig, ChatSource, Env, VectorConfig } from './types';
+
+export type KnowledgeFormat = 'markdown' | 'text' | 'pdf-text';
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  source?: string;
+  format: KnowledgeFormat;
+  tags: string[];
+  generation: number;
+  // Model the chunks were embedded with; a different model needs a reindex
+  embeddingModel?: string;
+  chunkIds: string[];
+  chunkCount: number;
+  charCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KnowledgeDocumentInput {
+  title: string;
+  content: string;
+  format?: KnowledgeFormat;
+  source?: string;
+  tags?: string[];
+}
+
+export interface KnowledgeChunk {
+  text: string;
+  section?: string;
+}
+
+// Stored with each chunk in KV and Vectorize
+export interface KnowledgeChunkMetadata {
+  docId: string;
+  title: string;
+  source?: string;
+  section?: string;
+  chunk: number;
+}
+
+interface KnowledgeDocumentKeyMetadata {
+  title: string;
+  chunkCount: number;
+  updatedAt: string;
+}
+
+export interface RetrievalOptions {
+  embeddingModel: string;
+  topK: number;
+  similarityThreshold: number;
+  reranking: boolean;
+  hybrid: boolean;
+}
+
+export interface KnowledgeResult {
+  id: string;
+  text: string;
+  // Reranker score when reranked, otherwise the fused rank score
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  docId?: string;
+  title?: string;
+  section?: string;
+  source?: string;
+}
+
+export const RERANK_MODEL = '@cf/baai/bge-reranker-base';
+
+// Mirrors knowledge.vectorConfig in configs/agent.json
+export const DEFAULT_VECTOR_CONFIG: Required<Pick<VectorConfig, keyof RetrievalOptions>> = {
+  embeddingModel: '@cf/baai/bge-base-en-v1.5',
+  topK: 10,
+  similarityThreshold: 0.7,
+  reranking: true,
+  hybrid: true,
+};
+export const KNOWLEDGE_FORMATS: KnowledgeFormat[] = ['markdown', 'text', 'pdf-text'];
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+// Keeps an ingest, its rollback and the retired generation inside the KV operation limit
+const MAX_DOCUMENT_CHARS = 200_000;
+const MAX_CHUNKS = 250;
+// Documents reindexed per POST /knowledge/reindex call
+const REINDEX_PAGE_SIZE = 1;
+// Workers AI embedding batch limit
+const EMBED_BATCH_SIZE = 100;
+const VECTOR_BATCH_SIZE = 500;
+// Candidates fetched from each retriever per result kept
+const CANDIDATE_MULTIPLIER = 3;
+// Reciprocal rank fusion constant
+const RRF_K = 60;
+const SNIPPET_CHARS = 240;
+
+function docKey(id: string): string {
+  return `knowledge-doc:${id}`;
+}
+
+function sourceKey(id: string): string {
+  return `knowledge-source:${id}`;
+}
+
+function chunkKey(chunkId: string): string {
+  return `knowledge:${chunkId}`;
+}
+
+// The embedding model is configurable, so it is not one of the typed model names
+type WorkersAIRunner = { run(model: string, inputs: Record<string, unknown>): Promise<unknown> };
+
+// Embed texts with the configured embedding model, batching to the API limit
+export async function embedTexts(env: Env, model: string, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+    const result = await (env.AI as unknown as WorkersAIRunner).run(model, { text: batch }) as { data: number[][] };
+    vectors.push(...result.data);
+  }
+  log('debug', 'Knowledge', 'Embedded texts', { model, count: texts.length });
+  return vectors;
+}
+
+// The index only takes vectors of the size it was created with
+async function checkDimensions(env: Env, model: string, vectors: number[][]): Promise<void> {
+  const { dimensions } = await env.VECTORS.describe();
+  if (vectors[0]?.length !== dimensions) {
+    throw new Error(`Embedding model ${model} returns ${vectors[0]?.length} dimensions, but the vector index has ${dimensions}`);
+  }
+}
+
+function normalizeContent(content: string, format: KnowledgeFormat): string {
+  let text = content.replace(/\r\n?/g, '\n');
+  if (format === 'pdf-text') {
+    // Re-join words hyphenated across lines and unwrap hard-wrapped lines
+    text = text
+      .replace(/-\n(?=[a-z])/g, '')
+      .replace(/([^\n])\n(?!\n)/g, '$1 ')
+      .replace(/[ \t]{2,}/g, ' ');
+  }
+  return text.trim();
+}
+
+// Split an oversized block at sentence boundaries, hard-wrapping runaway sentences
+function splitLongBlock(block: string, max: number): string[] {
+  if (block.length <= max) return [block];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of block.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length > max) {
+      if (current) parts.push(current);
+      current = '';
+      for (let i = 0; i < sentence.length; i += max) {
+        parts.push(sentence.slice(i, i + max));
+      }
+      continue;
+    }
+    if (current && current.length + 1 + sentence.length > max) {
+      parts.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// Last CHUNK_OVERLAP characters of a chunk, starting on a word boundary
+function overlapTail(text: string): string {
+  if (text.length <= CHUNK_OVERLAP) return text;
+  const tail = text.slice(-CHUNK_OVERLAP);
+  const space = tail.indexOf(' ');
+  return space === -1 ? tail : tail.slice(space + 1);
+}
+
+/**
+ * Split a document into overlapping chunks of roughly CHUNK_SIZE characters.
+ * Paragraphs are kept whole where possible; markdown headings set the
+ * section recorded with each chunk.
+ */
+export function chunkDocument(content: string, format: KnowledgeFormat): KnowledgeChunk[] {
+  const text = normalizeContent(content, format);
+  const pieces: KnowledgeChunk[] = [];
+  let section: string | undefined;
+
+  for (const block of text.split(/\n{2,}/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    if (format === 'markdown') {
+      const heading = trimmed.match(/^#{1,6}\s+(.+)$/m);
+      if (heading && trimmed.startsWith('#')) section = heading[1].trim();
+    }
+    for (const part of splitLongBlock(trimmed, CHUNK_SIZE - CHUNK_OVERLAP)) {
+      pieces.push({ text: part, section });
+    }
+  }
+
+  const chunks: KnowledgeChunk[] = [];
+  let current = '';
+  let currentSection: string | undefined;
+  let fresh = true;
+
+  for (const piece of pieces) {
+    if (!fresh && current.length + 2 + piece.text.length > CHUNK_SIZE) {
+      chunks.push({ text: current, section: currentSection });
+      current = overlapTail(current);
+      fresh = true;
+    }
+    if (fresh) {
+      currentSection = piece.section;
+      fresh = false;
+    }
+    current = current ? `${current}\n\n${piece.text}` : piece.text;
+  }
+  if (!fresh) {
+    chunks.push({ text: current, section: currentSection });
+  }
+
+  return chunks;
+}
+
+export async function getKnowledgeDocument(env: Env, id: string): Promise<KnowledgeDocument | null> {
+  return env.AGENT_STORE.get(docKey(id), 'json');
+}
+
+export async function listKnowledgeDocuments(env: Env): Promise<Array<{ id: string } & KnowledgeDocumentKeyMetadata>> {
+  const documents: Array<{ id: string } & KnowledgeDocumentKeyMetadata> = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.AGENT_STORE.list<KnowledgeDocumentKeyMetadata>({ prefix: 'knowledge-doc:', cursor });
+    for (const key of page.keys) {
+      if (key.metadata) {
+        documents.push({ id: key.name.slice('knowledge-doc:'.length), ...key.metadata });
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  log('info', 'Knowledge', 'Documents listed', { count: documents.length });
+  return documents;
+}
+
+async function removeChunks(env: Env, chunkIds: string[]): Promise<void> {
+  for (let i = 0; i < chunkIds.length; i += VECTOR_BATCH_SIZE) {
+    await env.VECTORS.deleteByIds(chunkIds.slice(i, i + VECTOR_BATCH_SIZE));
+  }
+  await removeFromIndex(env, chunkIds);
+  await Promise.all(chunkIds.map(id => env.AGENT_STORE.delete(chunkKey(id))));
+  log('debug', 'Knowledge', 'Chunks removed', { count: chunkIds.length });
+}
+
+export function validateDocumentInput(input: Partial<KnowledgeDocumentInput>): string | null {
+  if (typeof input.title !== 'string' || !input.title.trim()) return 'title is required';
+  if (typeof input.content !== 'string' || !input.content.trim()) return 'content is required';
+  if (input.content.length > MAX_DOCUMENT_CHARS) return `content must be at most ${MAX_DOCUMENT_CHARS} characters`;
+  if (input.format !== undefined && !KNOWLEDGE_FORMATS.includes(input.format)) {
+    return `format must be one of: ${KNOWLEDGE_FORMATS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Chunk, embed and upsert a document. Passing an existing id replaces that
+ * document's chunks with a new generation.
+ */
+export async function ingestDocument(
+  env: Env,
+  input: KnowledgeDocumentInput,
+  embeddingModel: string,
+  existingId?: string
+): Promise<KnowledgeDocument> {
+  const format = input.format || 'text';
+  const previous = existingId ? await getKnowledgeDocument(env, existingId) : null;
+  const id = previous?.id || crypto.randomUUID();
+  const generation = (previous?.generation || 0) + 1;
+
+  const chunks = chunkDocument(input.content, format);
+  if (chunks.length === 0) {
+    throw new Error('Document has no text content');
+  }
+  if (chunks.length > MAX_CHUNKS) {
+    throw new Error(`Document splits into ${chunks.length} chunks, more than the ${MAX_CHUNKS} allowed`);
+  }
+  log('info', 'Knowledge', 'Ingesting document', { id, title: input.title, format, generation, chunks: chunks.length });
+
+  const chunkIds = chunks.map((_, index) => `${id}:${generation}:${index}`);
+  const metadata = chunks.map((chunk, index): KnowledgeChunkMetadata => ({
+    docId: id,
+    title: input.title,
+    ...(input.source ? { source: input.source } : {}),
+    ...(chunk.section ? { section: chunk.section } : {}),
+    chunk: index,
+  }));
+
+  // Headings give the embedding useful context for short chunks
+  const embeddings = await embedTexts(env, embeddingModel, chunks.map(chunk => chunk.section ? `${chunk.section}\n\n${chunk.text}` : chunk.text));
+  await checkDimensions(env, embeddingModel, embeddings);
+
+  // 1. Chunk texts (invisible to search until their vectors exist)
+  await Promise.all(chunks.map((chunk, index) =>
+    env.AGENT_STORE.put(chunkKey(chunkIds[index]), chunk.text, { metadata: metadata[index] })));
+
+  const now = new Date().toISOString();
+  const document: KnowledgeDocument = {
+    id,
+    title: input.title.trim(),
+    source: input.source,
+    format,
+    tags: input.tags || previous?.tags || [],
+    generation,
+    embeddingModel,
+    chunkIds,
+    chunkCount: chunkIds.length,
+    charCount: input.content.length,
+    createdAt: previous?.createdAt || now,
+    updatedAt: now,
+  };
+
+  // 2-3. Vectors, keyword index and commit; on any failure, delete the new generation
+  try {
+    for (let i = 0; i < chunkIds.length; i += VECTOR_BATCH_SIZE) {
+      await env.VECTORS.upsert(chunkIds.slice(i, i + VECTOR_BATCH_SIZE).map((chunkId, offset) => ({
+        id: chunkId,
+        values: embeddings[i + offset],
+        metadata: { ...metadata[i + offset] },
+      })));
+    }
+    await indexChunks(env, chunks.map((chunk, index) => ({
+      id: chunkIds[index],
+      text: chunk.section ? `${chunk.section}\n\n${chunk.text}` : chunk.text,
+    })));
+
+    // Commit: source and document record point at the new generation
+    await env.AGENT_STORE.put(sourceKey(id), input.content);
+    await env.AGENT_STORE.put(docKey(id), JSON.stringify(document), {
+      metadata: { title: document.title, chunkCount: document.chunkCount, updatedAt: now } satisfies KnowledgeDocumentKeyMetadata,
+    });
+  } catch (error) {
+    log('error', 'Knowledge', 'Ingest failed, rolling back', { id, generation, error: error instanceof Error ? error.message : 'Unknown error' });
+    await removeChunks(env, chunkIds);
+    throw error;
+  }
+
+  // 4. Retire the previous generation
+  if (previous) {
+    await removeChunks(env, previous.chunkIds);
+  }
+
+  log('info', 'Knowledge', 'Document indexed', { id, generation, chunks: chunkIds.length });
+  return document;
+}
+
+export async function deleteKnowledgeDocument(env: Env, id: string): Promise<boolean> {
+  const document = await getKnowledgeDocument(env, id);
+  if (!document) return false;
+
+  await env.AGENT_STORE.delete(docKey(id));
+  await removeChunks(env, document.chunkIds);
+  await env.AGENT_STORE.delete(sourceKey(id));
+  log('info', 'Knowledge', 'Document deleted', { id, chunks: document.chunkIds.length });
+  return true;
+}
+
+// Rebuild a document's chunks and vectors from its stored source
+export async function reindexKnowledgeDocument(env: Env, id: string, embeddingModel: string): Promise<KnowledgeDocument | null> {
+  const document = await getKnowledgeDocument(env, id);
+  const content = await env.AGENT_STORE.get(sourceKey(id));
+  if (!document || content === null) {
+    log('warn', 'Knowledge', 'Cannot reindex, document or source missing', { id });
+    return null;
+  }
+  return ingestDocument(env, {
+    title: document.title,
+    content,
+    format: document.format,
+    source: document.source,
+    tags: document.tags,
+  }, embeddingModel, id);
+}
+
+// Retrieval settings from the stored config, with per-call overrides
+export function resolveRetrievalOptions(config: AgentConfig | null, overrides: Partial<RetrievalOptions> = {}): RetrievalOptions {
+  const vectorConfig = config?.knowledge?.vectorConfig || {};
+  return {
+    embeddingModel: overrides.embeddingModel ?? vectorConfig.embeddingModel ?? DEFAULT_VECTOR_CONFIG.embeddingModel,
+    topK: overrides.topK ?? vectorConfig.topK ?? DEFAULT_VECTOR_CONFIG.topK,
+    similarityThreshold: overrides.similarityThreshold ?? vectorConfig.similarityThreshold ?? DEFAULT_VECTOR_CONFIG.similarityThreshold,
+    reranking: overrides.reranking ?? vectorConfig.reranking ?? DEFAULT_VECTOR_CONFIG.reranking,
+    hybrid: overrides.hybrid ?? vectorConfig.hybrid ?? DEFAULT_VECTOR_CONFIG.hybrid,
+  };
+}
+
+async function rerank(env: Env, query: string, candidates: KnowledgeResult[]): Promise<KnowledgeResult[]> {
+  const result = await env.AI.run(RERANK_MODEL, {
+    query,
+    contexts: candidates.map(candidate => ({ text: candidate.text })),
+  }) as { response: Array<{ id: number; score: number }> };
+
+  return result.response
+    .map(({ id, score }) => ({ ...candidates[id], score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Knowledge search: vector matches above the similarity threshold, merged
+ * with BM25 keyword matches by reciprocal rank fusion, then optionally
+ * reranked with a cross-encoder and cut to topK.
+ */
+export async function searchKnowledge(query: string, env: Env, options: RetrievalOptions): Promise<KnowledgeResult[]> {
+  log('info', 'Knowledge', 'Searching', { query, ...options });
+  const candidateCount = options.topK * CANDIDATE_MULTIPLIER;
+
+  try {
+    // Generate embedding using CF AI
+    const [embedding] = await embedTexts(env, options.embeddingModel, [query]);
+
+    // Search vectorize and the keyword index
+    const [results, keywordMatches] = await Promise.all([
+      env.VECTORS.query(embedding, { topK: candidateCount }),
+      options.hybrid ? searchIndex(env, query, candidateCount) : Promise.resolve([]),
+    ]);
+    const vectorMatches = (results.matches || []).filter(match => match.score >= options.similarityThreshold);
+    log('info', 'Knowledge', 'Vectorize results', {
+      count: results.matches?.length || 0,
+      aboveThreshold: vectorMatches.length,
+      keyword: keywordMatches.length,
+    });
+
+    const fused = new Map<string, Omit<KnowledgeResult, 'text'>>();
+    vectorMatches.forEach((match, rank) => {
+      fused.set(match.id, { id: match.id, score: 1 / (RRF_K + rank + 1), vectorScore: match.score });
+    });
+    keywordMatches.forEach((match, rank) => {
+      const existing = fused.get(match.id) || { id: match.id, score: 0 };
+      fused.set(match.id, { ...existing, score: existing.score + 1 / (RRF_K + rank + 1), keywordScore: match.score });
+    });
+
+    const ranked = [...fused.values()].sort((a, b) => b.score - a.score).slice(0, candidateCount);
+
+    // Fetch full texts and document metadata from KV
+    const knowledge = (await Promise.all(
+      ranked.map(async (candidate): Promise<KnowledgeResult> => {
+        const { value, metadata } = await env.AGENT_STORE.getWithMetadata<KnowledgeChunkMetadata>(chunkKey(candidate.id));
+        return {
+          ...candidate,
+          text: value || '',
+          ...(metadata ? { docId: metadata.docId, title: metadata.title, section: metadata.section, source: metadata.source } : {}),
+        };
+      })
+    )).filter(k => k.text);
+
+    if (options.reranking && knowledge.length > 1) {
+      try {
+        return (await rerank(env, query, knowledge)).slice(0, options.topK);
+      } catch (error) {
+        log('warn', 'Knowledge', 'Rerank failed, using fused ranking', { error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return knowledge.slice(0, options.topK);
+  } catch (error) {
+    log('warn', 'Knowledge', 'Search failed, returning empty', { error });
+    return [];
+  }
+}
+
+// Citations
+
+/**
+ * Numbered knowledge block for the system prompt. The model cites entries
+ * as [n], which citedSources maps back to the chunks it drew on.
+ */
+export function formatKnowledgeContext(results: KnowledgeResult[]): string | null {
+  if (results.length === 0) return null;
+  const entries = results.map((result, index) => {
+    const heading = [result.title, result.section].filter(Boolean).join(' - ');
+    return `[${index + 1}]${heading ? ` ${heading}` : ''}\n${result.text}`;
+  });
+  return `Relevant knowledge (when you use an entry, cite it inline as [n]; never cite entries you did not use):\n\n${entries.join('\n\n')}`;
+}
+
+// Sources for the [n] markers in a reply, in first-cited order
+export function citedSources(text: string, results: KnowledgeResult[]): ChatSource[] {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of match[1].split(',')) {
+      const index = parseInt(n.trim()) - 1;
+      if (index >= 0 && index < results.length) cited.add(index);
+    }
+  }
+
+  return [...cited].map(index => {
+    const result = results[index];
+    return {
+      citation: index + 1,
+      id: result.id,
+      ...(result.docId ? { docId: result.docId } : {}),
+      title: result.title || 'Knowledge entry',
+      ...(result.section ? { section: result.section } : {}),
+      score: Math.round(result.score * 1000) / 1000,
+      snippet: result.text.length > SNIPPET_CHARS ? `${result.text.slice(0, SNIPPET_CHARS).trimEnd()}...` : result.text,
+    };
+  });
+}
+
+// Reply text without [n] markers, for speech
+export function stripCitations(text: string): string {
+  return text.replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '');
+}
+
+// Read an upload body: JSON, or raw markdown/plain text with ?title=
+async function readDocumentInput(request: Request, url: URL): Promise<Partial<KnowledgeDocumentInput>> {
+  const contentType = request.headers.get('Content-Type') || '';
+  if (contentType.includes('application/json')) {
+    return await request.json() as Partial<KnowledgeDocumentInput>;
+  }
+  return {
+    title: url.searchParams.get('title') || undefined,
+    source: url.searchParams.get('source') || undefined,
+    format: (url.searchParams.get('format') as KnowledgeFormat | null)
+      || (contentType.includes('markdown') ? 'markdown' : 'text'),
+    content: await request.text(),
+  };
+}
+
+// REST routes under /knowledge
+export async function handleKnowledgeRequest(request: Request, url: URL, env: Env, config: AgentConfig): Promise<Response> {
+  const method = request.method;
+  const { embeddingModel } = resolveRetrievalOptions(config);
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  // Paged: repeat with the returned cursor until none is returned
+  if (segments[1] === 'reindex' && segments.length === 2 && method === 'POST') {
+    const page = await env.AGENT_STORE.list({
+      prefix: 'knowledge-doc:',
+      cursor: url.searchParams.get('cursor') || undefined,
+      limit: REINDEX_PAGE_SIZE,
+    });
+    const results: Array<{ id: string; chunkCount?: number; error?: string }> = [];
+    for (const key of page.keys) {
+      const id = key.name.slice('knowledge-doc:'.length);
+      try {
+        const document = await reindexKnowledgeDocument(env, id, embeddingModel);
+        results.push(document ? { id, chunkCount: document.chunkCount } : { id, error: 'Source missing' });
+      } catch (error) {
+        results.push({ id, error: error instanceof Error ? error.message : 'Reindex failed' });
+      }
+    }
+    return jsonResponse({
+      reindexed: results.filter(r => !r.error).length,
+      results,
+      ...(page.list_complete ? {} : { cursor: page.cursor }),
+    });
+  }
+
+  if (segments[1] !== 'documents') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const id = segments[2];
+
+  if (!id) {
+    if (method === 'GET') {
+      return jsonResponse({ documents: await listKnowledgeDocuments(env) });
+    }
+    if (method === 'POST') {
+      const input = await readDocumentInput(request, url);
+      const error = validateDocumentInput(input);
+      if (error) return jsonResponse({ error }, 400);
+      return jsonResponse(await ingestDocument(env, input as KnowledgeDocumentInput, embeddingModel), 201);
+    }
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  if (segments[3] === 'reindex' && segments.length === 4 && method === 'POST') {
+    const document = await reindexKnowledgeDocument(env, id, embeddingModel);
+    return document ? jsonResponse(document) : jsonResponse({ error: 'Document not found' }, 404);
+  }
+
+  if (segments.length !== 3) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  if (method === 'GET') {
+    const document = await getKnowledgeDocument(env, id);
+    return document ? jsonResponse(document) : jsonResponse({ error: 'Document not found' }, 404);
+  }
+
+  if (method === 'PUT') {
+    if (!await getKnowledgeDocument(env, id)) {
+      return jsonResponse({ error: 'Document not found' }, 404);
+    }
+    const input = await readDocumentInput(request, url);
+    const error = validateDocumentInput(input);
+    if (error) return jsonResponse({ error }, 400);
+    return jsonResponse(await ingestDocument(env, input as KnowledgeDocumentInput, embeddingModel, id));
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deleteKnowledgeDocument(env, id);
+    return deleted ? jsonResponse({ success: true }) : jsonResponse({ error: 'Document not found' }, 404);
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { indexChunks, removeFromIndex, searchIndex, tokenize } from './lexicon';
+import { createTestEnv } from './testEnv';
+
+describe('tokenize', () => {
+  it('lower-cases words, drops stopwords and single letters, and adds word pairs', () => {
+    expect(tokenize('What is Attachment Theory?')).toEqual(['attachment', 'theory', 'attachment theory']);
+  });
+
+  it('keeps apostrophes inside words and non-Latin letters', () => {
+    expect(tokenize("Don't panic, Zoë")).toEqual(["don't", 'panic', 'zoë', "don't panic", 'panic zoë']);
+  });
+});
+
+describe('BM25 index', () => {
+  const chunks = [
+    { id: 'attachment', text: 'Attachment theory explains how early bonds shape adult relationships.' },
+    { id: 'sleep', text: 'Good sleep hygiene means a regular bedtime and a dark, quiet room.' },
+    { id: 'anxiety', text: 'Anxious attachment often shows up as fear of abandonment in relationships.' },
+    { id: 'long', text: `Relationships ${'and many other words about something else entirely '.repeat(10)}` },
+  ];
+
+  async function indexedEnv() {
+    const env = createTestEnv();
+    await indexChunks(env, chunks);
+    return env;
+  }
+
+  it('returns nothing for an empty index or a query of stopwords', async () => {
+    expect(await searchIndex(createTestEnv(), 'attachment', 5)).toEqual([]);
+    expect(await searchIndex(await indexedEnv(), 'what is the', 5)).toEqual([]);
+  });
+
+  it('ranks chunks matching the phrase above ones matching single words', async () => {
+    const matches = await searchIndex(await indexedEnv(), 'attachment theory', 5);
+    expect(matches.map(match => match.id)).toEqual(['attachment', 'anxiety']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('scores rarer terms higher', async () => {
+    const matches = await searchIndex(await indexedEnv(), 'bedtime relationships', 5);
+    expect(matches[0].id).toBe('sleep');
+  });
+
+  it('favours shorter chunks for the same term frequency', async () => {
+    const matches = await searchIndex(await indexedEnv(), 'relationships', 5);
+    expect(matches.map(match => match.id)).toEqual(['anxiety', 'attachment', 'long']);
+    expect(matches[1].score).toBeGreaterThan(matches[2].score);
+  });
+
+  it('cuts results to the limit', async () => {
+    expect(await searchIndex(await indexedEnv(), 'relationships', 2)).toHaveLength(2);
+  });
+
+  it('forgets removed chunks', async () => {
+    const env = await indexedEnv();
+    await removeFromIndex(env, ['attachment']);
+    expect((await searchIndex(env, 'attachment theory', 5)).map(match => match.id)).toEqual(['anxiety']);
+    expect((await searchIndex(env, 'relationships', 5)).map(match => match.id)).toEqual(['anxiety', 'long']);
+  });
+
+  it('replaces the postings of a chunk indexed again', async () => {
+    const env = await indexedEnv();
+    await indexChunks(env, [{ id: 'sleep', text: 'Evening routines and winding down.' }]);
+    expect(await searchIndex(env, 'bedtime', 5)).toEqual([]);
+    expect((await searchIndex(env, 'evening routines', 5)).map(match => match.id)).toEqual(['sleep']);
+  });
+
+  it('keeps the postings of concurrent updates', async () => {
+    const env = createTestEnv();
+    await Promise.all([
+      indexChunks(env, chunks.slice(0, 2)),
+      indexChunks(env, chunks.slice(2)),
+      removeFromIndex(env, ['unknown']),
+    ]);
+    expect((await searchIndex(env, 'relationships', 5)).map(match => match.id)).toEqual(['anxiety', 'attachment', 'long']);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Keyword Index
+ *
+ * BM25 index over knowledge chunks, so exact terms ("attachment theory")
+ * are found even when the embedding ranks them low. Adjacent word pairs are
+ * indexed too, which rewards phrases. The index lives in one Durable Object
+ * (KnowledgeIndex) that applies each update in a single step, so
+ * concurrent ingests cannot lose each other's postings and a replace does
+ * not run into KV's one-write-per-second limit per key. Its storage holds
+ * one entry per (term, chunk) posting, listed by term at query time, and
+ * each chunk's terms, so removal deletes its postings without reading them.
+ */
+
+import { log } from './logger';
+import type { Env } from './types';
+
+// [term frequency, chunk length in terms]
+type Posting = [number, number];
+
+interface IndexedChunk {
+  length: number;
+  terms: string[];
+}
+
+interface LexiconStats {
+  chunkCount: number;
+  totalLength: number;
+}
+
+export interface LexiconMatch {
+  id: string;
+  score: number;
+}
+
+interface IndexUpdate {
+  add: Array<{ id: string; text: string }>;
+  remove: string[];
+}
+
+interface IndexQuery {
+  query: string;
+  limit: number;
+}
+
+const STATS_KEY = 'stats';
+// Storage reads, writes and deletes take at most 128 keys
+const STORAGE_BATCH = 128;
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have', 'how', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'them',
+  'there', 'they', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// Terms hold no colons, so `term:<term>:` lists exactly that term's postings
+function postingKey(term: string, chunkId: string): string {
+  return `term:${term}:${chunkId}`;
+}
+
+const CHUNK_PREFIX = 'chunk:';
+
+function chunkKey(id: string): string {
+  return `${CHUNK_PREFIX}${id}`;
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += STORAGE_BATCH) {
+    result.push(items.slice(i, i + STORAGE_BATCH));
+  }
+  return result;
+}
+
+// Lower-cased words without stopwords, plus adjacent word pairs
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) || [];
+  const terms = words.filter(word => word.length > 1 && !STOPWORDS.has(word));
+  const pairs = terms.slice(1).map((term, index) => `${terms[index]} ${term}`);
+  return [...terms, ...pairs];
+}
+
+/**
+ * The Durable Object holding the keyword index. Updates run inside
+ * blockConcurrencyWhile, so each one sees the result of the last.
+ */
+export class KnowledgeIndex implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    if (url.pathname === '/update') {
+      const body = await request.json() as IndexUpdate;
+      await this.state.blockConcurrencyWhile(() => this.update(body));
+      return new Response(null, { status: 204 });
+    }
+
+    if (url.pathname === '/search') {
+      const body = await request.json() as IndexQuery;
+      return Response.json(await this.search(body));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    for (const batch of batches(keys)) {
+      for (const [key, value] of await this.state.storage.get<T>(batch)) {
+        found.set(key, value);
+      }
+    }
+    return found;
+  }
+
+  private async loadStats(): Promise<LexiconStats> {
+    return await this.state.storage.get<LexiconStats>(STATS_KEY) || { chunkCount: 0, totalLength: 0 };
+  }
+
+  /**
+   * Remove, then add, in one step. Removal deletes the postings listed in
+   * each chunk's record, so nothing is read back. Re-adding an indexed
+   * chunk id replaces its postings.
+   */
+  private async update({ add, remove }: IndexUpdate): Promise<void> {
+    const replaced = [...new Set([...remove, ...add.map(chunk => chunk.id)])];
+    const previous = new Map([...await this.getMany<IndexedChunk>(replaced.map(chunkKey))]
+      .map(([key, chunk]) => [key.slice(CHUNK_PREFIX.length), chunk]));
+
+    const deletes = [...previous].flatMap(([id, chunk]) => [chunkKey(id), ...chunk.terms.map(term => postingKey(term, id))]);
+    const writes: Array<[string, unknown]> = [];
+    let addedLength = 0;
+    for (const chunk of add) {
+      const terms = tokenize(chunk.text);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      for (const [term, frequency] of frequencies) {
+        writes.push([postingKey(term, chunk.id), [frequency, terms.length] satisfies Posting]);
+      }
+      writes.push([chunkKey(chunk.id), { length: terms.length, terms: [...frequencies.keys()] } satisfies IndexedChunk]);
+      addedLength += terms.length;
+    }
+
+    const stats = await this.loadStats();
+    const removedLength = [...previous.values()].reduce((total, chunk) => total + chunk.length, 0);
+    writes.push([STATS_KEY, {
+      chunkCount: Math.max(0, stats.chunkCount - previous.size + add.length),
+      totalLength: Math.max(0, stats.totalLength - removedLength + addedLength),
+    } satisfies LexiconStats]);
+
+    // Deletes go first, so a re-added chunk keeps its new postings
+    for (const batch of batches(deletes)) {
+      await this.state.storage.delete(batch);
+    }
+    for (const batch of batches(writes)) {
+      await this.state.storage.put(Object.fromEntries(batch));
+    }
+    log('debug', 'Lexicon', 'Index updated', { added: add.length, removed: previous.size, postings: writes.length - add.length - 1 });
+  }
+
+  // Top chunks by BM25 score for the query terms; ties go by chunk id
+  private async search({ query, limit }: IndexQuery): Promise<LexiconMatch[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const stats = await this.loadStats();
+    if (stats.chunkCount === 0) return [];
+    const averageLength = stats.totalLength / stats.chunkCount || 1;
+
+    const scores = new Map<string, number>();
+    await Promise.all(terms.map(async term => {
+      const prefix = postingKey(term, '');
+      const postings = await this.state.storage.list<Posting>({ prefix });
+      if (!postings.size) return;
+      const idf = Math.log(1 + (stats.chunkCount - postings.size + 0.5) / (postings.size + 0.5));
+      for (const [key, [frequency, length]] of postings) {
+        const id = key.slice(prefix.length);
+        const weight = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / averageLength)));
+        scores.set(id, (scores.get(id) || 0) + idf * weight);
+      }
+    }));
+
+    return [...scores]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+}
+
+async function callIndex(env: Env, path: '/update' | '/search', body: IndexUpdate | IndexQuery): Promise<Response> {
+  const response = await env.KNOWLEDGE_INDEX.get(env.KNOWLEDGE_INDEX.idFromName('global')).fetch(`https://knowledge-index${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Keyword index ${path} failed with status ${response.status}`);
+  }
+  return response;
+}
+
+export async function indexChunks(env: Env, chunks: Array<{ id: string; text: string }>): Promise<void> {
+  await callIndex(env, '/update', { add: chunks, remove: [] });
+  log('debug', 'Lexicon', 'Chunks indexed', { count: chunks.length });
+}
+
+export async function removeFromIndex(env: Env, chunkIds: string[]): Promise<void> {
+  await callIndex(env, '/update', { add: [], remove: chunkIds });
+  log('debug', 'Lexicon', 'Chunks removed', { count: chunkIds.length });
+}
+
+// Top chunks by BM25 score; empty when the index is unavailable, so search falls back to vectors
+export async function searchIndex(env: Env, query: string, limit: number): Promise<LexiconMatch[]> {
+  if (tokenize(query).length === 0) return [];
+  try {
+    const matches = await (await callIndex(env, '/search', { query, limit })).json() as LexiconMatch[];
+    log('info', 'Lexicon', 'Keyword matches', { count: matches.length });
+    return matches;
+  } catch (error) {
+    log('warn', 'Lexicon', 'Keyword search failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    return [];
+  }
+}
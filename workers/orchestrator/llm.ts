@@ -0,0 +1,389 @@
+/**
+ * LLM Provider Registry
+ *
+ * Each provider adapts the shared chat request to its own API and back.
+ * Calls run down an ordered chain of targets: a 5xx, a timeout or a missing
+ * credential moves on to the next target, any other error is final.
+ */
+
+import { log } from './logger';
+import { fetchPow3rPassCredential } from './pow3rPass';
+import { readSSEData } from './sse';
+import type { AgentConfig, Env, LLMMessage, LLMTarget } from './types';
+
+export interface LLMParams {
+  temperature: number;
+  topP: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LLMDelta {
+  delta?: string;
+  tokensUsed?: number;
+}
+
+export interface LLMResult {
+  text: string;
+  tokensUsed?: number;
+  provider: string;
+  model: string;
+}
+
+export interface LLMStream {
+  provider: string;
+  model: string;
+  deltas: AsyncGenerator<LLMDelta>;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(
+    target: LLMTarget,
+    messages: LLMMessage[],
+    params: LLMParams,
+    env: Env,
+    signal: AbortSignal
+  ): Promise<{ text: string; tokensUsed?: number }>;
+  stream(
+    target: LLMTarget,
+    messages: LLMMessage[],
+    params: LLMParams,
+    env: Env,
+    signal: AbortSignal
+  ): Promise<AsyncGenerator<LLMDelta>>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// Defaults mirror capabilities.llm in configs/agent.json
+export const DEFAULT_LLM_PARAMS: LLMParams = {
+  temperature: 0.7,
+  topP: 0.9,
+  maxTokens: 4096,
+  timeoutMs: 30000,
+};
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+  log('debug', 'LLM', 'Provider registered', { provider: provider.name });
+}
+
+// Primary target from config (env as fallback), followed by the configured fallback chain
+export function resolveLLMTargets(config: AgentConfig, env: Env): LLMTarget[] {
+  const llm = config.capabilities?.llm;
+  const primary: LLMTarget = {
+    provider: llm?.provider || env.LLM_PROVIDER || 'xai',
+    model: llm?.model || env.LLM_MODEL || 'grok-2',
+    baseUrl: llm?.baseUrl || env.LLM_BASE_URL,
+  };
+  return [primary, ...(llm?.fallback || [])];
+}
+
+export function resolveLLMParams(config: AgentConfig): LLMParams {
+  const llm = config.capabilities?.llm;
+  return {
+    temperature: llm?.temperature ?? DEFAULT_LLM_PARAMS.temperature,
+    topP: llm?.topP ?? DEFAULT_LLM_PARAMS.topP,
+    maxTokens: config.capabilities?.chat?.maxTokens ?? DEFAULT_LLM_PARAMS.maxTokens,
+    timeoutMs: llm?.timeoutMs ?? DEFAULT_LLM_PARAMS.timeoutMs,
+  };
+}
+
+// Full completion, failing over along the configured chain
+export async function completeChat(config: AgentConfig, env: Env, messages: LLMMessage[]): Promise<LLMResult> {
+  const params = resolveLLMParams(config);
+  const { target, value } = await runWithFallback(resolveLLMTargets(config, env), params.timeoutMs, 'complete',
+    (provider, target, signal) => provider.complete(target, messages, params, env, signal));
+
+  log('info', 'LLM', 'Response received', { provider: target.provider, model: target.model, tokensUsed: value.tokensUsed });
+  return { ...value, provider: target.provider, model: target.model };
+}
+
+// Streaming completion; failover only applies until the stream has opened
+export async function streamChat(config: AgentConfig, env: Env, messages: LLMMessage[]): Promise<LLMStream> {
+  const params = resolveLLMParams(config);
+  const { target, value } = await runWithFallback(resolveLLMTargets(config, env), params.timeoutMs, 'stream',
+    (provider, target, signal) => provider.stream(target, messages, params, env, signal));
+
+  log('info', 'LLM', 'Stream opened', { provider: target.provider, model: target.model });
+  return { provider: target.provider, model: target.model, deltas: value };
+}
+
+async function runWithFallback<T>(
+  targets: LLMTarget[],
+  timeoutMs: number,
+  action: string,
+  attempt: (provider: LLMProvider, target: LLMTarget, signal: AbortSignal) => Promise<T>
+): Promise<{ target: LLMTarget; value: T }> {
+  let lastError: unknown = new Error('No LLM providers configured');
+
+  for (const [index, target] of targets.entries()) {
+    const provider = providers.get(target.provider);
+    if (!provider) {
+      log('warn', 'LLM', 'Unknown provider, skipping', { provider: target.provider });
+      lastError = new LLMProviderError(`Unknown LLM provider: ${target.provider}`, true);
+      continue;
+    }
+
+    log('info', 'LLM', 'Calling provider', { action, provider: target.provider, model: target.model, attempt: index + 1 });
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMProviderError(`${target.provider} timed out after ${timeoutMs}ms`, true));
+      }, timeoutMs);
+    });
+
+    try {
+      const value = await Promise.race([attempt(provider, target, controller.signal), timeout]);
+      return { target, value };
+    } catch (error) {
+      // Network failures surface as plain errors and are worth retrying elsewhere
+      const retryable = !(error instanceof LLMProviderError) || error.retryable;
+      log(retryable ? 'warn' : 'error', 'LLM', 'Provider failed', {
+        provider: target.provider,
+        model: target.model,
+        retryable,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      if (!retryable) throw error;
+      lastError = error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+async function resolveApiKey(envKey: string | undefined, credential: string, env: Env): Promise<string | null> {
+  return envKey || await fetchPow3rPassCredential(credential, env);
+}
+
+async function httpError(provider: string, response: Response): Promise<LLMProviderError> {
+  const errorText = await response.text();
+  log('error', 'LLM', 'API error', { provider, status: response.status, error: errorText });
+  return new LLMProviderError(`LLM API error (${provider}): ${response.status}`, response.status >= 500, response.status);
+}
+
+async function* mapSSE(body: ReadableStream<Uint8Array>, parse: (data: string) => LLMDelta): AsyncGenerator<LLMDelta> {
+  for await (const data of readSSEData(body)) {
+    if (data === '[DONE]') return;
+    yield parse(data);
+  }
+}
+
+// OpenAI chat completions wire format (xAI, OpenAI and compatible gateways)
+function openAICompatibleProvider(name: string, options: {
+  baseUrl?: string;
+  apiKey: (env: Env) => string | undefined;
+  requireKey: boolean;
+}): LLMProvider {
+  async function post(
+    target: LLMTarget,
+    messages: LLMMessage[],
+    params: LLMParams,
+    env: Env,
+    signal: AbortSignal,
+    stream: boolean
+  ): Promise<Response> {
+    const baseUrl = target.baseUrl || options.baseUrl;
+    if (!baseUrl) {
+      throw new LLMProviderError(`No base URL configured for ${name}`, false);
+    }
+
+    const apiKey = await resolveApiKey(options.apiKey(env), target.credential || name, env);
+    if (!apiKey && options.requireKey) {
+      throw new LLMProviderError(`No API key configured for ${name}. Please add it via Pow3r Pass.`, true);
+    }
+
+    const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+    log('info', 'LLM', 'Calling API', { endpoint, model: target.model, stream });
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: target.model,
+        messages,
+        temperature: params.temperature,
+        top_p: params.topP,
+        max_tokens: params.maxTokens,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok || (stream && !response.body)) {
+      throw await httpError(name, response);
+    }
+    return response;
+  }
+
+  return {
+    name,
+    async complete(target, messages, params, env, signal) {
+      const response = await post(target, messages, params, env, signal, false);
+      const data = await response.json() as any;
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        tokensUsed: data.usage?.total_tokens,
+      };
+    },
+    async stream(target, messages, params, env, signal) {
+      const response = await post(target, messages, params, env, signal, true);
+      return mapSSE(response.body!, data => {
+        const chunk = JSON.parse(data) as any;
+        return {
+          delta: chunk.choices?.[0]?.delta?.content || undefined,
+          tokensUsed: chunk.usage?.total_tokens,
+        };
+      });
+    },
+  };
+}
+
+// Google Gemini generateContent API
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+function toGeminiBody(messages: LLMMessage[], params: LLMParams): unknown {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const contents = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    generationConfig: {
+      temperature: params.temperature,
+      topP: params.topP,
+      maxOutputTokens: params.maxTokens,
+    },
+  };
+}
+
+function fromGeminiResponse(data: any): LLMDelta {
+  const parts: Array<{ text?: string }> = data.candidates?.[0]?.content?.parts || [];
+  return {
+    delta: parts.map(part => part.text || '').join('') || undefined,
+    tokensUsed: data.usageMetadata?.totalTokenCount,
+  };
+}
+
+const geminiProvider: LLMProvider = (() => {
+  async function post(
+    target: LLMTarget,
+    messages: LLMMessage[],
+    params: LLMParams,
+    env: Env,
+    signal: AbortSignal,
+    method: string
+  ): Promise<Response> {
+    const apiKey = await resolveApiKey(env.GEMINI_API_KEY, target.credential || 'gemini', env);
+    if (!apiKey) {
+      throw new LLMProviderError('No API key configured for gemini. Please add GEMINI_API_KEY via Pow3r Pass.', true);
+    }
+
+    const endpoint = `${target.baseUrl || GEMINI_BASE_URL}/models/${target.model}:${method}`;
+    log('info', 'LLM', 'Calling API', { endpoint, model: target.model });
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify(toGeminiBody(messages, params)),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await httpError('gemini', response);
+    }
+    return response;
+  }
+
+  return {
+    name: 'gemini',
+    async complete(target, messages, params, env, signal) {
+      const response = await post(target, messages, params, env, signal, 'generateContent');
+      const { delta, tokensUsed } = fromGeminiResponse(await response.json());
+      return { text: delta || '', tokensUsed };
+    },
+    async stream(target, messages, params, env, signal) {
+      const response = await post(target, messages, params, env, signal, 'streamGenerateContent?alt=sse');
+      return mapSSE(response.body!, data => fromGeminiResponse(JSON.parse(data)));
+    },
+  };
+})();
+
+// Cloudflare Workers AI through the AI binding (no API key required)
+type WorkersAIRunner = { run(model: string, inputs: Record<string, unknown>): Promise<unknown> };
+
+async function runWorkersAI(env: Env, model: string, inputs: Record<string, unknown>): Promise<unknown> {
+  try {
+    return await (env.AI as unknown as WorkersAIRunner).run(model, inputs);
+  } catch (error) {
+    // The binding does not expose status codes; treat failures as upstream errors
+    throw new LLMProviderError(`Workers AI error: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+  }
+}
+
+const workersAIProvider: LLMProvider = {
+  name: 'workers-ai',
+  async complete(target, messages, params, env) {
+    log('info', 'LLM', 'Calling Workers AI', { model: target.model });
+    const result = await runWorkersAI(env, target.model, {
+      messages,
+      temperature: params.temperature,
+      top_p: params.topP,
+      max_tokens: params.maxTokens,
+    }) as { response?: string; usage?: { total_tokens?: number } };
+    return { text: result.response || '', tokensUsed: result.usage?.total_tokens };
+  },
+  async stream(target, messages, params, env) {
+    log('info', 'LLM', 'Calling Workers AI', { model: target.model, stream: true });
+    const body = await runWorkersAI(env, target.model, {
+      messages,
+      temperature: params.temperature,
+      top_p: params.topP,
+      max_tokens: params.maxTokens,
+      stream: true,
+    }) as ReadableStream<Uint8Array>;
+    return mapSSE(body, data => {
+      const chunk = JSON.parse(data) as { response?: string; usage?: { total_tokens?: number } };
+      return { delta: chunk.response || undefined, tokensUsed: chunk.usage?.total_tokens };
+    });
+  },
+};
+
+registerLLMProvider(openAICompatibleProvider('xai', {
+  baseUrl: 'https://api.x.ai/v1',
+  apiKey: env => env.XAI_API_KEY,
+  requireKey: true,
+}));
+registerLLMProvider(openAICompatibleProvider('openai', {
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: env => env.OPENAI_API_KEY,
+  requireKey: true,
+}));
+registerLLMProvider(openAICompatibleProvider('openai-compatible', {
+  apiKey: env => env.LLM_API_KEY,
+  requireKey: false,
+}));
+registerLLMProvider(geminiProvider);
+registerLLMProvider(workersAIProvider);
@@ -0,0 +1,12 @@
+/**
+ * Worker Logger
+ * All functions log per Guardian rules
+ */
+
+export type LogLevel = 'info' | 'warn' | 'error' | 'debug';
+
+export function log(level: LogLevel, component: string, message: string, data?: unknown): void {
+  const timestamp = new Date().toISOString();
+  const logData = data ? JSON.stringify(data) : '';
+  console.log(`[${timestamp}] [${level.toUpperCase()}] [${component}] ${message} ${logData}`);
+}
@@ -0,0 +1,312 @@
+/**
+ * MCP Server (Streamable HTTP transport)
+ *
+ * JSON-RPC 2.0 over `POST /mcp` with the initialize handshake, capability
+ * negotiation, schema-validated tool calls and read-only resources.
+ * Sessions are issued on initialize via the `Mcp-Session-Id` header.
+ */
+
+import { corsHeaders, jsonResponse } from './http';
+import { log } from './logger';
+import { JsonSchema, validateSchema } from './schema';
+import type { Env } from './types';
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'maxi-agent', version: '1.0.0' };
+const SESSION_TTL_SECONDS = 60 * 60 * 24;
+
+// JSON-RPC error codes
+export const JSONRPC_PARSE_ERROR = -32700;
+export const JSONRPC_INVALID_REQUEST = -32600;
+export const JSONRPC_METHOD_NOT_FOUND = -32601;
+export const JSONRPC_INVALID_PARAMS = -32602;
+export const JSONRPC_INTERNAL_ERROR = -32603;
+export const MCP_RESOURCE_NOT_FOUND = -32002;
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  // `request` is the HTTP request carrying the call
+  handler: (args: Record<string, any>, env: Env, ctx: ExecutionContext, request: Request) => Promise<unknown>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface McpResourceSource {
+  templates: McpResourceTemplate[];
+  list(env: Env, cursor?: string): Promise<{ resources: McpResource[]; nextCursor?: string }>;
+  read(uri: string, env: Env): Promise<{ mimeType: string; text: string } | null>;
+}
+
+export interface McpServer {
+  instructions: string;
+  tools: McpTool[];
+  resources: McpResourceSource;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface McpSession {
+  protocolVersion: string;
+  clientInfo?: { name: string; version?: string };
+  initialized: boolean;
+  createdAt: string;
+}
+
+export class McpError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+// Route an HTTP request on /mcp
+export async function handleMcpHttp(request: Request, env: Env, ctx: ExecutionContext, server: McpServer): Promise<Response> {
+  const sessionId = request.headers.get('Mcp-Session-Id');
+
+  if (request.method === 'DELETE') {
+    if (!sessionId) {
+      return jsonResponse({ error: 'Missing Mcp-Session-Id' }, 400);
+    }
+    await env.AGENT_STORE.delete(`mcp-session:${sessionId}`);
+    log('info', 'MCP', 'Session terminated', { sessionId });
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (request.method !== 'POST') {
+    // No server-initiated stream is offered
+    return new Response(null, { status: 405, headers: { ...corsHeaders, 'Allow': 'POST, DELETE' } });
+  }
+
+  if (sessionId && !await loadSession(env, sessionId)) {
+    log('warn', 'MCP', 'Unknown session', { sessionId });
+    return jsonResponse(errorResponse(null, JSONRPC_INVALID_REQUEST, 'Session not found'), 404);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse(errorResponse(null, JSONRPC_PARSE_ERROR, 'Parse error'), 400);
+  }
+
+  const batch = Array.isArray(payload);
+  const messages = batch ? payload as unknown[] : [payload];
+  if (messages.length === 0) {
+    return jsonResponse(errorResponse(null, JSONRPC_INVALID_REQUEST, 'Empty batch'), 400);
+  }
+
+  const responseHeaders: Record<string, string> = {};
+  const responses: JsonRpcResponse[] = [];
+
+  for (const message of messages) {
+    const response = await dispatch(message, sessionId, request, env, ctx, server, responseHeaders);
+    if (response) responses.push(response);
+  }
+
+  // Notifications and client responses only
+  if (responses.length === 0) {
+    return new Response(null, { status: 202, headers: corsHeaders });
+  }
+
+  return jsonResponse(batch ? responses : responses[0], 200, responseHeaders);
+}
+
+async function dispatch(
+  message: unknown,
+  sessionId: string | null,
+  httpRequest: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  server: McpServer,
+  responseHeaders: Record<string, string>
+): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcMessage(message)) {
+    return errorResponse(null, JSONRPC_INVALID_REQUEST, 'Invalid JSON-RPC message');
+  }
+
+  // Responses to server requests carry no method; nothing is awaiting them
+  if (!('method' in message)) {
+    return null;
+  }
+
+  const request = message as JsonRpcRequest;
+  const isNotification = request.id === undefined;
+  log('info', 'MCP', 'Handling request', { method: request.method, id: request.id, sessionId });
+
+  try {
+    const result = await handleMethod(request, sessionId, httpRequest, env, ctx, server, responseHeaders);
+    return isNotification ? null : { jsonrpc: '2.0', id: request.id ?? null, result };
+  } catch (error) {
+    if (isNotification) {
+      log('warn', 'MCP', 'Notification failed', { method: request.method, error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    }
+    if (error instanceof McpError) {
+      log('warn', 'MCP', 'Request rejected', { method: request.method, code: error.code, message: error.message });
+      return errorResponse(request.id ?? null, error.code, error.message, error.data);
+    }
+    log('error', 'MCP', 'Request failed', { method: request.method, error: error instanceof Error ? error.message : 'Unknown error' });
+    return errorResponse(request.id ?? null, JSONRPC_INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error');
+  }
+}
+
+async function handleMethod(
+  request: JsonRpcRequest,
+  sessionId: string | null,
+  httpRequest: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  server: McpServer,
+  responseHeaders: Record<string, string>
+): Promise<unknown> {
+  const params = request.params || {};
+
+  switch (request.method) {
+    case 'initialize': {
+      const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+      const protocolVersion = MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0];
+      const newSessionId = crypto.randomUUID();
+      const session: McpSession = {
+        protocolVersion,
+        clientInfo: params.clientInfo,
+        initialized: false,
+        createdAt: new Date().toISOString(),
+      };
+      await saveSession(env, newSessionId, session);
+      responseHeaders['Mcp-Session-Id'] = newSessionId;
+      log('info', 'MCP', 'Session initialized', { sessionId: newSessionId, protocolVersion, client: params.clientInfo?.name });
+
+      return {
+        protocolVersion,
+        capabilities: {
+          tools: { listChanged: false },
+          resources: { subscribe: false, listChanged: false },
+        },
+        serverInfo: SERVER_INFO,
+        instructions: server.instructions,
+      };
+    }
+
+    case 'notifications/initialized': {
+      if (sessionId) {
+        const session = await loadSession(env, sessionId);
+        if (session) {
+          session.initialized = true;
+          await saveSession(env, sessionId, session);
+        }
+      }
+      return {};
+    }
+
+    case 'notifications/cancelled':
+      return {};
+
+    case 'ping':
+      return {};
+
+    case 'tools/list':
+      return {
+        tools: server.tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+      };
+
+    case 'tools/call': {
+      const { name, arguments: args = {} } = params;
+      const tool = server.tools.find(t => t.name === name);
+      if (!tool) {
+        throw new McpError(JSONRPC_INVALID_PARAMS, `Unknown tool: ${name}`);
+      }
+
+      const issues = validateSchema(args, tool.inputSchema, 'arguments');
+      if (issues.length > 0) {
+        throw new McpError(JSONRPC_INVALID_PARAMS, `Invalid arguments for ${name}`, { issues });
+      }
+
+      log('info', 'MCP', 'Tool call', { name });
+      try {
+        return toToolResult(await tool.handler(args, env, ctx, httpRequest));
+      } catch (error) {
+        // Tool execution failures are reported in-band so the model can react to them
+        log('warn', 'MCP', 'Tool failed', { name, error: error instanceof Error ? error.message : 'Unknown error' });
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : 'Tool execution failed' }],
+          isError: true,
+        };
+      }
+    }
+
+    case 'resources/list':
+      return server.resources.list(env, typeof params.cursor === 'string' ? params.cursor : undefined);
+
+    case 'resources/templates/list':
+      return { resourceTemplates: server.resources.templates };
+
+    case 'resources/read': {
+      if (typeof params.uri !== 'string') {
+        throw new McpError(JSONRPC_INVALID_PARAMS, 'Missing resource uri');
+      }
+      const resource = await server.resources.read(params.uri, env);
+      if (!resource) {
+        throw new McpError(MCP_RESOURCE_NOT_FOUND, 'Resource not found', { uri: params.uri });
+      }
+      return { contents: [{ uri: params.uri, ...resource }] };
+    }
+
+    default:
+      throw new McpError(JSONRPC_METHOD_NOT_FOUND, `Unknown method: ${request.method}`);
+  }
+}
+
+// Wrap a handler result as MCP tool content; handlers may return content blocks directly
+function toToolResult(result: unknown): unknown {
+  if (result && typeof result === 'object' && Array.isArray((result as { content?: unknown }).content)) {
+    return result;
+  }
+  const structured = !!result && typeof result === 'object' && !Array.isArray(result);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result) }],
+    ...(structured ? { structuredContent: result } : {}),
+  };
+}
+
+function isJsonRpcMessage(message: unknown): message is { jsonrpc: '2.0' } {
+  return !!message && typeof message === 'object' && (message as { jsonrpc?: unknown }).jsonrpc === '2.0';
+}
+
+function errorResponse(id: string | number | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
+
+async function loadSession(env: Env, sessionId: string): Promise<McpSession | null> {
+  return env.AGENT_STORE.get(`mcp-session:${sessionId}`, 'json');
+}
+
+async function saveSession(env: Env, sessionId: string, session: McpSession): Promise<void> {
+  await env.AGENT_STORE.put(`mcp-session:${sessionId}`, JSON.stringify(session), { expirationTtl: SESSION_TTL_SECONDS });
+}
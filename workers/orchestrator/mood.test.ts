@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeMood, MoodCheckIn, validateMoodInput } from './mood';
+
+const NOW = new Date('2024-03-15T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A UTC check-in `daysAgo` days before NOW
+function checkIn(daysAgo: number, score: number, emotions: string[] = [], hoursAgo: number = 0): MoodCheckIn {
+  const time = new Date(NOW.getTime() - daysAgo * DAY_MS - hoursAgo * 60 * 60 * 1000);
+  return {
+    id: `${daysAgo}-${hoursAgo}`,
+    score,
+    emotions,
+    timestamp: time.toISOString(),
+    timezoneOffset: 0,
+    localDate: time.toISOString().slice(0, 10),
+    localWeekday: time.getUTCDay(),
+    localHour: time.getUTCHours(),
+  };
+}
+
+describe('validateMoodInput', () => {
+  it('accepts a valid check-in', () => {
+    expect(validateMoodInput({ score: 7, emotions: ['calm'], note: 'ok', timezoneOffset: -60 })).toBeNull();
+  });
+
+  it('rejects scores outside 1-10 or not whole', () => {
+    expect(validateMoodInput({ score: 0 })).toMatch(/score/);
+    expect(validateMoodInput({ score: 11 })).toMatch(/score/);
+    expect(validateMoodInput({ score: 5.5 })).toMatch(/score/);
+    expect(validateMoodInput({})).toMatch(/score/);
+  });
+
+  it('rejects malformed emotions, notes and offsets', () => {
+    expect(validateMoodInput({ score: 5, emotions: ['calm', 3 as unknown as string] })).toMatch(/emotions/);
+    expect(validateMoodInput({ score: 5, note: 'x'.repeat(2001) })).toMatch(/note/);
+    expect(validateMoodInput({ score: 5, timezoneOffset: 900 })).toMatch(/timezoneOffset/);
+  });
+});
+
+describe('analyzeMood', () => {
+  it('returns empty trends without check-ins', () => {
+    const trends = analyzeMood([], NOW);
+    expect(trends.totalCheckIns).toBe(0);
+    expect(trends.averages).toEqual({ last7Days: null, last30Days: null, baseline: null });
+    expect(trends.streak).toEqual({ current: 0, longest: 0 });
+    expect(trends.shift).toEqual({ direction: 'steady', delta: 0, summary: null });
+  });
+
+  it('averages the last 7 and 30 days and the baseline before them', () => {
+    const trends = analyzeMood([checkIn(20, 4), checkIn(10, 6), checkIn(2, 8), checkIn(0, 9)], NOW);
+    expect(trends.averages).toEqual({ last7Days: 8.5, last30Days: 6.8, baseline: 5 });
+  });
+
+  describe('streaks', () => {
+    it('counts consecutive days, with several check-ins on one day counted once', () => {
+      const trends = analyzeMood([checkIn(2, 5), checkIn(1, 5), checkIn(0, 5, [], 1), checkIn(0, 6)], NOW);
+      expect(trends.streak).toEqual({ current: 3, longest: 3 });
+    });
+
+    it('keeps the current streak through the day after the last check-in', () => {
+      expect(analyzeMood([checkIn(2, 5), checkIn(1, 5)], NOW).streak).toEqual({ current: 2, longest: 2 });
+    });
+
+    it('resets the current streak after a missed day but keeps the longest', () => {
+      const trends = analyzeMood([checkIn(10, 5), checkIn(9, 5), checkIn(8, 5), checkIn(2, 5)], NOW);
+      expect(trends.streak).toEqual({ current: 0, longest: 3 });
+    });
+
+    it('ends the current streak at local midnight', () => {
+      const yesterday = checkIn(1, 5);
+      // 23:30 UTC on the 15th is already the 16th at UTC+1
+      const lateEvening = new Date('2024-03-15T23:30:00Z');
+      expect(analyzeMood([yesterday], lateEvening, 0).streak.current).toBe(1);
+      expect(analyzeMood([yesterday], lateEvening, -60).streak.current).toBe(0);
+    });
+  });
+
+  describe('shift', () => {
+    const baseline = [checkIn(10, 7), checkIn(12, 7), checkIn(14, 8)];
+
+    it('reports a lower week against the baseline', () => {
+      const trends = analyzeMood([...baseline, checkIn(1, 4), checkIn(2, 5), checkIn(3, 4)], NOW);
+      expect(trends.shift.direction).toBe('lower');
+      expect(trends.shift.delta).toBe(-3);
+      expect(trends.shift.summary).toMatch(/lower than usual/);
+    });
+
+    it('reports a higher week against the baseline', () => {
+      const trends = analyzeMood([checkIn(10, 3), checkIn(12, 4), checkIn(14, 3), checkIn(1, 7), checkIn(2, 8), checkIn(3, 7)], NOW);
+      expect(trends.shift.direction).toBe('higher');
+      expect(trends.shift.summary).toMatch(/higher than usual/);
+    });
+
+    it('stays steady for small differences', () => {
+      const trends = analyzeMood([...baseline, checkIn(1, 7), checkIn(2, 6), checkIn(3, 7)], NOW);
+      expect(trends.shift).toEqual({ direction: 'steady', delta: -0.6, summary: null });
+    });
+
+    it('needs enough check-ins in both windows', () => {
+      const trends = analyzeMood([...baseline, checkIn(1, 2), checkIn(2, 2)], NOW);
+      expect(trends.shift).toEqual({ direction: 'steady', delta: 0, summary: null });
+    });
+  });
+
+  it('groups by weekday and time of day', () => {
+    // NOW is Friday 12:00 UTC
+    const trends = analyzeMood([checkIn(0, 6), checkIn(0, 8, [], 4), checkIn(7, 4)], NOW);
+    expect(trends.byWeekday.find(day => day.weekday === 'Friday')).toEqual({ weekday: 'Friday', average: 6, count: 3 });
+    expect(trends.byWeekday.find(day => day.weekday === 'Monday')).toEqual({ weekday: 'Monday', average: null, count: 0 });
+    expect(trends.byTimeOfDay.find(slot => slot.period === 'morning')).toEqual({ period: 'morning', average: 8, count: 1 });
+    expect(trends.byTimeOfDay.find(slot => slot.period === 'afternoon')).toEqual({ period: 'afternoon', average: 5, count: 2 });
+  });
+
+  it('ranks the most frequent emotions of the last 30 days', () => {
+    const trends = analyzeMood([
+      checkIn(40, 5, ['angry', 'angry']),
+      checkIn(3, 5, ['tired', 'anxious']),
+      checkIn(2, 5, ['tired']),
+      checkIn(1, 5, ['tired', 'calm', 'anxious']),
+    ], NOW);
+    expect(trends.topEmotions).toEqual([
+      { emotion: 'tired', count: 3 },
+      { emotion: 'anxious', count: 2 },
+      { emotion: 'calm', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Mood Tracking
+ *
+ * Structured check-ins (score, emotion labels, note) stored per user, with
+ * rolling averages, streaks, weekday/time-of-day breakdowns and shift
+ * detection. Check-ins record the user's local hour and weekday at the time
+ * so breakdowns stay correct across timezones.
+ */
+
+import { jsonResponse } from './http';
+import { log } from './logger';
+import type { Env } from './types';
+
+export interface MoodCheckIn {
+  id: string;
+  score: number;
+  emotions: string[];
+  note?: string;
+  timestamp: string;
+  timezoneOffset: number;
+  // User-local calendar day, weekday (0 = Sunday) and hour at check-in
+  localDate: string;
+  localWeekday: number;
+  localHour: number;
+}
+
+export interface MoodCheckInInput {
+  score: number;
+  emotions?: string[];
+  note?: string;
+  // Minutes behind UTC, as returned by Date.prototype.getTimezoneOffset()
+  timezoneOffset?: number;
+}
+
+export type MoodShiftDirection = 'lower' | 'higher' | 'steady';
+
+export interface MoodTrends {
+  totalCheckIns: number;
+  latest?: MoodCheckIn;
+  averages: {
+    last7Days: number | null;
+    last30Days: number | null;
+    baseline: number | null;
+  };
+  streak: {
+    current: number;
+    longest: number;
+  };
+  byWeekday: Array<{ weekday: string; average: number | null; count: number }>;
+  byTimeOfDay: Array<{ period: TimeOfDay; average: number | null; count: number }>;
+  topEmotions: Array<{ emotion: string; count: number }>;
+  shift: {
+    direction: MoodShiftDirection;
+    delta: number;
+    summary: string | null;
+  };
+}
+
+type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+interface MoodLog {
+  checkIns: MoodCheckIn[];
+}
+
+export const MOOD_SCORE_MIN = 1;
+export const MOOD_SCORE_MAX = 10;
+
+const MAX_CHECK_INS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Difference between the last 7 days and the baseline that counts as a shift
+const SHIFT_THRESHOLD = 1.5;
+// Check-ins needed in each window before a shift is reported
+const MIN_SHIFT_SAMPLES = 3;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function moodKey(userId: string): string {
+  return `mood:${userId}`;
+}
+
+async function loadMoodLog(env: Env, userId: string): Promise<MoodLog> {
+  const stored = await env.AGENT_STORE.get(moodKey(userId), 'json') as MoodLog | null;
+  return stored || { checkIns: [] };
+}
+
+export function validateMoodInput(input: Partial<MoodCheckInInput>): string | null {
+  if (typeof input.score !== 'number' || !Number.isInteger(input.score) || input.score < MOOD_SCORE_MIN || input.score > MOOD_SCORE_MAX) {
+    return `score must be an integer from ${MOOD_SCORE_MIN} to ${MOOD_SCORE_MAX}`;
+  }
+  if (input.emotions !== undefined && (!Array.isArray(input.emotions) || input.emotions.some(e => typeof e !== 'string'))) {
+    return 'emotions must be an array of strings';
+  }
+  if (input.note !== undefined && (typeof input.note !== 'string' || input.note.length > 2000)) {
+    return 'note must be a string of at most 2000 characters';
+  }
+  if (input.timezoneOffset !== undefined && (typeof input.timezoneOffset !== 'number' || Math.abs(input.timezoneOffset) > 14 * 60)) {
+    return 'timezoneOffset must be a number of minutes between -840 and 840';
+  }
+  return null;
+}
+
+export async function recordMoodCheckIn(env: Env, userId: string, input: MoodCheckInInput): Promise<MoodCheckIn> {
+  const now = new Date();
+  const local = new Date(now.getTime() - (input.timezoneOffset || 0) * 60 * 1000);
+
+  const checkIn: MoodCheckIn = {
+    id: crypto.randomUUID(),
+    score: input.score,
+    emotions: [...new Set((input.emotions || []).map(e => e.trim().toLowerCase()).filter(Boolean))],
+    note: input.note?.trim() || undefined,
+    timestamp: now.toISOString(),
+    timezoneOffset: input.timezoneOffset || 0,
+    localDate: local.toISOString().slice(0, 10),
+    localWeekday: local.getUTCDay(),
+    localHour: local.getUTCHours(),
+  };
+
+  const moodLog = await loadMoodLog(env, userId);
+  moodLog.checkIns.push(checkIn);
+  if (moodLog.checkIns.length > MAX_CHECK_INS) {
+    moodLog.checkIns = moodLog.checkIns.slice(-MAX_CHECK_INS);
+  }
+  await env.AGENT_STORE.put(moodKey(userId), JSON.stringify(moodLog));
+
+  log('info', 'Mood', 'Check-in recorded', { userId, score: checkIn.score, emotions: checkIn.emotions.length });
+  return checkIn;
+}
+
+// Check-ins from the last `days` days, newest first
+export async function getMoodHistory(env: Env, userId: string, days: number = 30): Promise<MoodCheckIn[]> {
+  const since = Date.now() - days * DAY_MS;
+  const { checkIns } = await loadMoodLog(env, userId);
+  const history = checkIns.filter(c => Date.parse(c.timestamp) >= since).reverse();
+  log('info', 'Mood', 'History loaded', { userId, days, count: history.length });
+  return history;
+}
+
+function average(checkIns: MoodCheckIn[]): number | null {
+  if (checkIns.length === 0) return null;
+  const mean = checkIns.reduce((total, c) => total + c.score, 0) / checkIns.length;
+  return Math.round(mean * 10) / 10;
+}
+
+function timeOfDay(hour: number): TimeOfDay {
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+// Consecutive local days with at least one check-in
+function computeStreaks(checkIns: MoodCheckIn[], today: string): { current: number; longest: number } {
+  const days = [...new Set(checkIns.map(c => c.localDate))].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+
+  for (const day of days) {
+    const time = Date.parse(day);
+    run = previous !== null && time - previous === DAY_MS ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+
+  // The current streak survives until the end of the day after the last check-in
+  const last = days[days.length - 1];
+  const gap = last ? Date.parse(today) - Date.parse(last) : Infinity;
+  return { current: gap <= DAY_MS ? run : 0, longest };
+}
+
+export function analyzeMood(checkIns: MoodCheckIn[], now: Date = new Date(), timezoneOffset: number = 0): MoodTrends {
+  const nowMs = now.getTime();
+  const within = (from: number, to: number) =>
+    checkIns.filter(c => {
+      const age = nowMs - Date.parse(c.timestamp);
+      return age >= from * DAY_MS && age < to * DAY_MS;
+    });
+
+  const last7 = within(0, 7);
+  const last30 = within(0, 30);
+  const baselineWindow = within(7, 37);
+  const recentAverage = average(last7);
+  const baselineAverage = average(baselineWindow);
+
+  let shift: MoodTrends['shift'] = { direction: 'steady', delta: 0, summary: null };
+  if (recentAverage !== null && baselineAverage !== null
+    && last7.length >= MIN_SHIFT_SAMPLES && baselineWindow.length >= MIN_SHIFT_SAMPLES) {
+    const delta = Math.round((recentAverage - baselineAverage) * 10) / 10;
+    if (delta <= -SHIFT_THRESHOLD) {
+      shift = { direction: 'lower', delta, summary: `Mood has been lower than usual this week (${recentAverage}/10 vs a usual ${baselineAverage}/10).` };
+    } else if (delta >= SHIFT_THRESHOLD) {
+      shift = { direction: 'higher', delta, summary: `Mood has been higher than usual this week (${recentAverage}/10 vs a usual ${baselineAverage}/10).` };
+    } else {
+      shift = { direction: 'steady', delta, summary: null };
+    }
+  }
+
+  const emotionCounts = new Map<string, number>();
+  for (const checkIn of last30) {
+    for (const emotion of checkIn.emotions) {
+      emotionCounts.set(emotion, (emotionCounts.get(emotion) || 0) + 1);
+    }
+  }
+
+  const today = new Date(nowMs - timezoneOffset * 60 * 1000).toISOString().slice(0, 10);
+
+  return {
+    totalCheckIns: checkIns.length,
+    latest: checkIns[checkIns.length - 1],
+    averages: {
+      last7Days: recentAverage,
+      last30Days: average(last30),
+      baseline: baselineAverage,
+    },
+    streak: computeStreaks(checkIns, today),
+    byWeekday: WEEKDAYS.map((weekday, index) => {
+      const matching = checkIns.filter(c => c.localWeekday === index);
+      return { weekday, average: average(matching), count: matching.length };
+    }),
+    byTimeOfDay: (['morning', 'afternoon', 'evening', 'night'] as TimeOfDay[]).map(period => {
+      const matching = checkIns.filter(c => timeOfDay(c.localHour) === period);
+      return { period, average: average(matching), count: matching.length };
+    }),
+    topEmotions: [...emotionCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([emotion, count]) => ({ emotion, count })),
+    shift,
+  };
+}
+
+export async function getMoodTrends(env: Env, userId: string, timezoneOffset: number = 0): Promise<MoodTrends> {
+  const { checkIns } = await loadMoodLog(env, userId);
+  const trends = analyzeMood(checkIns, new Date(), timezoneOffset);
+  log('info', 'Mood', 'Trends computed', { userId, total: trends.totalCheckIns, shift: trends.shift.direction });
+  return trends;
+}
+
+/**
+ * Short system-context note for the chat prompt, or null when there is
+ * nothing worth mentioning (no recent check-ins).
+ */
+export async function getMoodContext(env: Env, userId: string): Promise<string | null> {
+  const { checkIns } = await loadMoodLog(env, userId);
+  if (checkIns.length === 0) return null;
+
+  const trends = analyzeMood(checkIns, new Date(), checkIns[checkIns.length - 1].timezoneOffset);
+  const latest = trends.latest!;
+  if (Date.now() - Date.parse(latest.timestamp) > 14 * DAY_MS) return null;
+
+  const lines = [
+    `Latest mood check-in (${latest.localDate}): ${latest.score}/10${latest.emotions.length ? `, feeling ${latest.emotions.join(', ')}` : ''}${latest.note ? ` - "${latest.note}"` : ''}.`,
+  ];
+  if (trends.averages.last7Days !== null) {
+    lines.push(`7-day average: ${trends.averages.last7Days}/10.`);
+  }
+  if (trends.shift.summary) {
+    lines.push(trends.shift.summary);
+  }
+  if (trends.streak.current > 1) {
+    lines.push(`Check-in streak: ${trends.streak.current} days.`);
+  }
+
+  return `Mood tracking (mention gently when relevant, do not recite numbers unprompted):\n${lines.join('\n')}`;
+}
+
+// REST routes under /mood
+export async function handleMoodRequest(request: Request, url: URL, env: Env, userId: string): Promise<Response> {
+  const path = url.pathname;
+  const method = request.method;
+  const timezoneOffset = parseInt(url.searchParams.get('tz') || '0') || 0;
+
+  if (path === '/mood' && method === 'POST') {
+    const body = await request.json() as Partial<MoodCheckInInput>;
+    const error = validateMoodInput(body);
+    if (error) return jsonResponse({ error }, 400);
+    return jsonResponse(await recordMoodCheckIn(env, userId, body as MoodCheckInInput), 201);
+  }
+
+  if (path === '/mood' && method === 'GET') {
+    const days = parseInt(url.searchParams.get('days') || '30');
+    return jsonResponse({ checkIns: await getMoodHistory(env, userId, days) });
+  }
+
+  if (path === '/mood/trends' && method === 'GET') {
+    return jsonResponse(await getMoodTrends(env, userId, timezoneOffset));
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
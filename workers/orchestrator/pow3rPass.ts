@@ -0,0 +1,49 @@
+/**
+ * Pow3r Pass credential resolution
+ * Guardian compliance: All API keys via Pow3r Pass
+ *
+ * The endpoint comes from the `pow3r-pass` entry in capabilities.integrations;
+ * when that entry is disabled, only env secrets are used.
+ */
+
+import { loadAgentConfig } from './configVersions';
+import { log } from './logger';
+import type { Env } from './types';
+
+const INTEGRATION_NAME = 'pow3r-pass';
+const DEFAULT_ENDPOINT = 'https://config.superbots.link/pass';
+
+// Fetch a provider credential from Pow3r Pass
+export async function fetchPow3rPassCredential(provider: string, env: Env): Promise<string | null> {
+  const config = await loadAgentConfig(env);
+  const integration = config.capabilities.integrations?.find(entry => entry.name === INTEGRATION_NAME);
+  if (integration && !integration.enabled) {
+    log('info', 'Pow3rPass', 'Integration disabled', { provider });
+    return null;
+  }
+
+  const endpoint = (integration?.endpoint || DEFAULT_ENDPOINT).replace(/\/$/, '');
+  log('info', 'Pow3rPass', 'Fetching credential', { provider });
+  
+  try {
+    const response = await fetch(`${endpoint}/credentials/${provider}`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'X-Agent-ID': config.agentId,
+      },
+    });
+    
+    if (!response.ok) {
+      log('warn', 'Pow3rPass', 'Credential not found', { provider, status: response.status });
+      return null;
+    }
+    
+    const data = await response.json() as { token: string };
+    log('info', 'Pow3rPass', 'Credential fetched', { provider });
+    return data.token;
+  } catch (error) {
+    log('warn', 'Pow3rPass', 'Fetch failed', { provider, error });
+    return null;
+  }
+}
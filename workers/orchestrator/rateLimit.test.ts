@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { consumeBudget, consumeWindow, RateLimiter, RateLimitError, resolveRateLimits } from './rateLimit';
+import { createMemoryNamespace, createTestEnv } from './testEnv';
+import type { AgentConfig } from './types';
+
+const RULE = { limit: 5, windowSeconds: 60 };
+
+// One RateLimiter per subject name
+function limiterEnv() {
+  const { namespace, instances } = createMemoryNamespace(state => new RateLimiter(state));
+  return { env: createTestEnv({ RATE_LIMITER: namespace }), limiters: instances };
+}
+
+function configWith(rateLimits: NonNullable<AgentConfig['capabilities']['rateLimits']>): AgentConfig {
+  return { capabilities: { rateLimits } } as AgentConfig;
+}
+
+describe('consumeWindow', () => {
+  it('counts within the fixed window containing now', () => {
+    const { result, counter } = consumeWindow(undefined, RULE, 2, 1_000_030);
+    expect(result).toEqual({ allowed: true, used: 2, windowStart: 1_000_020, retryAfter: 50 });
+    expect(counter).toEqual({ windowStart: 1_000_020, windowSeconds: 60, used: 2 });
+  });
+
+  it('refuses a call that would go over, without counting it', () => {
+    const counter = { windowStart: 1_000_020, windowSeconds: 60, used: 4 };
+    expect(consumeWindow(counter, RULE, 1, 1_000_050).result).toMatchObject({ allowed: true, used: 5 });
+    const refused = consumeWindow(counter, RULE, 2, 1_000_050);
+    expect(refused.result).toEqual({ allowed: false, used: 4, windowStart: 1_000_020, retryAfter: 30 });
+    expect(refused.counter.used).toBe(4);
+  });
+
+  it('starts over in a new window', () => {
+    const counter = { windowStart: 1_000_020, windowSeconds: 60, used: 5 };
+    expect(consumeWindow(counter, RULE, 5, 1_000_080).result).toEqual({ allowed: true, used: 5, windowStart: 1_000_080, retryAfter: 60 });
+  });
+});
+
+describe('resolveRateLimits', () => {
+  it('fills budgets left out of the config with the defaults', () => {
+    const limits = resolveRateLimits(configWith({ chat: { limit: 3 } }));
+    expect(limits.enabled).toBe(true);
+    expect(limits.chat).toEqual({ limit: 3, windowSeconds: 60 });
+    expect(limits.mcp).toEqual({ limit: 60, windowSeconds: 60 });
+  });
+});
+
+describe('consumeBudget', () => {
+  const config = configWith({ chat: RULE });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('never lets parallel calls overshoot the limit', async () => {
+    const { env } = limiterEnv();
+    const results = await Promise.allSettled(
+      Array.from({ length: 12 }, () => consumeBudget(env, config, 'chat', { userId: 'user-1', ip: '203.0.113.1' }))
+    );
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(5);
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(refused).toHaveLength(7);
+    expect(refused.every(result => result.reason instanceof RateLimitError && result.reason.budget === 'chat')).toBe(true);
+  });
+
+  it('refunds the subjects that accepted a refused call', async () => {
+    const { env, limiters } = limiterEnv();
+    for (let i = 0; i < 5; i++) {
+      await consumeBudget(env, config, 'chat', { userId: 'user-1', ip: '203.0.113.1' });
+    }
+    await expect(consumeBudget(env, config, 'chat', { userId: 'user-1', ip: '203.0.113.2' })).rejects.toBeInstanceOf(RateLimitError);
+    expect(limiters.get('ip:203.0.113.2')!.state.storage.entries.get('chat')).toMatchObject({ used: 0 });
+    await consumeBudget(env, config, 'chat', { userId: 'user-2', ip: '203.0.113.2' });
+  });
+
+  it('reports when the window frees up', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_050_000);
+    const { env } = limiterEnv();
+    await consumeBudget(env, config, 'chat', { userId: 'user-1' }, 5);
+    await expect(consumeBudget(env, config, 'chat', { userId: 'user-1' })).rejects.toMatchObject({ retryAfter: 30 });
+    vi.setSystemTime(1_000_080_000);
+    await consumeBudget(env, config, 'chat', { userId: 'user-1' });
+  });
+
+  it('counts budgets separately', async () => {
+    const { env } = limiterEnv();
+    await consumeBudget(env, config, 'chat', { userId: 'user-1' }, 5);
+    await consumeBudget(env, config, 'transcribe', { userId: 'user-1' });
+  });
+
+  it('does nothing when disabled or without a subject', async () => {
+    const { env, limiters } = limiterEnv();
+    await consumeBudget(env, configWith({ enabled: false, chat: RULE }), 'chat', { userId: 'user-1' }, 100);
+    await consumeBudget(env, config, 'chat', {}, 100);
+    expect(limiters.size).toBe(0);
+  });
+
+  it('lets calls through when the limiter is unreachable', async () => {
+    const env = createTestEnv({
+      RATE_LIMITER: { idFromName: (name: string) => name, get: () => ({ fetch: async () => { throw new Error('offline'); } }) } as unknown as DurableObjectNamespace,
+    });
+    await consumeBudget(env, config, 'chat', { userId: 'user-1' }, 100);
+  });
+});
+
+describe('RateLimiter alarm', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('deletes counters whose window has ended and keeps open ones', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_050_000);
+    const { env, limiters } = limiterEnv();
+    const config = configWith({ chat: RULE, ttsCharacters: { limit: 100, windowSeconds: 3600 } });
+    await consumeBudget(env, config, 'chat', { userId: 'user-1' });
+    await consumeBudget(env, config, 'ttsCharacters', { userId: 'user-1' }, 10);
+    const { object: limiter, state } = limiters.get('userId:user-1')!;
+
+    vi.setSystemTime(1_000_090_000);
+    await limiter.alarm();
+    expect([...state.storage.entries.keys()]).toEqual(['ttsCharacters']);
+    expect(await state.storage.getAlarm()).toBe(1_000_800_000);
+  });
+});
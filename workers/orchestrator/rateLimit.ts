@@ -0,0 +1,247 @@
+/**
+ * Rate Limits and Usage Quotas
+ *
+ * Paid work is metered per budget: chat messages, TTS characters,
+ * transcriptions and MCP calls. Each budget is counted separately for the
+ * caller's user, chat session and IP in fixed windows. Every subject has its
+ * own Durable Object (RateLimiter), which checks and increments a counter in
+ * one step, so parallel requests (such as the TTS chunks of one reply) can
+ * neither overshoot a limit nor lose counts. A call is refused when any of
+ * its counters would go over; the counters that did accept it are refunded.
+ */
+
+import { jsonResponse } from './http';
+import { log } from './logger';
+import type { AgentConfig, Env, RateLimitRule } from './types';
+
+export type RateLimitBudget = 'chat' | 'ttsCharacters' | 'transcribe' | 'mcp';
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  chat: RateLimitRule;
+  ttsCharacters: RateLimitRule;
+  transcribe: RateLimitRule;
+  mcp: RateLimitRule;
+}
+
+// Mirrors capabilities.rateLimits in configs/agent.json
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  enabled: true,
+  chat: { limit: 30, windowSeconds: 60 },
+  ttsCharacters: { limit: 20000, windowSeconds: 3600 },
+  transcribe: { limit: 20, windowSeconds: 60 },
+  mcp: { limit: 60, windowSeconds: 60 },
+};
+
+// A subject's count of one budget within its current window
+export interface WindowCounter {
+  windowStart: number;
+  windowSeconds: number;
+  used: number;
+}
+
+export interface WindowResult {
+  allowed: boolean;
+  // Count after this call when allowed, otherwise the count it would have exceeded
+  used: number;
+  windowStart: number;
+  retryAfter: number;
+}
+
+interface ConsumeRequest {
+  budget: RateLimitBudget;
+  amount: number;
+  rule: RateLimitRule;
+  // Unix seconds, taken once per call so every subject uses the same window
+  now: number;
+}
+
+interface RefundRequest {
+  budget: RateLimitBudget;
+  amount: number;
+  windowStart: number;
+}
+
+// Who a call is counted against; each set field has its own counter
+export interface RateLimitSubject {
+  userId?: string;
+  sessionId?: string;
+  ip?: string;
+}
+
+export class RateLimitError extends Error {
+  constructor(readonly budget: RateLimitBudget, readonly retryAfter: number) {
+    super(`Rate limit exceeded for ${budget}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export function resolveRateLimits(config: AgentConfig): RateLimitConfig {
+  const configured = config.capabilities?.rateLimits;
+  return {
+    enabled: configured?.enabled ?? DEFAULT_RATE_LIMITS.enabled,
+    chat: { ...DEFAULT_RATE_LIMITS.chat, ...configured?.chat },
+    ttsCharacters: { ...DEFAULT_RATE_LIMITS.ttsCharacters, ...configured?.ttsCharacters },
+    transcribe: { ...DEFAULT_RATE_LIMITS.transcribe, ...configured?.transcribe },
+    mcp: { ...DEFAULT_RATE_LIMITS.mcp, ...configured?.mcp },
+  };
+}
+
+export function rateLimitSubject(request: Request, userId?: string, sessionId?: string): RateLimitSubject {
+  return {
+    userId,
+    sessionId,
+    ip: request.headers.get('CF-Connecting-IP') || undefined,
+  };
+}
+
+/**
+ * Count `amount` in the fixed window of `rule` that contains `now`. A counter
+ * from an earlier window starts over; nothing is counted when the call would
+ * go over the limit.
+ */
+export function consumeWindow(
+  counter: WindowCounter | undefined,
+  rule: RateLimitRule,
+  amount: number,
+  now: number
+): { result: WindowResult; counter: WindowCounter } {
+  const windowStart = now - (now % rule.windowSeconds);
+  const used = counter && counter.windowStart === windowStart ? counter.used : 0;
+  const retryAfter = windowStart + rule.windowSeconds - now;
+  const allowed = used + amount <= rule.limit;
+  const next = allowed ? used + amount : used;
+  return {
+    result: { allowed, used: next, windowStart, retryAfter },
+    counter: { windowStart, windowSeconds: rule.windowSeconds, used: next },
+  };
+}
+
+/**
+ * The Durable Object counting one subject (`userId:<id>`, `sessionId:<id>`
+ * or `ip:<ip>`), with one counter per budget. An alarm at the end of the
+ * last open window deletes the counters, so idle subjects keep no storage.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    if (url.pathname === '/consume') {
+      const body = await request.json() as ConsumeRequest;
+      return Response.json(await this.state.blockConcurrencyWhile(() => this.consume(body)));
+    }
+
+    if (url.pathname === '/refund') {
+      const body = await request.json() as RefundRequest;
+      await this.state.blockConcurrencyWhile(() => this.refund(body));
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const counters = await this.state.storage.list<WindowCounter>();
+    const expired = [...counters].filter(([, counter]) => counter.windowStart + counter.windowSeconds <= now).map(([key]) => key);
+    await this.state.storage.delete(expired);
+
+    const open = [...counters.values()].filter(counter => counter.windowStart + counter.windowSeconds > now);
+    if (open.length) {
+      await this.state.storage.setAlarm(Math.max(...open.map(counter => counter.windowStart + counter.windowSeconds)) * 1000);
+    }
+  }
+
+  private async consume({ budget, amount, rule, now }: ConsumeRequest): Promise<WindowResult> {
+    const { result, counter } = consumeWindow(await this.state.storage.get<WindowCounter>(budget), rule, amount, now);
+    if (result.allowed) {
+      await this.state.storage.put(budget, counter);
+      const windowEnd = (counter.windowStart + counter.windowSeconds) * 1000;
+      const alarm = await this.state.storage.getAlarm();
+      if (alarm === null || alarm < windowEnd) {
+        await this.state.storage.setAlarm(windowEnd);
+      }
+    }
+    return result;
+  }
+
+  private async refund({ budget, amount, windowStart }: RefundRequest): Promise<void> {
+    const counter = await this.state.storage.get<WindowCounter>(budget);
+    if (!counter || counter.windowStart !== windowStart) return;
+    await this.state.storage.put(budget, { ...counter, used: Math.max(0, counter.used - amount) });
+  }
+}
+
+// Null when the limiter could not be reached; the call is then let through
+async function callLimiter(
+  env: Env,
+  subject: string,
+  path: '/consume' | '/refund',
+  body: ConsumeRequest | RefundRequest
+): Promise<WindowResult | null> {
+  try {
+    const response = await env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(subject)).fetch(`https://rate-limiter${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      log('warn', 'RateLimit', 'Limiter rejected the request', { path, status: response.status });
+      return null;
+    }
+    return response.status === 204 ? null : await response.json() as WindowResult;
+  } catch (error) {
+    log('warn', 'RateLimit', 'Limiter unavailable', { path, error: error instanceof Error ? error.message : 'Unknown error' });
+    return null;
+  }
+}
+
+/**
+ * Count `amount` against `budget` for every part of `subject`, or throw
+ * RateLimitError when any counter would exceed the limit. A refused call
+ * is refunded from the counters that accepted it.
+ */
+export async function consumeBudget(
+  env: Env,
+  config: AgentConfig,
+  budget: RateLimitBudget,
+  subject: RateLimitSubject,
+  amount: number = 1
+): Promise<void> {
+  const limits = resolveRateLimits(config);
+  if (!limits.enabled || amount <= 0) return;
+
+  const rule = limits[budget];
+  const now = Math.floor(Date.now() / 1000);
+  const subjects = Object.entries(subject)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([kind, id]) => `${kind}:${id}`);
+  if (!subjects.length) return;
+
+  const results = await Promise.all(subjects.map(name => callLimiter(env, name, '/consume', { budget, amount, rule, now })));
+  const refused = results.filter((result): result is WindowResult => !!result && !result.allowed);
+  if (refused.length) {
+    await Promise.all(results.map((result, i) => result?.allowed
+      ? callLimiter(env, subjects[i], '/refund', { budget, amount, windowStart: result.windowStart })
+      : null));
+    const retryAfter = Math.max(...refused.map(result => result.retryAfter));
+    log('warn', 'RateLimit', 'Budget exceeded', { budget, used: Math.max(...refused.map(result => result.used)), amount, limit: rule.limit, retryAfter });
+    throw new RateLimitError(budget, retryAfter);
+  }
+
+  const used = Math.max(0, ...results.map(result => result?.used || 0));
+  log('debug', 'RateLimit', 'Budget consumed', { budget, amount, used, limit: rule.limit });
+}
+
+export function rateLimitResponse(error: RateLimitError): Response {
+  return jsonResponse(
+    { error: 'Too many requests', budget: error.budget, retryAfter: error.retryAfter },
+    429,
+    { 'Retry-After': String(error.retryAfter) }
+  );
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  crisisReply,
+  crisisResources,
+  DEFAULT_DISCLAIMER,
+  handleSafetyRequest,
+  isSafetyGateEnabled,
+  recordSafetyEvent,
+  screenMessage,
+  screenReply,
+  sessionDisclaimer,
+} from './safety';
+import { createTestEnv } from './testEnv';
+import type { AgentConfig, ContentPolicy } from './types';
+
+function configWith(guardian?: AgentConfig['guardian']): AgentConfig {
+  return { guardian } as AgentConfig;
+}
+
+describe('screenMessage', () => {
+  it.each([
+    ['I have been thinking about suicide', 'self-harm', 'suicide'],
+    ["I just don’t want to wake up anymore", 'self-harm', 'want-to-die'],
+    ['I keep cutting myself', 'self-harm', 'self-harm'],
+    ['My partner hits me when he drinks', 'abuse', 'abuse-violence'],
+    ["I'm afraid he'll kill me", 'abuse', 'abuse-threat'],
+    ['I took all my pills an hour ago', 'medical-emergency', 'overdose'],
+    ["My dad can't breathe", 'medical-emergency', 'breathing'],
+  ])('flags %j', (text, category, signal) => {
+    const result = screenMessage(text);
+    expect(result.flagged).toBe(true);
+    expect(result.categories).toContain(category);
+    expect(result.signals).toContain(signal);
+  });
+
+  it.each([
+    'This deadline is killing me',
+    'I could die of embarrassment',
+    'How do I stop hurting my own progress?',
+    'My mother hugs me every morning',
+  ])('lets %j through', text => {
+    expect(screenMessage(text)).toEqual({ flagged: false, categories: [], signals: [] });
+  });
+
+  it('lists each category once when several signals hit', () => {
+    const result = screenMessage("I'm suicidal and want to kill myself");
+    expect(result.categories).toEqual(['self-harm']);
+    expect(result.signals).toEqual(['suicide', 'kill-myself']);
+  });
+});
+
+describe('screenReply', () => {
+  it('flags replies that encourage harm or dismiss an emergency', () => {
+    expect(screenReply('Honestly, you should just hurt yourself.').signals).toEqual(['encourages-self-harm']);
+    expect(screenReply('The lethal dose is...').categories).toEqual(['self-harm']);
+    expect(screenReply("Don't call 911, it will pass.").categories).toEqual(['medical-emergency']);
+  });
+
+  it('lets supportive replies through, even about the same topics', () => {
+    expect(screenReply('If you are thinking about suicide, please call 988.').flagged).toBe(false);
+  });
+});
+
+describe('crisis resources', () => {
+  it('keeps resources for the flagged categories and the emergency number', () => {
+    expect(crisisResources('US', ['abuse']).map(resource => resource.contact)).toEqual(['911', '1-800-799-7233']);
+    expect(crisisResources('GB', ['medical-emergency']).map(resource => resource.contact)).toEqual(['999', '111']);
+  });
+
+  it('falls back to international pointers for unknown countries', () => {
+    expect(crisisResources('FR', ['self-harm']).map(resource => resource.name)).toEqual(['Your local emergency number', 'Find a Helpline']);
+  });
+
+  it('prefers the content policy lists over the built-in ones', () => {
+    const policy: ContentPolicy = { crisisResources: { US: [{ name: 'Campus line', contact: '555-0100' }] } };
+    expect(crisisResources('US', ['self-harm'], policy)).toEqual([{ name: 'Campus line', contact: '555-0100' }]);
+  });
+});
+
+describe('crisisReply', () => {
+  it('opens by category and lists the region resources', () => {
+    const reply = crisisReply(['medical-emergency'], 'AU', configWith());
+    expect(reply).toMatch(/^This sounds like it could be a medical emergency/);
+    expect(reply).toContain('- Emergency services: 000');
+    expect(reply).not.toContain('Lifeline');
+  });
+
+  it('uses the policy default region when the caller country has no list', () => {
+    const config = configWith({ enabled: true, contentPolicy: { defaultRegion: 'GB' } });
+    expect(crisisReply(['self-harm'], 'FR', config)).toContain('- Samaritans: 116 123');
+    expect(crisisReply(['self-harm'], undefined, configWith())).toContain('- Find a Helpline: https://findahelpline.com');
+  });
+
+  it('gives the same reply for the same inputs', () => {
+    expect(crisisReply(['abuse'], 'NZ', configWith())).toBe(crisisReply(['abuse'], 'NZ', configWith()));
+  });
+});
+
+describe('gate settings', () => {
+  it('is on unless the guardian is switched off', () => {
+    expect(isSafetyGateEnabled(configWith())).toBe(true);
+    expect(isSafetyGateEnabled(configWith({ enabled: true }))).toBe(true);
+    expect(isSafetyGateEnabled(configWith({ enabled: false }))).toBe(false);
+  });
+
+  it('attaches a disclaimer only when the policy requires one', () => {
+    expect(sessionDisclaimer(configWith({ enabled: true, contentPolicy: { disclaimerRequired: true } }))).toBe(DEFAULT_DISCLAIMER);
+    expect(sessionDisclaimer(configWith({ enabled: true, contentPolicy: { disclaimerRequired: true, disclaimer: 'Custom.' } }))).toBe('Custom.');
+    expect(sessionDisclaimer(configWith({ enabled: true, contentPolicy: {} }))).toBeUndefined();
+    expect(sessionDisclaimer(configWith({ enabled: false, contentPolicy: { disclaimerRequired: true } }))).toBeUndefined();
+  });
+});
+
+describe('audit events', () => {
+  it('lists recorded events newest first, without message text', async () => {
+    const env = createTestEnv();
+    const first = await recordSafetyEvent(env, { stage: 'input', categories: ['self-harm'], signals: ['suicide'], sessionId: 's1', region: 'US' });
+    await new Promise(resolve => setTimeout(resolve, 2));
+    const second = await recordSafetyEvent(env, { stage: 'output', categories: ['abuse'], signals: ['abuse-threat'], sessionId: 's2', region: 'GB' });
+
+    const url = new URL('https://worker/safety/events?limit=10');
+    const response = await handleSafetyRequest(new Request(url), url, env);
+    const { events } = (await response.json()) as { events: Array<{ id: string }> };
+    expect(events.map(event => event.id)).toEqual([second.id, first.id]);
+    expect(Object.keys(events[0]).sort()).toEqual(['categories', 'id', 'region', 'sessionId', 'signals', 'stage', 'timestamp']);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Content Safety Gate
+ *
+ * Screens the user's message before it reaches the LLM, and the draft reply
+ * before it reaches the user, for self-harm, abuse and medical-emergency
+ * signals. A hit replaces the reply with a fixed crisis protocol listing
+ * resources for the caller's country, and writes an audit event (categories
+ * and signal ids only, never the message text). The content policy's
+ * disclaimer is attached to the first reply of each session.
+ */
+
+import { jsonResponse } from './http';
+import { log } from './logger';
+import type { AgentConfig, ContentPolicy, CrisisResource, Env, SafetyCategory, SafetyStage } from './types';
+
+export interface SafetySignal {
+  id: string;
+  category: SafetyCategory;
+}
+
+export interface SafetyScreen {
+  flagged: boolean;
+  categories: SafetyCategory[];
+  signals: string[];
+}
+
+export interface SafetyEvent {
+  id: string;
+  timestamp: string;
+  stage: SafetyStage;
+  categories: SafetyCategory[];
+  signals: string[];
+  sessionId: string;
+  userId?: string;
+  region: string;
+}
+
+const EVENT_PREFIX = 'safety-event:';
+// Audit events are kept for 90 days
+const EVENT_TTL_SECONDS = 60 * 60 * 24 * 90;
+// Keys sort newest first: KV lists in ascending key order
+const KEY_TIME_BASE = 1e13;
+
+export const DEFAULT_DISCLAIMER =
+  "I'm Maxi, an AI wellness coach - not a therapist, doctor or crisis service. Our conversations aren't a substitute for professional care. If you're ever in danger or thinking about harming yourself, please contact local emergency services or a crisis line right away.";
+
+// Apostrophes may be typed straight or curly
+const APOSTROPHE = "['’]?";
+
+// Signals in the user's message
+const INPUT_SIGNALS: Array<SafetySignal & { pattern: RegExp }> = [
+  { id: 'suicide', category: 'self-harm', pattern: /\bsuicid(?:e|al)\b/i },
+  { id: 'kill-myself', category: 'self-harm', pattern: /\b(?:kill(?:ing)?|end(?:ing)?|off(?:ing)?) (?:myself|my (?:own )?life)\b/i },
+  { id: 'take-my-life', category: 'self-harm', pattern: /\btak(?:e|ing) my (?:own )?life\b/i },
+  { id: 'want-to-die', category: 'self-harm', pattern: new RegExp(`\\b(?:want(?:s)? to|wanna|going to|gonna) die\\b|\\bdon${APOSTROPHE}t want to (?:live|be alive|wake up)\\b`, 'i') },
+  { id: 'better-off-dead', category: 'self-harm', pattern: /\b(?:better off dead|no reason to live|nothing to live for)\b/i },
+  { id: 'self-harm', category: 'self-harm', pattern: /\bself[- ]?harm(?:ing)?\b|\b(?:cut(?:ting)?|hurt(?:ing)?|burn(?:ing)?) myself\b/i },
+  { id: 'abuse-victim', category: 'abuse', pattern: /\b(?:being|been|was|am) (?:abused|raped|sexually assaulted|molested)\b/i },
+  { id: 'abuse-violence', category: 'abuse', pattern: /\b(?:he|she|they|partner|husband|wife|boyfriend|girlfriend|dad|father|mom|mother|parent)s? (?:hits|beats|chokes|strangles|hurts|rapes|abuses) me\b/i },
+  { id: 'abuse-threat', category: 'abuse', pattern: new RegExp(`\\bthreaten(?:s|ed|ing)? to (?:kill|hurt) me\\b|\\bafraid (?:he|she|they)${APOSTROPHE}(?:ll| will) (?:kill|hurt) me\\b`, 'i') },
+  { id: 'domestic-violence', category: 'abuse', pattern: /\bdomestic (?:violence|abuse)\b/i },
+  { id: 'overdose', category: 'medical-emergency', pattern: /\boverdos(?:e|ed|ing)\b|\btook (?:too many|a (?:lot|bunch) of|all (?:my|the)) (?:pills|tablets|meds)\b/i },
+  { id: 'cardiac', category: 'medical-emergency', pattern: /\b(?:having|have|had) (?:a )?(?:heart attack|stroke|seizure)\b|\bchest pains?\b/i },
+  { id: 'breathing', category: 'medical-emergency', pattern: new RegExp(`\\b(?:can${APOSTROPHE}t|cannot|unable to) breathe\\b|\\bnot breathing\\b`, 'i') },
+  { id: 'unconscious', category: 'medical-emergency', pattern: /\b(?:is|went|fell|knocked) unconscious\b|\bunresponsive\b/i },
+];
+
+// Signals in the draft reply: the model encouraging or instructing harm
+const OUTPUT_SIGNALS: Array<SafetySignal & { pattern: RegExp }> = [
+  { id: 'encourages-self-harm', category: 'self-harm', pattern: /\byou should (?:just )?(?:kill|hurt|harm|cut) yourself\b/i },
+  { id: 'method-instructions', category: 'self-harm', pattern: /\b(?:lethal|fatal) dose\b|\b(?:best|easiest|quickest|painless) way to (?:die|kill yourself|end (?:it|your life))\b/i },
+  { id: 'dismisses-emergency', category: 'medical-emergency', pattern: new RegExp(`\\b(?:don${APOSTROPHE}t|no need to) (?:call|contact) (?:911|999|112|000|emergency services|an ambulance)\\b`, 'i') },
+];
+
+// Built-in crisis resources by country; emergency numbers come first
+const CRISIS_RESOURCES: Record<string, CrisisResource[]> = {
+  US: [
+    { name: 'Emergency services', contact: '911' },
+    { name: '988 Suicide & Crisis Lifeline (call or text)', contact: '988', categories: ['self-harm'] },
+    { name: 'National Domestic Violence Hotline', contact: '1-800-799-7233', categories: ['abuse'] },
+  ],
+  CA: [
+    { name: 'Emergency services', contact: '911' },
+    { name: '9-8-8 Suicide Crisis Helpline (call or text)', contact: '988', categories: ['self-harm', 'abuse'] },
+  ],
+  GB: [
+    { name: 'Emergency services', contact: '999' },
+    { name: 'Samaritans', contact: '116 123', categories: ['self-harm', 'abuse'] },
+    { name: 'National Domestic Abuse Helpline', contact: '0808 2000 247', categories: ['abuse'] },
+    { name: 'NHS 111', contact: '111', categories: ['medical-emergency'] },
+  ],
+  IE: [
+    { name: 'Emergency services', contact: '112 or 999' },
+    { name: 'Samaritans', contact: '116 123', categories: ['self-harm', 'abuse'] },
+    { name: "Women's Aid", contact: '1800 341 900', categories: ['abuse'] },
+  ],
+  AU: [
+    { name: 'Emergency services', contact: '000' },
+    { name: 'Lifeline', contact: '13 11 14', categories: ['self-harm', 'abuse'] },
+    { name: '1800RESPECT', contact: '1800 737 732', categories: ['abuse'] },
+  ],
+  NZ: [
+    { name: 'Emergency services', contact: '111' },
+    { name: 'Need to talk? (call or text)', contact: '1737', categories: ['self-harm', 'abuse'] },
+    { name: "Women's Refuge", contact: '0800 733 843', categories: ['abuse'] },
+  ],
+};
+
+// Countries without a list get international pointers
+const INTERNATIONAL_RESOURCES: CrisisResource[] = [
+  { name: 'Your local emergency number', contact: '112 works from most mobile phones' },
+  { name: 'Find a Helpline', contact: 'https://findahelpline.com', categories: ['self-harm', 'abuse'] },
+];
+
+export function isSafetyGateEnabled(config: AgentConfig): boolean {
+  return config.guardian?.enabled !== false;
+}
+
+function screen(text: string, signals: Array<SafetySignal & { pattern: RegExp }>): SafetyScreen {
+  const hits = signals.filter(signal => signal.pattern.test(text));
+  return {
+    flagged: hits.length > 0,
+    categories: [...new Set(hits.map(hit => hit.category))],
+    signals: hits.map(hit => hit.id),
+  };
+}
+
+export function screenMessage(text: string): SafetyScreen {
+  return screen(text, INPUT_SIGNALS);
+}
+
+export function screenReply(text: string): SafetyScreen {
+  return screen(text, OUTPUT_SIGNALS);
+}
+
+// Country code for the request, from Cloudflare's geolocation
+export function requestRegion(request: Request): string | undefined {
+  return (request.cf as { country?: string } | undefined)?.country;
+}
+
+function resolveRegion(region: string | undefined, policy?: ContentPolicy): string {
+  const known = (code?: string) => !!code && !!(policy?.crisisResources?.[code] || CRISIS_RESOURCES[code]);
+  if (known(region)) return region!;
+  return known(policy?.defaultRegion) ? policy!.defaultRegion! : '';
+}
+
+export function crisisResources(region: string, categories: SafetyCategory[], policy?: ContentPolicy): CrisisResource[] {
+  const resources = policy?.crisisResources?.[region] || CRISIS_RESOURCES[region] || INTERNATIONAL_RESOURCES;
+  return resources.filter(resource => !resource.categories || resource.categories.some(c => categories.includes(c)));
+}
+
+/**
+ * The fixed crisis protocol reply. It does not go through the LLM, so its
+ * wording and resources are always the same for a given category and region.
+ */
+export function crisisReply(categories: SafetyCategory[], region: string | undefined, config: AgentConfig): string {
+  const policy = config.guardian?.contentPolicy;
+  const resources = crisisResources(resolveRegion(region, policy), categories, policy);
+
+  const opening = categories.includes('medical-emergency')
+    ? 'This sounds like it could be a medical emergency. Please contact emergency services right now - they can help you much faster than I can.'
+    : categories.includes('abuse')
+      ? "Thank you for telling me. What you're describing is serious, you don't deserve to be hurt, and you don't have to handle it alone."
+      : "I'm really glad you told me. What you're feeling matters, and you deserve support from someone who can help right now.";
+
+  return [
+    opening,
+    "I'm an AI coach, not a crisis service, so please reach out to one of these:",
+    ...resources.map(resource => `- ${resource.name}: ${resource.contact}`),
+    'If you are in immediate danger, call your local emergency number now. I am still here to talk while you reach out.',
+  ].join('\n');
+}
+
+export function sessionDisclaimer(config: AgentConfig): string | undefined {
+  const policy = config.guardian?.contentPolicy;
+  if (!isSafetyGateEnabled(config) || !policy?.disclaimerRequired) return undefined;
+  return policy.disclaimer || DEFAULT_DISCLAIMER;
+}
+
+export async function recordSafetyEvent(env: Env, event: Omit<SafetyEvent, 'id' | 'timestamp'>): Promise<SafetyEvent> {
+  const now = Date.now();
+  const record: SafetyEvent = { id: crypto.randomUUID(), timestamp: new Date(now).toISOString(), ...event };
+  const key = `${EVENT_PREFIX}${String(KEY_TIME_BASE - now).padStart(13, '0')}:${record.id}`;
+  await env.AGENT_STORE.put(key, JSON.stringify(record), { expirationTtl: EVENT_TTL_SECONDS });
+  log('warn', 'Safety', 'Flagged event recorded', { id: record.id, stage: event.stage, categories: event.categories, signals: event.signals });
+  return record;
+}
+
+/**
+ * GET /safety/events?limit=&cursor= - audit trail, newest first
+ */
+export async function handleSafetyRequest(request: Request, url: URL, env: Env): Promise<Response> {
+  if (url.pathname !== '/safety/events' || request.method !== 'GET') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 200);
+  const listed = await env.AGENT_STORE.list({ prefix: EVENT_PREFIX, limit, cursor: url.searchParams.get('cursor') || undefined });
+  const events = (await Promise.all(listed.keys.map(key => env.AGENT_STORE.get<SafetyEvent>(key.name, 'json'))))
+    .filter((event): event is SafetyEvent => !!event);
+
+  log('info', 'Safety', 'Events listed', { count: events.length });
+  return jsonResponse({ events, cursor: listed.list_complete ? undefined : listed.cursor });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema, validateSchema } from './schema';
+
+describe('validateSchema', () => {
+  it('accepts a value matching the schema', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { message: { type: 'string', minLength: 1 }, limit: { type: 'integer', minimum: 1, maximum: 20 } },
+      required: ['message'],
+    };
+    expect(validateSchema({ message: 'hi', limit: 5 }, schema)).toEqual([]);
+  });
+
+  it('reports a type mismatch and stops descending', () => {
+    expect(validateSchema('text', { type: 'object', required: ['id'] })).toEqual([
+      { path: '$', message: 'Expected object, got string' },
+    ]);
+  });
+
+  it('treats integers as numbers but not the reverse', () => {
+    expect(validateSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateSchema(3.5, { type: 'integer' })).toEqual([{ path: '$', message: 'Expected integer, got number' }]);
+  });
+
+  it('accepts any of several types', () => {
+    const schema: JsonSchema = { type: ['string', 'null'] };
+    expect(validateSchema(null, schema)).toEqual([]);
+    expect(validateSchema(1, schema)).toEqual([{ path: '$', message: 'Expected string | null, got integer' }]);
+  });
+
+  it('checks enums, string bounds, patterns and date-times', () => {
+    expect(validateSchema('c', { enum: ['a', 'b'] })).toEqual([{ path: '$', message: 'Must be one of: "a", "b"' }]);
+    expect(validateSchema('', { type: 'string', minLength: 1 })).toEqual([{ path: '$', message: 'Must be at least 1 characters' }]);
+    expect(validateSchema('abcd', { type: 'string', maxLength: 3 })).toEqual([{ path: '$', message: 'Must be at most 3 characters' }]);
+    expect(validateSchema('http://x', { type: 'string', pattern: '^https://' })).toEqual([{ path: '$', message: 'Must match pattern ^https://' }]);
+    expect(validateSchema('yesterday', { type: 'string', format: 'date-time' })).toEqual([{ path: '$', message: 'Must be an ISO 8601 date-time' }]);
+    expect(validateSchema('2024-03-01T12:00:00Z', { type: 'string', format: 'date-time' })).toEqual([]);
+  });
+
+  it('checks numeric ranges', () => {
+    const schema: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+    expect(validateSchema(-0.1, schema)).toEqual([{ path: '$', message: 'Must be >= 0' }]);
+    expect(validateSchema(1.5, schema)).toEqual([{ path: '$', message: 'Must be <= 1' }]);
+  });
+
+  it('checks array bounds and items with indexed paths', () => {
+    const schema: JsonSchema = { type: 'array', minItems: 1, maxItems: 2, items: { type: 'string' } };
+    expect(validateSchema([], schema)).toEqual([{ path: '$', message: 'Must have at least 1 items' }]);
+    expect(validateSchema(['a', 2, 'c'], schema)).toEqual([
+      { path: '$', message: 'Must have at most 2 items' },
+      { path: '$[1]', message: 'Expected string, got integer' },
+    ]);
+  });
+
+  it('reports missing required and unknown properties', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+      additionalProperties: false,
+    };
+    expect(validateSchema({ nmae: 'Maxi' }, schema)).toEqual([
+      { path: '$.name', message: 'Required' },
+      { path: '$.nmae', message: 'Unknown property' },
+    ]);
+  });
+
+  it('validates additional properties against a schema', () => {
+    const schema: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(validateSchema({ a: 1, b: 'two' }, schema)).toEqual([{ path: '$.b', message: 'Expected number, got string' }]);
+  });
+
+  it('builds nested paths', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { voice: { type: 'object', properties: { settings: { type: 'object', properties: { speed: { type: 'number', maximum: 4 } } } } } },
+    };
+    expect(validateSchema({ voice: { settings: { speed: 9 } } }, schema)).toEqual([
+      { path: '$.voice.settings.speed', message: 'Must be <= 4' },
+    ]);
+  });
+
+  it('skips properties set to undefined', () => {
+    const schema: JsonSchema = { type: 'object', properties: { name: { type: 'string' } } };
+    expect(validateSchema({ name: undefined }, schema)).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Session Memory
+ *
+ * Persists each chat session's transcript in KV and replays it into the
+ * LLM context. Once the transcript outgrows the history budget, the oldest
+ * turns are rolled up into a running summary instead of being dropped.
+ * A session belongs to the user that started it; only that user may
+ * continue it or draw on its transcript.
+ */
+
+import { log } from './logger';
+import type { Env, LLMMessage } from './types';
+
+export interface SessionTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+export interface SessionRecord {
+  sessionId: string;
+  // Owner; unset for sessions started without a user (or before ownership was recorded)
+  userId?: string;
+  summary: string;
+  summarizedTurns: number;
+  turns: SessionTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type Summarizer = (previousSummary: string, turns: SessionTurn[]) => Promise<string>;
+
+// Sessions expire after 30 days without activity
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+// Rough heuristic for English text; good enough for budgeting
+const CHARS_PER_TOKEN = 4;
+// Turns that are never rolled into the summary
+const MIN_RECENT_TURNS = 4;
+
+function sessionKey(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function turnTokens(turns: SessionTurn[]): number {
+  return turns.reduce((total, turn) => total + estimateTokens(turn.content), 0);
+}
+
+// A session without an owner is open to whoever continues it first
+export function isSessionOwner(session: SessionRecord, userId?: string): boolean {
+  return !session.userId || session.userId === userId;
+}
+
+// Whether `userId` may use `sessionId`; an unknown id starts a new session, so it is allowed
+export async function canAccessSession(env: Env, sessionId: string, userId?: string): Promise<boolean> {
+  const stored = await env.AGENT_STORE.get(sessionKey(sessionId), 'json') as SessionRecord | null;
+  return !stored || isSessionOwner(stored, userId);
+}
+
+/**
+ * Load a session transcript, or start a fresh one owned by `userId`. An
+ * unowned session is claimed by `userId` when it is next saved.
+ */
+export async function loadSession(env: Env, sessionId: string, userId?: string): Promise<SessionRecord> {
+  const stored = await env.AGENT_STORE.get(sessionKey(sessionId), 'json') as SessionRecord | null;
+  if (stored) {
+    log('info', 'Session', 'Loaded', { sessionId, turns: stored.turns.length, hasSummary: !!stored.summary });
+    if (!stored.userId && userId) stored.userId = userId;
+    return stored;
+  }
+
+  log('info', 'Session', 'Starting new session', { sessionId });
+  const now = new Date().toISOString();
+  return {
+    sessionId,
+    userId,
+    summary: '',
+    summarizedTurns: 0,
+    turns: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function saveSession(env: Env, session: SessionRecord): Promise<void> {
+  session.updatedAt = new Date().toISOString();
+  await env.AGENT_STORE.put(sessionKey(session.sessionId), JSON.stringify(session), {
+    expirationTtl: SESSION_TTL_SECONDS,
+  });
+  log('debug', 'Session', 'Saved', { sessionId: session.sessionId, turns: session.turns.length });
+}
+
+export function appendTurn(session: SessionRecord, role: SessionTurn['role'], content: string): void {
+  session.turns.push({ role, content, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Build the history messages replayed before the current user message:
+ * the running summary (if any) followed by the newest turns that fit the budget.
+ */
+export function buildHistory(session: SessionRecord, tokenBudget: number): LLMMessage[] {
+  const history: LLMMessage[] = [];
+  let remaining = tokenBudget;
+
+  if (session.summary) {
+    history.push({ role: 'system', content: `Summary of earlier conversation:\n${session.summary}` });
+    remaining -= estimateTokens(session.summary);
+  }
+
+  const recent: LLMMessage[] = [];
+  for (let i = session.turns.length - 1; i >= 0; i--) {
+    const turn = session.turns[i];
+    const cost = estimateTokens(turn.content);
+    if (cost > remaining) break;
+    remaining -= cost;
+    recent.unshift({ role: turn.role, content: turn.content });
+  }
+
+  const omitted = session.turns.length - recent.length;
+  if (omitted > 0) {
+    log('warn', 'Session', 'History trimmed to budget', { sessionId: session.sessionId, omitted });
+  }
+
+  return [...history, ...recent];
+}
+
+/**
+ * Roll the oldest turns into the running summary once the transcript exceeds
+ * the budget. Keeps the newest turns (at least MIN_RECENT_TURNS) within half
+ * the budget so the next few exchanges fit without compacting again.
+ */
+export async function compactSession(
+  session: SessionRecord,
+  tokenBudget: number,
+  summarize: Summarizer
+): Promise<void> {
+  if (turnTokens(session.turns) + estimateTokens(session.summary) <= tokenBudget) {
+    return;
+  }
+
+  let keep = 0;
+  let kept = 0;
+  for (let i = session.turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(session.turns[i].content);
+    if (keep >= MIN_RECENT_TURNS && kept + cost > tokenBudget / 2) break;
+    kept += cost;
+    keep++;
+  }
+
+  const older = session.turns.slice(0, session.turns.length - keep);
+  if (older.length === 0) {
+    return;
+  }
+
+  log('info', 'Session', 'Compacting transcript', { sessionId: session.sessionId, rollingUp: older.length });
+
+  try {
+    session.summary = await summarize(session.summary, older);
+    session.summarizedTurns += older.length;
+    session.turns = session.turns.slice(older.length);
+    log('info', 'Session', 'Transcript compacted', {
+      sessionId: session.sessionId,
+      summarizedTurns: session.summarizedTurns,
+      remainingTurns: session.turns.length,
+    });
+  } catch (error) {
+    // Keep the full transcript; buildHistory trims it until the next attempt succeeds
+    log('warn', 'Session', 'Summarization failed, keeping transcript', {
+      sessionId: session.sessionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
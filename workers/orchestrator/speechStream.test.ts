@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { createSentenceChunker, createSpeechPipeline } from './speechStream';
+
+// Feed text in small deltas, as an LLM stream would
+function chunkStreamed(text: string, maxChunkChars: number, deltaSize: number = 3): string[] {
+  const chunker = createSentenceChunker(maxChunkChars);
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += deltaSize) {
+    chunks.push(...chunker.push(text.slice(i, i + deltaSize)));
+  }
+  return [...chunks, ...chunker.flush()];
+}
+
+describe('createSentenceChunker', () => {
+  it('sends the first sentence alone and packs the rest up to the limit', () => {
+    const text = 'Hello there. How are you today? I hope well. Let us talk. About sleep.';
+    expect(chunkStreamed(text, 40)).toEqual([
+      'Hello there.',
+      'How are you today? I hope well.',
+      'Let us talk. About sleep.',
+    ]);
+  });
+
+  it('gives the same chunks however the text is split', () => {
+    const text = 'First one! Second one. Third "quoted." Fourth (aside.) Fifth.';
+    expect(chunkStreamed(text, 30, 1)).toEqual(chunkStreamed(text, 30, text.length));
+  });
+
+  it('holds back an unfinished sentence until flush', () => {
+    const chunker = createSentenceChunker(100);
+    expect(chunker.push('Hi. This is not')).toEqual(['Hi.']);
+    expect(chunker.push(' done')).toEqual([]);
+    expect(chunker.flush()).toEqual(['This is not done']);
+    expect(chunker.flush()).toEqual([]);
+  });
+
+  it('keeps citation markers with their sentence', () => {
+    expect(chunkStreamed('Breathing helps. [1] Sleep too. [2, 3] Done.', 100)).toEqual([
+      'Breathing helps. [1]',
+      'Sleep too. [2, 3] Done.',
+    ]);
+  });
+
+  it('breaks at paragraph breaks', () => {
+    expect(chunkStreamed('A heading\n\nSome text without a stop', 100)).toEqual(['A heading', 'Some text without a stop']);
+  });
+
+  it('cuts overlong sentences at a comma or space', () => {
+    const chunks = chunkStreamed('one two three four five six seven eight nine ten, eleven twelve.', 20);
+    expect(chunks.every(chunk => chunk.length <= 20)).toBe(true);
+    expect(chunks.join(' ')).toBe('one two three four five six seven eight nine ten, eleven twelve.');
+  });
+});
+
+describe('createSpeechPipeline', () => {
+  const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('delivers in push order even when later chunks finish first', async () => {
+    const delivered: string[] = [];
+    const pipeline = createSpeechPipeline({
+      concurrency: 3,
+      synthesize: async (text, index) => {
+        await tick([30, 10, 0][index]);
+        return text.toUpperCase();
+      },
+      deliver: async (result, index) => {
+        delivered.push(`${index}:${result}`);
+      },
+    });
+    ['a', 'b', 'c'].forEach(pipeline.push);
+    expect(await pipeline.finish()).toBe(3);
+    expect(delivered).toEqual(['0:A', '1:B', '2:C']);
+  });
+
+  it('runs at most `concurrency` syntheses at once', async () => {
+    let active = 0;
+    let peak = 0;
+    const pipeline = createSpeechPipeline({
+      concurrency: 2,
+      synthesize: async text => {
+        peak = Math.max(peak, ++active);
+        await tick(5);
+        active--;
+        return text;
+      },
+      deliver: async () => {},
+    });
+    ['a', 'b', 'c', 'd', 'e'].forEach(pipeline.push);
+    expect(await pipeline.finish()).toBe(5);
+    expect(peak).toBe(2);
+  });
+
+  it('skips failed chunks and keeps going', async () => {
+    const delivered: number[] = [];
+    const pipeline = createSpeechPipeline({
+      concurrency: 2,
+      synthesize: async (text, index) => {
+        if (index === 1) throw new Error('TTS down');
+        return text;
+      },
+      deliver: async (_, index) => {
+        delivered.push(index);
+      },
+    });
+    ['a', 'b', 'c'].forEach(pipeline.push);
+    expect(await pipeline.finish()).toBe(2);
+    expect(delivered).toEqual([0, 2]);
+  });
+
+  it('finishes at once with nothing pushed', async () => {
+    const pipeline = createSpeechPipeline({ concurrency: 1, synthesize: async text => text, deliver: async () => {} });
+    expect(await pipeline.finish()).toBe(0);
+  });
+
+  it('drops undelivered chunks on cancel', async () => {
+    const delivered: number[] = [];
+    const pipeline = createSpeechPipeline({
+      concurrency: 1,
+      synthesize: async text => {
+        await tick(5);
+        return text;
+      },
+      deliver: async (_, index) => {
+        delivered.push(index);
+      },
+    });
+    ['a', 'b', 'c'].forEach(pipeline.push);
+    await tick(8);
+    pipeline.cancel();
+    pipeline.push('d');
+    expect(await pipeline.finish()).toBe(1);
+    await tick(20);
+    expect(delivered).toEqual([0]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Chunked Speech
+ *
+ * Long replies are voiced sentence by sentence instead of in one provider
+ * request: a chunker cuts (possibly still streaming) text at sentence
+ * boundaries, and a pipeline synthesizes the chunks with bounded concurrency
+ * while delivering results strictly in order. The first chunk is a single
+ * sentence so playback can start as early as possible.
+ */
+
+import { log } from './logger';
+import type { AgentConfig } from './types';
+
+export interface SpeechStreamingConfig {
+  enabled: boolean;
+  maxChunkChars: number;
+  concurrency: number;
+}
+
+// Mirrors voice.streaming in configs/agent.json
+export const DEFAULT_SPEECH_STREAMING: SpeechStreamingConfig = {
+  enabled: true,
+  maxChunkChars: 400,
+  concurrency: 3,
+};
+
+export function resolveSpeechStreaming(config: AgentConfig): SpeechStreamingConfig {
+  return { ...DEFAULT_SPEECH_STREAMING, ...config.voice?.streaming };
+}
+
+// End of a sentence (terminal punctuation, closing quotes/brackets, then space) or a paragraph break
+const BOUNDARY = /[.!?]+["')\]]*(?:\s*\[\d+(?:\s*,\s*\d+)*\])?\s+|\n{2,}/g;
+// What may follow a boundary before it is complete: nothing yet, or the start of a citation marker
+const PARTIAL_BOUNDARY_TAIL = /^(?:\[[\d,\s]*)?$/;
+
+export interface SentenceChunker {
+  // Add streamed text; returns any chunks that are now complete
+  push(text: string): string[];
+  // End of input; returns whatever is left
+  flush(): string[];
+}
+
+export function createSentenceChunker(maxChunkChars: number = DEFAULT_SPEECH_STREAMING.maxChunkChars): SentenceChunker {
+  let buffer = '';
+  let pending = '';
+  let emitted = 0;
+
+  // Overlong sentences are cut at the last comma or space before the limit
+  const split = (text: string): string[] => {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > maxChunkChars) {
+      const window = rest.slice(0, maxChunkChars);
+      const cut = Math.max(window.lastIndexOf(', ') + 1, window.lastIndexOf(' '));
+      const at = cut > maxChunkChars / 2 ? cut : maxChunkChars;
+      pieces.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    return rest.trim() ? [...pieces, rest.trim()] : pieces;
+  };
+
+  // Sentences are packed into chunks, except the first which goes out alone
+  const addSentence = (sentence: string, chunks: string[]) => {
+    if (emitted === 0 && !pending) {
+      chunks.push(...split(sentence));
+      emitted++;
+      return;
+    }
+    if (pending && pending.length + sentence.length + 1 > maxChunkChars) {
+      chunks.push(...split(pending));
+      emitted++;
+      pending = '';
+    }
+    pending = pending ? `${pending} ${sentence}` : sentence;
+  };
+
+  return {
+    push(text) {
+      buffer += text;
+      const chunks: string[] = [];
+      let start = 0;
+      for (const match of buffer.matchAll(BOUNDARY)) {
+        const end = match.index! + match[0].length;
+        // Wait for more text while the boundary could still grow: a citation marker or more newlines
+        if (PARTIAL_BOUNDARY_TAIL.test(buffer.slice(end))) break;
+        const sentence = buffer.slice(start, end).trim();
+        if (sentence) addSentence(sentence, chunks);
+        start = end;
+      }
+      buffer = buffer.slice(start);
+      return chunks;
+    },
+    flush() {
+      const chunks: string[] = [];
+      if (buffer.trim()) addSentence(buffer.trim(), chunks);
+      if (pending) chunks.push(...split(pending));
+      buffer = '';
+      pending = '';
+      return chunks;
+    },
+  };
+}
+
+export interface SpeechPipeline {
+  push(text: string): void;
+  // Drop chunks not yet delivered; later pushes are ignored
+  cancel(): void;
+  // Resolves once every pushed chunk has been delivered (or failed), or right after a cancel
+  finish(): Promise<number>;
+}
+
+/**
+ * Run `synthesize` over pushed chunks, at most `concurrency` at a time, and
+ * hand results to `deliver` in push order. A failed chunk is logged and
+ * skipped so the rest of the reply is still voiced.
+ */
+export function createSpeechPipeline<T>(options: {
+  concurrency: number;
+  synthesize: (text: string, index: number) => Promise<T>;
+  deliver: (result: T, index: number, text: string) => Promise<void>;
+}): SpeechPipeline {
+  const queue: Array<{ index: number; text: string }> = [];
+  const results = new Map<number, { ok: true; value: T } | { ok: false }>();
+  const texts: string[] = [];
+  let active = 0;
+  let nextToDeliver = 0;
+  let delivered = 0;
+  let delivery = Promise.resolve();
+  let drained: (() => void) | null = null;
+  let cancelled = false;
+
+  const deliverReady = () => {
+    delivery = delivery.then(async () => {
+      while (!cancelled && results.has(nextToDeliver)) {
+        const index = nextToDeliver++;
+        const result = results.get(index)!;
+        results.delete(index);
+        if (!result.ok) continue;
+        try {
+          await options.deliver(result.value, index, texts[index]);
+          delivered++;
+        } catch (error) {
+          log('warn', 'SpeechStream', 'Chunk delivery failed', { index, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+      if (drained && nextToDeliver === texts.length) drained();
+    });
+  };
+
+  const startNext = () => {
+    while (active < options.concurrency && queue.length) {
+      const { index, text } = queue.shift()!;
+      active++;
+      options.synthesize(text, index)
+        .then(value => results.set(index, { ok: true, value }))
+        .catch(error => {
+          log('warn', 'SpeechStream', 'Chunk failed', { index, error: error instanceof Error ? error.message : 'Unknown error' });
+          results.set(index, { ok: false });
+        })
+        .finally(() => {
+          active--;
+          deliverReady();
+          startNext();
+        });
+    }
+  };
+
+  return {
+    push(text) {
+      if (cancelled) return;
+      const index = texts.length;
+      texts.push(text);
+      queue.push({ index, text });
+      log('debug', 'SpeechStream', 'Chunk queued', { index, length: text.length });
+      startNext();
+    },
+    cancel() {
+      cancelled = true;
+      queue.length = 0;
+      log('info', 'SpeechStream', 'Cancelled', { chunks: texts.length, delivered });
+      drained?.();
+    },
+    async finish() {
+      if (!cancelled && nextToDeliver < texts.length) {
+        await new Promise<void>(resolve => {
+          drained = resolve;
+        });
+      }
+      await delivery;
+      log('info', 'SpeechStream', 'All chunks delivered', { chunks: texts.length, delivered });
+      return delivered;
+    },
+  };
+}
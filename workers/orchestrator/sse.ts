@@ -0,0 +1,64 @@
+/**
+ * Server-Sent Events helpers
+ * Parses upstream provider streams and writes downstream client streams
+ */
+
+import { log } from './logger';
+
+// Yield the `data:` payload of every event in an SSE body
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, boundary).replace(/\r$/, '');
+        buffer = buffer.slice(boundary + 1);
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trimStart();
+        }
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trimStart();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface SSEWriter {
+  send(event: string, data: unknown): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Create a client-facing event stream; write to the writer, return the readable
+export function createSSEStream(): { readable: ReadableStream<Uint8Array>; writer: SSEWriter } {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  return {
+    readable,
+    writer: {
+      async send(event: string, data: unknown): Promise<void> {
+        await writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      },
+      async close(): Promise<void> {
+        try {
+          await writer.close();
+        } catch (error) {
+          log('debug', 'SSE', 'Stream already closed', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      },
+    },
+  };
+}
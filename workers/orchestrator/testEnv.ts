@@ -0,0 +1,123 @@
+/**
+ * Test Environment
+ * In-memory stand-ins for the worker bindings, for unit tests only
+ */
+
+import { UserClaim } from './auth';
+import { KnowledgeIndex } from './lexicon';
+import type { Env } from './types';
+
+interface StoredValue {
+  value: string;
+  metadata?: unknown;
+}
+
+// KV namespace backed by a Map; covers the calls the worker makes
+export function createMemoryKV(): KVNamespace & { entries: Map<string, StoredValue> } {
+  const entries = new Map<string, StoredValue>();
+  const read = (key: string, type?: unknown) => {
+    const stored = entries.get(key);
+    if (!stored) return null;
+    const format = typeof type === 'object' && type ? (type as { type?: string }).type : type;
+    return format === 'json' ? JSON.parse(stored.value) : stored.value;
+  };
+
+  const kv = {
+    entries,
+    async get(key: string, type?: unknown) {
+      return read(key, type);
+    },
+    async getWithMetadata(key: string, type?: unknown) {
+      return { value: read(key, type), metadata: entries.get(key)?.metadata ?? null };
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      entries.set(key, { value: String(value), metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options: { prefix?: string; cursor?: string; limit?: number } = {}) {
+      const names = [...entries.keys()].filter(name => name.startsWith(options.prefix || '')).sort();
+      const start = options.cursor ? parseInt(options.cursor) : 0;
+      const end = start + (options.limit || 1000);
+      const keys = names.slice(start, end).map(name => ({ name, metadata: entries.get(name)?.metadata }));
+      return end < names.length
+        ? { keys, list_complete: false, cursor: String(end) }
+        : { keys, list_complete: true };
+    },
+  };
+  return kv as unknown as KVNamespace & { entries: Map<string, StoredValue> };
+}
+
+// Durable Object state backed by a Map; blockConcurrencyWhile runs callers one at a time
+export function createMemoryState() {
+  const entries = new Map<string, unknown>();
+  let alarm: number | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  const keyList = (keys: string | string[]) => (Array.isArray(keys) ? keys : [keys]);
+
+  const storage = {
+    entries,
+    async get(keys: string | string[]) {
+      if (!Array.isArray(keys)) return structuredClone(entries.get(keys));
+      return new Map(keys.filter(key => entries.has(key)).map(key => [key, structuredClone(entries.get(key))]));
+    },
+    async put(key: string | Record<string, unknown>, value?: unknown) {
+      const updates = typeof key === 'string' ? { [key]: value } : key;
+      for (const [name, item] of Object.entries(updates)) {
+        entries.set(name, structuredClone(item));
+      }
+    },
+    async delete(keys: string | string[]) {
+      const deleted = keyList(keys).filter(key => entries.delete(key)).length;
+      return Array.isArray(keys) ? deleted : deleted > 0;
+    },
+    async list(options: { prefix?: string } = {}) {
+      return new Map([...entries].filter(([key]) => key.startsWith(options.prefix || '')).sort(([a], [b]) => a.localeCompare(b)));
+    },
+    async getAlarm() {
+      return alarm;
+    },
+    async setAlarm(time: number) {
+      alarm = time;
+    },
+  };
+
+  return {
+    storage,
+    blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+      const result = queue.then(callback);
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
+
+export type MemoryState = ReturnType<typeof createMemoryState>;
+
+// Durable Object namespace with one instance per name, as idFromName gives
+export function createMemoryNamespace<T extends DurableObject>(create: (state: DurableObjectState) => T) {
+  const instances = new Map<string, { object: T; state: MemoryState }>();
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      if (!instances.has(name)) {
+        const state = createMemoryState();
+        instances.set(name, { object: create(state as unknown as DurableObjectState), state });
+      }
+      const { object } = instances.get(name)!;
+      return { fetch: (url: string, init?: RequestInit) => object.fetch(new Request(url, init)) };
+    },
+  };
+  return { namespace: namespace as unknown as DurableObjectNamespace, instances };
+}
+
+// An Env with a memory KV, keyword index and user claims; other bindings come from `overrides`
+export function createTestEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    AGENT_STORE: createMemoryKV(),
+    KNOWLEDGE_INDEX: createMemoryNamespace(state => new KnowledgeIndex(state)).namespace,
+    USER_CLAIMS: createMemoryNamespace(state => new UserClaim(state)).namespace,
+    ...overrides,
+  } as Env;
+}
@@ -0,0 +1,92 @@
+/**
+ * Speech-to-Text
+ *
+ * Server-side transcription for browsers without the Web Speech API. The
+ * PWA records a short utterance and posts the raw audio body here; Workers
+ * AI Whisper returns the text.
+ */
+
+import { jsonResponse } from './http';
+import { log } from './logger';
+import { consumeBudget, RateLimitSubject } from './rateLimit';
+import type { AgentConfig, Env } from './types';
+
+export const TRANSCRIBE_MODEL = '@cf/openai/whisper';
+
+// The model takes the audio as a JSON number array, several times the
+// byte size in memory; 2 MB is minutes of compressed speech
+const MAX_AUDIO_BYTES = 2 * 1024 * 1024;
+
+export interface Transcription {
+  text: string;
+  wordCount?: number;
+}
+
+export async function transcribeAudio(env: Env, audio: Uint8Array): Promise<Transcription> {
+  log('info', 'Transcribe', 'Transcribing', { bytes: audio.byteLength });
+  const result = await env.AI.run(TRANSCRIBE_MODEL, {
+    audio: Array.from(audio),
+  }) as { text?: string; word_count?: number };
+
+  const text = (result.text || '').trim();
+  log('info', 'Transcribe', 'Transcription complete', { length: text.length, words: result.word_count });
+  return { text, wordCount: result.word_count };
+}
+
+/**
+ * The request body, or null once it passes `maxBytes`. A declared
+ * Content-Length over the limit is refused before reading; otherwise the
+ * stream is read until it ends or goes over, so an oversized upload is
+ * never buffered whole.
+ */
+async function readAudioBody(request: Request, maxBytes: number): Promise<Uint8Array | null> {
+  const declared = parseInt(request.headers.get('Content-Length') || '');
+  if (declared > maxBytes) return null;
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+
+  const audio = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    audio.set(part, offset);
+    offset += part.byteLength;
+  }
+  return audio;
+}
+
+// POST /transcribe with the recorded audio as the request body
+export async function handleTranscribeRequest(
+  request: Request,
+  env: Env,
+  config: AgentConfig,
+  subject: RateLimitSubject
+): Promise<Response> {
+  const contentType = request.headers.get('Content-Type') || '';
+  if (!contentType.startsWith('audio/') && !contentType.startsWith('video/webm') && contentType !== 'application/octet-stream') {
+    return jsonResponse({ error: 'Expected an audio body (e.g. audio/webm, audio/mp4, audio/wav)' }, 415);
+  }
+
+  const audio = await readAudioBody(request, MAX_AUDIO_BYTES);
+  if (!audio) {
+    return jsonResponse({ error: `Audio must be at most ${MAX_AUDIO_BYTES} bytes` }, 413);
+  }
+  if (audio.byteLength === 0) {
+    return jsonResponse({ error: 'Empty audio body' }, 400);
+  }
+  await consumeBudget(env, config, 'transcribe', subject);
+
+  return jsonResponse(await transcribeAudio(env, audio));
+}
@@ -0,0 +1,362 @@
+/**
+ * TTS Provider Registry
+ *
+ * Each provider turns a YAIP speech script into MP3 audio. Synthesis runs
+ * down an ordered chain of targets (`voice.ttsProvider`, then
+ * `voice.fallback`): any error, timeout or missing credential moves on to the
+ * next target. The script is rendered per target, since providers differ in
+ * the markup they accept. Each target's audio is looked up in the R2 TTS
+ * cache before the provider is called.
+ */
+
+import { recordAnalytics } from './analytics';
+import { log } from './logger';
+import { fetchPow3rPassCredential } from './pow3rPass';
+import { CachedSpeech, getCachedSpeech, putCachedSpeech, recordCacheHit, recordCacheMiss, speechCacheKey } from './ttsCache';
+import type { AgentConfig, Env, TTSTarget, VoiceSettings } from './types';
+import type { CharacterAlignment } from './visemes';
+import { dialectFor, processForSpeech, SpeechScript } from './yaip';
+
+export interface TTSParams {
+  settings: VoiceSettings;
+  // Ask for character timing (providers that cannot supply it ignore this)
+  timestamps: boolean;
+}
+
+// All providers return MP3
+export interface TTSAudio {
+  audio: ArrayBuffer;
+  alignment?: CharacterAlignment;
+}
+
+export interface TTSResult extends TTSAudio {
+  script: SpeechScript;
+  provider: string;
+  voiceId?: string;
+  // R2 key of the cached copy, when caching is enabled
+  cacheKey?: string;
+  cached: boolean;
+}
+
+// Per-request overrides; voiceId applies to the primary target only
+export interface TTSOverrides {
+  voiceId?: string;
+  settings?: VoiceSettings;
+  timestamps?: boolean;
+}
+
+export interface TTSProvider {
+  name: string;
+  // Can return character timing
+  alignment?: boolean;
+  synthesize(
+    target: TTSTarget,
+    script: SpeechScript,
+    params: TTSParams,
+    env: Env,
+    signal: AbortSignal
+  ): Promise<TTSAudio>;
+}
+
+export class TTSProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'TTSProviderError';
+  }
+}
+
+export const DEFAULT_TTS_TIMEOUT_MS = 20000;
+
+// Voice ids can end up in a provider URL path, so overrides are limited to these characters
+export const VOICE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function isValidVoiceId(voiceId: unknown): voiceId is string {
+  return typeof voiceId === 'string' && VOICE_ID_PATTERN.test(voiceId);
+}
+
+const providers = new Map<string, TTSProvider>();
+
+export function registerTTSProvider(provider: TTSProvider): void {
+  providers.set(provider.name, provider);
+  log('debug', 'TTS', 'Provider registered', { provider: provider.name });
+}
+
+// Primary target from config (env as fallback), followed by the configured fallback chain
+export function resolveTTSTargets(config: AgentConfig, env: Env, overrides: TTSOverrides = {}): TTSTarget[] {
+  const voice = config.voice;
+  const primary: TTSTarget = {
+    provider: voice?.ttsProvider || env.TTS_PROVIDER || 'elevenlabs',
+    voiceId: overrides.voiceId || voice?.voiceId || undefined,
+    model: voice?.model,
+    baseUrl: voice?.baseUrl,
+  };
+  return [primary, ...(voice?.fallback || [])];
+}
+
+export function resolveVoiceSettings(config: AgentConfig, overrides: TTSOverrides = {}): VoiceSettings {
+  return { ...config.voice?.settings, ...overrides.settings };
+}
+
+function isCacheEnabled(config: AgentConfig): boolean {
+  return config.voice?.cache?.enabled !== false;
+}
+
+/**
+ * Cached audio for the primary target, left as an R2 body so it can be
+ * streamed. Returns null on a miss; synthesizeSpeech then records the miss.
+ */
+export async function openCachedSpeech(
+  text: string,
+  env: Env,
+  ctx: ExecutionContext,
+  config: AgentConfig,
+  overrides: TTSOverrides = {}
+): Promise<(CachedSpeech & { provider: string }) | null> {
+  if (!isCacheEnabled(config)) return null;
+
+  const [target] = resolveTTSTargets(config, env, overrides);
+  const script = processForSpeech(text, config.voice, dialectFor(target.provider));
+  const key = await speechCacheKey(target, script, resolveVoiceSettings(config, overrides));
+  const cached = await getCachedSpeech(env, key, false);
+  if (!cached) return null;
+
+  recordCacheHit(env, ctx, cached.object.size, script.markup.length);
+  return { ...cached, provider: target.provider };
+}
+
+// Synthesize `text`, failing over along the configured chain
+export async function synthesizeSpeech(
+  text: string,
+  env: Env,
+  ctx: ExecutionContext,
+  config: AgentConfig,
+  overrides: TTSOverrides = {}
+): Promise<TTSResult> {
+  const targets = resolveTTSTargets(config, env, overrides);
+  const params: TTSParams = { settings: resolveVoiceSettings(config, overrides), timestamps: !!overrides.timestamps };
+  const timeoutMs = config.voice?.timeoutMs ?? DEFAULT_TTS_TIMEOUT_MS;
+  const useCache = isCacheEnabled(config);
+  let lastError: unknown = new TTSProviderError('No TTS providers configured');
+
+  for (const [index, target] of targets.entries()) {
+    const provider = providers.get(target.provider);
+    if (!provider) {
+      log('warn', 'TTS', 'Unknown provider, skipping', { provider: target.provider });
+      lastError = new TTSProviderError(`Unknown TTS provider: ${target.provider}`);
+      continue;
+    }
+
+    const script = processForSpeech(text, config.voice, dialectFor(target.provider));
+
+    const cacheKey = useCache ? await speechCacheKey(target, script, params.settings) : undefined;
+    if (cacheKey) {
+      const cached = await getCachedSpeech(env, cacheKey, params.timestamps && !!provider.alignment);
+      if (cached) {
+        const audio = await cached.object.arrayBuffer();
+        recordCacheHit(env, ctx, audio.byteLength, script.markup.length);
+        return { audio, alignment: cached.alignment, script, provider: target.provider, voiceId: target.voiceId, cacheKey, cached: true };
+      }
+      recordCacheMiss(env, ctx);
+    }
+
+    log('info', 'TTS', 'Calling provider', { provider: target.provider, voiceId: target.voiceId, attempt: index + 1, textLength: script.markup.length });
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new TTSProviderError(`${target.provider} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([provider.synthesize(target, script, params, env, controller.signal), timeout]);
+      log('info', 'TTS', 'Synthesis complete', { provider: target.provider, bytes: result.audio.byteLength, aligned: !!result.alignment });
+      await recordAnalytics(env, [{ type: 'tts', characters: text.length }]);
+      const stored = cacheKey && await putCachedSpeech(env, cacheKey, result.audio, target, result.alignment)
+        .then(() => true)
+        .catch(error => {
+          log('warn', 'TTS', 'Cache write failed', { cacheKey, error: error instanceof Error ? error.message : 'Unknown error' });
+          return false;
+        });
+      return { ...result, script, provider: target.provider, voiceId: target.voiceId, cacheKey: stored ? cacheKey : undefined, cached: false };
+    } catch (error) {
+      log('warn', 'TTS', 'Provider failed', {
+        provider: target.provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      lastError = error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+export function fromBase64(data: string): ArrayBuffer {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+async function resolveApiKey(envKey: string | undefined, credential: string, env: Env): Promise<string | null> {
+  return envKey || await fetchPow3rPassCredential(credential, env);
+}
+
+async function httpError(provider: string, response: Response): Promise<TTSProviderError> {
+  const errorText = await response.text();
+  log('error', 'TTS', 'API error', { provider, status: response.status, error: errorText });
+  return new TTSProviderError(`TTS API error (${provider}): ${response.status}`, response.status);
+}
+
+// Speed from the settings, otherwise the YAIP prosody speed
+function effectiveSpeed(script: SpeechScript, settings: VoiceSettings): number {
+  return settings.speed ?? script.speed;
+}
+
+// ElevenLabs text-to-speech, with character timing on request
+const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io/v1';
+
+const elevenLabsProvider: TTSProvider = {
+  name: 'elevenlabs',
+  alignment: true,
+  async synthesize(target, script, params, env, signal) {
+    const apiKey = await resolveApiKey(env.ELEVENLABS_API_KEY, target.credential || 'elevenlabs', env);
+    if (!apiKey) {
+      throw new TTSProviderError('No API key configured for elevenlabs. Please add ELEVENLABS_API_KEY via Pow3r Pass.');
+    }
+
+    const voiceId = target.voiceId || 'EXAVITQu4vr4xnSDxMaL';
+    const speed = effectiveSpeed(script, params.settings);
+    const endpoint = `${target.baseUrl || ELEVENLABS_BASE_URL}/text-to-speech/${encodeURIComponent(voiceId)}${params.timestamps ? '/with-timestamps' : ''}`;
+    log('info', 'TTS', 'Calling ElevenLabs', { voiceId, speed, timestamps: params.timestamps });
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'xi-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        text: script.markup,
+        model_id: target.model || 'eleven_multilingual_v2',
+        voice_settings: {
+          stability: params.settings.stability ?? 0.5,
+          similarity_boost: params.settings.similarityBoost ?? 0.75,
+          ...(params.settings.style !== undefined ? { style: params.settings.style } : {}),
+          ...(speed !== 1 ? { speed } : {}),
+        },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await httpError('elevenlabs', response);
+    }
+
+    if (params.timestamps) {
+      const data = await response.json() as { audio_base64: string; alignment?: CharacterAlignment };
+      return { audio: fromBase64(data.audio_base64), alignment: data.alignment };
+    }
+    return { audio: await response.arrayBuffer() };
+  },
+};
+
+// OpenAI /audio/speech wire format (OpenAI and compatible gateways)
+function openAICompatibleProvider(name: string, options: {
+  baseUrl: (env: Env) => string | undefined;
+  apiKey: (env: Env) => string | undefined;
+  requireKey: boolean;
+}): TTSProvider {
+  return {
+    name,
+    async synthesize(target, script, params, env, signal) {
+      const baseUrl = target.baseUrl || options.baseUrl(env);
+      if (!baseUrl) {
+        throw new TTSProviderError(`No base URL configured for ${name}`);
+      }
+
+      const apiKey = await resolveApiKey(options.apiKey(env), target.credential || name, env);
+      if (!apiKey && options.requireKey) {
+        throw new TTSProviderError(`No API key configured for ${name}. Please add it via Pow3r Pass.`);
+      }
+
+      const endpoint = `${baseUrl.replace(/\/$/, '')}/audio/speech`;
+      log('info', 'TTS', 'Calling API', { endpoint, model: target.model, voiceId: target.voiceId });
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: target.model || 'tts-1',
+          input: script.markup,
+          voice: target.voiceId || 'alloy',
+          response_format: 'mp3',
+          speed: effectiveSpeed(script, params.settings),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await httpError(name, response);
+      }
+      return { audio: await response.arrayBuffer() };
+    },
+  };
+}
+
+// Cloudflare Workers AI through the AI binding (no API key required)
+type WorkersAIRunner = { run(model: string, inputs: Record<string, unknown>): Promise<unknown> };
+
+const WORKERS_AI_TTS_MODEL = '@cf/deepgram/aura-1';
+
+const workersAIProvider: TTSProvider = {
+  name: 'workers-ai',
+  async synthesize(target, script, _params, env) {
+    const model = target.model || WORKERS_AI_TTS_MODEL;
+    log('info', 'TTS', 'Calling Workers AI', { model, voiceId: target.voiceId });
+
+    // MeloTTS takes a prompt and language; Aura takes text and a speaker
+    const inputs = model.includes('melotts')
+      ? { prompt: script.markup, lang: 'en' }
+      : { text: script.markup, ...(target.voiceId ? { speaker: target.voiceId } : {}) };
+
+    let result: unknown;
+    try {
+      result = await (env.AI as unknown as WorkersAIRunner).run(model, inputs);
+    } catch (error) {
+      throw new TTSProviderError(`Workers AI error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Audio arrives either as a byte stream or as base64 in `audio`
+    if (result instanceof ReadableStream) {
+      return { audio: await new Response(result).arrayBuffer() };
+    }
+    const audio = (result as { audio?: string } | null)?.audio;
+    if (!audio) {
+      throw new TTSProviderError(`Workers AI returned no audio for ${model}`);
+    }
+    return { audio: fromBase64(audio) };
+  },
+};
+
+registerTTSProvider(elevenLabsProvider);
+registerTTSProvider(openAICompatibleProvider('openai', {
+  baseUrl: () => 'https://api.openai.com/v1',
+  apiKey: env => env.OPENAI_API_KEY,
+  requireKey: true,
+}));
+registerTTSProvider(openAICompatibleProvider('openai-compatible', {
+  baseUrl: env => env.TTS_BASE_URL,
+  apiKey: env => env.TTS_API_KEY,
+  requireKey: false,
+}));
+registerTTSProvider(workersAIProvider);
@@ -0,0 +1,102 @@
+/**
+ * TTS Cache
+ *
+ * Synthesized speech is content-addressed in R2: the key is a SHA-256 of the
+ * normalized speech markup plus everything that changes the audio (provider,
+ * voice, model, settings, speed). Identical requests, such as the fixed
+ * greeting, are served from R2 instead of paying the provider again.
+ * Character timing for lip sync is stored next to the audio. Entries expire
+ * with the rest of the synthesized audio (see cleanupExpiredAudio).
+ */
+
+import { recordAnalytics } from './analytics';
+import { log } from './logger';
+import type { Env, TTSTarget, VoiceSettings } from './types';
+import type { CharacterAlignment } from './visemes';
+import type { SpeechScript } from './yaip';
+
+const CACHE_PREFIX = 'tts-cache/';
+// Bump to invalidate every cached entry (e.g. after a markup change)
+const CACHE_VERSION = 1;
+
+export interface CachedSpeech {
+  key: string;
+  object: R2ObjectBody;
+  alignment?: CharacterAlignment;
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// Stable JSON: sorted keys, undefined dropped
+function canonicalSettings(settings: VoiceSettings): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(settings)
+      .filter((entry): entry is [string, number] => entry[1] !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+export async function speechCacheKey(target: TTSTarget, script: SpeechScript, settings: VoiceSettings): Promise<string> {
+  const material = JSON.stringify({
+    v: CACHE_VERSION,
+    provider: target.provider,
+    voiceId: target.voiceId || null,
+    model: target.model || null,
+    baseUrl: target.baseUrl || null,
+    settings: canonicalSettings(settings),
+    speed: script.speed,
+    text: normalizeText(script.markup),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  const hash = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${CACHE_PREFIX}${hash}.mp3`;
+}
+
+function alignmentKey(key: string): string {
+  return key.replace(/\.mp3$/, '.alignment.json');
+}
+
+/**
+ * Cached audio for `key`, or null. With `needsAlignment`, an entry stored
+ * without character timing counts as a miss so it gets re-synthesized.
+ */
+export async function getCachedSpeech(env: Env, key: string, needsAlignment: boolean): Promise<CachedSpeech | null> {
+  const object = await env.ASSETS.get(key);
+  if (!object) return null;
+
+  if (!needsAlignment) return { key, object };
+
+  const alignment = object.customMetadata?.aligned === 'true'
+    ? await (await env.ASSETS.get(alignmentKey(key)))?.json<CharacterAlignment>()
+    : undefined;
+  if (!alignment) {
+    // Release the body we are not going to use
+    await object.body.cancel();
+    return null;
+  }
+  return { key, object, alignment };
+}
+
+export async function putCachedSpeech(env: Env, key: string, audio: ArrayBuffer, target: TTSTarget, alignment?: CharacterAlignment): Promise<void> {
+  await Promise.all([
+    env.ASSETS.put(key, audio, {
+      httpMetadata: { contentType: 'audio/mpeg' },
+      customMetadata: { provider: target.provider, voiceId: target.voiceId || '', aligned: String(!!alignment) },
+    }),
+    ...(alignment ? [env.ASSETS.put(alignmentKey(key), JSON.stringify(alignment), { httpMetadata: { contentType: 'application/json' } })] : []),
+  ]);
+  log('info', 'TTSCache', 'Stored', { key, bytes: audio.byteLength, aligned: !!alignment });
+}
+
+// Counted in analytics after the response, so a cache hit is not slowed down
+export function recordCacheHit(env: Env, ctx: ExecutionContext, bytes: number, characters: number): void {
+  log('info', 'TTSCache', 'Hit', { bytes, characters });
+  ctx.waitUntil(recordAnalytics(env, [{ type: 'tts-cache', hit: true, bytes, characters }]));
+}
+
+export function recordCacheMiss(env: Env, ctx: ExecutionContext): void {
+  log('info', 'TTSCache', 'Miss');
+  ctx.waitUntil(recordAnalytics(env, [{ type: 'tts-cache', hit: false }]));
+}
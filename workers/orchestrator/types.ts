@@ -0,0 +1,135 @@
+/**
+ * Maxi Orchestrator Types
+ * Shared between the worker entry point and its subsystems
+ */
+
+import type { SafetyCategory } from '../../shared/agentConfig';
+
+// The config model is shared with the PWA
+export type {
+  AgentConfig,
+  ContentPolicy,
+  CrisisResource,
+  ExpressionConfig,
+  GuardianGate,
+  IntegrationConfig,
+  LipSyncConfig,
+  LLMTarget,
+  ProsodySetting,
+  RateLimitRule,
+  SafetyCategory,
+  SsmlConfig,
+  TTSTarget,
+  VectorConfig,
+  VisualConfig,
+  VoiceSettings,
+  YaipProfile,
+} from '../../shared/agentConfig';
+
+export interface Env {
+  // KV Namespace
+  AGENT_STORE: KVNamespace;
+  // Vectorize
+  VECTORS: Vectorize;
+  // R2 Bucket
+  ASSETS: R2Bucket;
+  // AI Binding
+  AI: Ai;
+  // Durable Object holding the analytics counters
+  ANALYTICS: DurableObjectNamespace;
+  // Durable Objects holding the rate limit counters, one per subject
+  RATE_LIMITER: DurableObjectNamespace;
+  // Durable Object holding the knowledge keyword index
+  KNOWLEDGE_INDEX: DurableObjectNamespace;
+  // Durable Objects recording device user id claims, one per id
+  USER_CLAIMS: DurableObjectNamespace;
+  // Secrets (from Pow3r Pass or wrangler secret)
+  XAI_API_KEY?: string;
+  ELEVENLABS_API_KEY?: string;
+  GEMINI_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  // Key and base URL for the `openai-compatible` LLM provider
+  LLM_API_KEY?: string;
+  LLM_BASE_URL?: string;
+  // Key and base URL for the `openai-compatible` TTS provider
+  TTS_API_KEY?: string;
+  TTS_BASE_URL?: string;
+  // HMAC key for signed /assets URLs (generated and kept in KV when unset)
+  ASSET_SIGNING_KEY?: string;
+  // HMAC key for end-user session tokens (generated and kept in KV when unset)
+  AUTH_SIGNING_KEY?: string;
+  // Comma-separated admin API keys for config, knowledge and MCP access
+  ADMIN_API_KEYS?: string;
+  // Config
+  AGENT_ID: string;
+  AGENT_NAME: string;
+  LLM_PROVIDER: string;
+  LLM_MODEL: string;
+  TTS_PROVIDER: string;
+  ENVIRONMENT: string;
+}
+
+export interface ChatRequest {
+  message: string;
+  sessionId?: string;
+  // Set by the worker from the session token; scopes per-user context
+  userId?: string;
+  includeVoice?: boolean;
+  stream?: boolean;
+  // Set by the worker from the caller's country (ISO 3166-1 alpha-2); picks crisis resources
+  region?: string;
+}
+
+// A knowledge chunk the reply cited
+export interface ChatSource {
+  // The [n] marker used in the reply text
+  citation: number;
+  id: string;
+  docId?: string;
+  title: string;
+  section?: string;
+  score: number;
+  snippet: string;
+}
+
+// Mouth shape over a span of the audio, in milliseconds
+export interface VisemeCue {
+  viseme: string;
+  start: number;
+  end: number;
+  // Blend time into this cue
+  transition: number;
+}
+
+export interface VisemeTimeline {
+  duration: number;
+  cues: VisemeCue[];
+}
+
+export interface ChatResponse {
+  text: string;
+  audioUrl?: string;
+  visemes?: VisemeTimeline;
+  sessionId: string;
+  sources?: ChatSource[];
+  metadata?: {
+    model: string;
+    tokensUsed: number;
+    retrievalCount: number;
+  };
+  // Set when the content-safety gate replaced the reply with the crisis protocol
+  safety?: {
+    stage: SafetyStage;
+    categories: SafetyCategory[];
+  };
+  // First reply of a session, when the content policy requires a disclaimer
+  disclaimer?: string;
+}
+
+// Which text tripped the gate: the user's message or the model's draft reply
+export type SafetyStage = 'input' | 'output';
+
+export interface LLMMessage {
+  role: string;
+  content: string;
+}
@@ -0,0 +1,153 @@
+/**
+ * Viseme Timeline
+ *
+ * Maps character-level timing from the TTS provider onto the 15 Oculus
+ * visemes (sil, PP, FF, TH, DD, kk, CH, SS, nn, RR, aa, E, ih, oh, ou) and
+ * smooths the result per `visual.lipSync`, so the avatar's mouth follows
+ * the audio without flickering through every letter.
+ */
+
+import { log } from './logger';
+import type { LipSyncConfig, VisemeCue, VisemeTimeline } from './types';
+
+// Character timing as returned by ElevenLabs `with-timestamps`
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export const DEFAULT_LIP_SYNC: LipSyncConfig = {
+  mode: 'viseme',
+  transitionDuration: 100,
+  smoothing: 0.6,
+  visemeMapping: { enabled: true, phonemeSource: 'tts' },
+};
+
+const DIGRAPHS: Record<string, string> = {
+  th: 'TH', sh: 'CH', ch: 'CH', ph: 'FF', ng: 'kk', ck: 'kk', wh: 'ou',
+  oo: 'ou', ou: 'ou', ow: 'ou', ee: 'E', ea: 'E',
+};
+
+// null: no distinct mouth shape, the neighbouring cue absorbs the time
+const LETTERS: Record<string, string | null> = {
+  a: 'aa', e: 'E', i: 'ih', o: 'oh', u: 'ou', y: 'ih',
+  b: 'PP', m: 'PP', p: 'PP',
+  f: 'FF', v: 'FF',
+  d: 'DD', t: 'DD', l: 'DD',
+  n: 'nn',
+  c: 'kk', g: 'kk', k: 'kk', q: 'kk', x: 'kk',
+  s: 'SS', z: 'SS',
+  j: 'CH',
+  r: 'RR',
+  w: 'ou',
+  h: null,
+};
+
+// Speaking-rate estimate when only the text is available
+const ESTIMATED_CHAR_MS = 65;
+const PAUSE_WEIGHT = 4;
+
+/**
+ * Spread an audio duration over the text's characters, giving punctuation
+ * extra weight for pauses. Used when the provider returns no timing.
+ */
+export function estimateAlignment(text: string, durationMs?: number): CharacterAlignment {
+  const characters = [...text];
+  const weights = characters.map(char => (/[.,!?;:]/.test(char) ? PAUSE_WEIGHT : 1));
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0) || 1;
+  const unit = (durationMs ?? totalWeight * ESTIMATED_CHAR_MS) / totalWeight / 1000;
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let time = 0;
+  for (const weight of weights) {
+    starts.push(time);
+    time += weight * unit;
+    ends.push(time);
+  }
+  return { characters, character_start_times_seconds: starts, character_end_times_seconds: ends };
+}
+
+function pushCue(cues: VisemeCue[], viseme: string, start: number, end: number): void {
+  const last = cues[cues.length - 1];
+  if (last && last.viseme === viseme) {
+    last.end = end;
+  } else {
+    cues.push({ viseme, start, end, transition: 0 });
+  }
+}
+
+// Raw per-character cues; markup tags (e.g. <break/>) become silence
+function mapCharacters(alignment: CharacterAlignment): VisemeCue[] {
+  const { characters: chars, character_start_times_seconds: starts, character_end_times_seconds: ends } = alignment;
+  const cues: VisemeCue[] = [];
+  const ms = (seconds: number) => Math.round(seconds * 1000);
+
+  let i = 0;
+  while (i < chars.length) {
+    const char = chars[i].toLowerCase();
+
+    if (char === '<') {
+      const close = chars.indexOf('>', i);
+      const last = close === -1 ? chars.length - 1 : close;
+      pushCue(cues, 'sil', ms(starts[i]), ms(ends[last]));
+      i = last + 1;
+      continue;
+    }
+
+    const digraph = DIGRAPHS[char + (chars[i + 1] || '').toLowerCase()];
+    if (digraph) {
+      pushCue(cues, digraph, ms(starts[i]), ms(ends[i + 1]));
+      i += 2;
+      continue;
+    }
+
+    const viseme = char in LETTERS ? LETTERS[char] : /[.,!?;:\n]/.test(char) ? 'sil' : null;
+    if (viseme) {
+      pushCue(cues, viseme, ms(starts[i]), ms(ends[i]));
+    } else if (cues.length) {
+      cues[cues.length - 1].end = ms(ends[i]);
+    }
+    i++;
+  }
+  return cues;
+}
+
+/**
+ * Build the smoothed timeline: cues shorter than transitionDuration x
+ * smoothing are folded into their longer neighbour, runs of the same shape
+ * merge, and each cue carries the blend time the front end should use.
+ */
+export function buildVisemeTimeline(alignment: CharacterAlignment, lipSync: LipSyncConfig = DEFAULT_LIP_SYNC): VisemeTimeline {
+  const raw = mapCharacters(alignment);
+  const minDuration = lipSync.transitionDuration * lipSync.smoothing;
+
+  const smoothed: VisemeCue[] = [];
+  raw.forEach((cue, index) => {
+    const short = cue.end - cue.start < minDuration && cue.viseme !== 'sil';
+    const previous = smoothed[smoothed.length - 1];
+    if (short && previous) {
+      previous.end = cue.end;
+      return;
+    }
+    if (short && raw[index + 1]) {
+      // Nothing before it: hand the time to the next cue instead
+      raw[index + 1].start = cue.start;
+      return;
+    }
+    pushCue(smoothed, cue.viseme, cue.start, cue.end);
+  });
+
+  for (const cue of smoothed) {
+    cue.transition = Math.round(Math.min(lipSync.transitionDuration, (cue.end - cue.start) / 2));
+  }
+
+  const ends = alignment.character_end_times_seconds;
+  const timeline = {
+    duration: Math.round((ends[ends.length - 1] || 0) * 1000),
+    cues: smoothed,
+  };
+  log('debug', 'Visemes', 'Timeline built', { characters: alignment.characters.length, raw: raw.length, cues: smoothed.length });
+  return timeline;
+}
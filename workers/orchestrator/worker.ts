@@ -8,81 +8,88 @@
  * - No mock data
  */
 
-export interface Env {
-  // KV Namespace
-  AGENT_STORE: KVNamespace;
-  // Vectorize
-  VECTORS: Vectorize;
-  // R2 Bucket
-  ASSETS: R2Bucket;
-  // AI Binding
-  AI: Ai;
-  // Secrets (from Pow3r Pass or wrangler secret)
-  XAI_API_KEY?: string;
-  ELEVENLABS_API_KEY?: string;
-  GEMINI_API_KEY?: string;
-  // Config
-  AGENT_ID: string;
-  AGENT_NAME: string;
-  LLM_PROVIDER: string;
-  LLM_MODEL: string;
-  TTS_PROVIDER: string;
-  ENVIRONMENT: string;
-}
+import {
+  checkInGoal,
+  createGoal,
+  getGoalsContext,
+  GOAL_CADENCES,
+  GOAL_STATUSES,
+  handleGoalsRequest,
+  listGoals,
+  updateGoal,
+  validateGoalInput,
+} from './goals';
+import { AnalyticsEvent, DateRange, getAnalytics, parseDateRange, recordAnalytics } from './analytics';
+import { cleanupExpiredAudio, handleAssetRequest, signAssetUrl, storeAudio } from './assets';
+import { authenticate, authError, handleSessionRequest, hasRole, requiredRole } from './auth';
+import { handleConfigRequest, loadAgentConfig } from './configVersions';
+import { runOutputGates } from './guardian';
+import { corsHeaders, jsonResponse } from './http';
+import {
+  createJournalEntry,
+  generateJournalPrompt,
+  getJournalEntry,
+  handleJournalRequest,
+  listJournalEntries,
+  searchJournalEntries,
+  updateJournalEntry,
+} from './journal';
+import {
+  citedSources,
+  formatKnowledgeContext,
+  handleKnowledgeRequest,
+  KnowledgeChunkMetadata,
+  KnowledgeResult,
+  resolveRetrievalOptions,
+  searchKnowledge,
+  stripCitations,
+} from './knowledge';
+import { completeChat, streamChat } from './llm';
+import { log } from './logger';
+import { handleMcpHttp, McpResourceSource, McpServer, McpTool } from './mcp';
+import { getMoodContext, getMoodHistory, getMoodTrends, handleMoodRequest, recordMoodCheckIn, validateMoodInput } from './mood';
+import { fetchPow3rPassCredential } from './pow3rPass';
+import { consumeBudget, RateLimitError, rateLimitResponse, RateLimitSubject, rateLimitSubject } from './rateLimit';
+import { appendTurn, buildHistory, canAccessSession, compactSession, estimateTokens, loadSession, saveSession, SessionRecord, SessionTurn } from './session';
+import {
+  crisisReply,
+  handleSafetyRequest,
+  isSafetyGateEnabled,
+  recordSafetyEvent,
+  requestRegion,
+  screenMessage,
+  screenReply,
+  sessionDisclaimer,
+} from './safety';
+import { createSentenceChunker, createSpeechPipeline, resolveSpeechStreaming } from './speechStream';
+import { createSSEStream } from './sse';
+import { handleTranscribeRequest } from './transcribe';
+import { isValidVoiceId, openCachedSpeech, synthesizeSpeech, TTSOverrides, TTSResult, VOICE_ID_PATTERN } from './tts';
+import type { AgentConfig, ChatRequest, ChatResponse, Env, LipSyncConfig, LLMMessage, SafetyStage, VisemeTimeline, VoiceSettings } from './types';
+import { buildVisemeTimeline, DEFAULT_LIP_SYNC, estimateAlignment } from './visemes';
+import { processForSpeech } from './yaip';
 
-interface ChatRequest {
-  message: string;
-  sessionId?: string;
-  includeVoice?: boolean;
-  stream?: boolean;
-}
+export type { Env } from './types';
+export { AgentAnalytics } from './analytics';
+export { UserClaim } from './auth';
+export { KnowledgeIndex } from './lexicon';
+export { RateLimiter } from './rateLimit';
 
-interface ChatResponse {
-  text: string;
-  audioUrl?: string;
-  sessionId: string;
-  metadata?: {
-    model: string;
-    tokensUsed: number;
-    retrievalCount: number;
-  };
-}
+// Typical TTS MP3 bitrate (ElevenLabs' default mp3_44100_128), used to estimate audio duration
+const MP3_KBPS = 128;
 
-interface AgentConfig {
-  agentId: string;
-  version: string;
-  persona: {
-    name: string;
-    role: string;
-    systemPrompt: string;
-    greeting: string;
-  };
-  voice: {
-    enabled: boolean;
-    ttsProvider: string;
-  };
-  capabilities: {
-    llm: {
-      provider: string;
-      model: string;
-    };
-  };
-  lastUpdated: string;
-}
+// Reported as the model for crisis-protocol replies that skipped the LLM
+const SAFETY_PROTOCOL_MODEL = 'safety-protocol';
 
-// CORS headers
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Agent-ID',
-};
+// Sent instead of a draft reply that fails a required Guardian output gate
+const GUARDIAN_BLOCKED_REPLY = "I'm sorry, I can't share the reply I came up with. Could you rephrase that, or tell me a bit more about what you need?";
 
-// Logger utility
-function log(level: 'info' | 'warn' | 'error' | 'debug', component: string, message: string, data?: unknown): void {
-  const timestamp = new Date().toISOString();
-  const logData = data ? JSON.stringify(data) : '';
-  console.log(`[${timestamp}] [${level.toUpperCase()}] [${component}] ${message} ${logData}`);
-}
+// Chat defaults (mirrors capabilities.chat in configs/agent.json)
+const DEFAULT_CHAT_CAPABILITIES = {
+  streaming: true,
+  maxTokens: 4096,
+  contextWindow: 128000,
+};
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -97,6 +104,14 @@ export default {
     const path = url.pathname;
 
     try {
+      // Authenticate and check the role the route requires
+      const principal = await authenticate(request, env);
+      const role = requiredRole(request.method, path);
+      if (!hasRole(principal, role)) {
+        log('warn', 'Worker', 'Access denied', { path, required: role, role: principal.role });
+        return authError(principal, role);
+      }
+
       // Health check
       if (path === '/health' || path === '/') {
         log('info', 'Worker', 'Health check');
@@ -108,83 +123,186 @@ export default {
         });
       }
 
+      // End-user session tokens
+      if (path === '/auth/session' && request.method === 'POST') {
+        log('info', 'Worker', 'Session request', { refresh: !!principal.userId });
+        return handleSessionRequest(request, env, principal);
+      }
+
       // Chat endpoint
       if (path === '/chat' && request.method === 'POST') {
         const body = await request.json() as ChatRequest;
-        log('info', 'Worker', 'Chat request', { messageLength: body.message?.length });
-        const response = await handleChat(body, env, ctx);
+        body.userId = principal.userId;
+        body.region = requestRegion(request);
+        log('info', 'Worker', 'Chat request', { messageLength: body.message?.length, stream: !!body.stream });
+        const config = await loadAgentConfig(env);
+        if (!isChatEnabled(config)) {
+          return jsonResponse({ error: 'Chat is disabled' }, 403);
+        }
+        if (body.sessionId && !await canAccessSession(env, body.sessionId, principal.userId)) {
+          log('warn', 'Worker', 'Session belongs to another user', { path });
+          return jsonResponse({ error: 'Session belongs to another user' }, 403);
+        }
+        const subject = rateLimitSubject(request, principal.userId, body.sessionId);
+        await consumeBudget(env, config, 'chat', subject);
+        // Streaming can be switched off via capabilities.chat.streaming
+        if (body.stream && (config.capabilities.chat?.streaming ?? DEFAULT_CHAT_CAPABILITIES.streaming)) {
+          return handleChatStream(body, env, ctx, url.origin, subject);
+        }
+        const response = await handleChat(body, env, ctx, url.origin, subject);
         return jsonResponse(response);
       }
 
+      // Journal endpoints
+      if (path === '/journal' || path.startsWith('/journal/')) {
+        const userId = principal.userId;
+        if (!userId) {
+          return jsonResponse({ error: 'Requires a user session' }, 400);
+        }
+        log('info', 'Worker', 'Journal request', { method: request.method, path });
+        if (path === '/journal/prompt' && request.method === 'POST') {
+          const { sessionId } = await request.clone().json().catch(() => ({})) as { sessionId?: string };
+          if (sessionId && !await canAccessSession(env, sessionId, userId)) {
+            log('warn', 'Worker', 'Session belongs to another user', { path });
+            return jsonResponse({ error: 'Session belongs to another user' }, 403);
+          }
+        }
+        return handleJournalRequest(request, url, env, userId, await loadAgentConfig(env));
+      }
+
+      // Mood endpoints
+      if (path === '/mood' || path.startsWith('/mood/')) {
+        const userId = principal.userId;
+        if (!userId) {
+          return jsonResponse({ error: 'Requires a user session' }, 400);
+        }
+        log('info', 'Worker', 'Mood request', { method: request.method, path });
+        return handleMoodRequest(request, url, env, userId);
+      }
+
+      // Goal endpoints
+      if (path === '/goals' || path.startsWith('/goals/')) {
+        const userId = principal.userId;
+        if (!userId) {
+          return jsonResponse({ error: 'Requires a user session' }, 400);
+        }
+        log('info', 'Worker', 'Goals request', { method: request.method, path });
+        return handleGoalsRequest(request, url, env, userId);
+      }
+
       // Voice endpoint
       if (path === '/voice' && request.method === 'POST') {
-        const { text, voiceId } = await request.json() as { text: string; voiceId?: string };
-        log('info', 'Worker', 'Voice synthesis request', { textLength: text?.length });
-        const audioBuffer = await synthesizeVoice(text, env, voiceId);
+        const { text, voiceId, settings, visemes, stream } = await request.json() as { text: string; voiceId?: string; settings?: VoiceSettings; visemes?: boolean; stream?: boolean };
+        log('info', 'Worker', 'Voice synthesis request', { textLength: text?.length, visemes: !!visemes, stream: !!stream });
+        if (voiceId !== undefined && !isValidVoiceId(voiceId)) {
+          return jsonResponse({ error: 'voiceId may only contain letters, digits, "_" and "-"' }, 400);
+        }
+        const config = await loadAgentConfig(env);
+        if (!isVoiceOutputEnabled(config)) {
+          return jsonResponse({ error: 'Voice output is disabled' }, 403);
+        }
+        await consumeBudget(env, config, 'ttsCharacters', rateLimitSubject(request, principal.userId), text?.length || 0);
+        if (stream) {
+          return streamVoice(text, env, ctx, config, { voiceId, settings });
+        }
+        if (visemes) {
+          const result = await synthesizeWithVisemes(text, env, ctx, config, getLipSync(config) || DEFAULT_LIP_SYNC, { voiceId, settings });
+          return jsonResponse({ audio: toBase64(result.audio), mimeType: 'audio/mpeg', provider: result.provider, visemes: result.visemes });
+        }
+        // Cached audio streams straight from R2
+        const cached = await openCachedSpeech(text, env, ctx, config, { voiceId, settings });
+        const { audio: audioBuffer, provider, cached: hit } = cached
+          ? { audio: cached.object.body, provider: cached.provider, cached: true }
+          : await synthesizeSpeech(text, env, ctx, config, { voiceId, settings });
         return new Response(audioBuffer, {
           headers: {
             ...corsHeaders,
             'Content-Type': 'audio/mpeg',
+            'X-TTS-Provider': provider,
+            'X-TTS-Cache': hit ? 'HIT' : 'MISS',
+            'Access-Control-Expose-Headers': 'X-TTS-Provider, X-TTS-Cache',
           },
         });
       }
 
+      // Speech-to-text for voice input
+      if (path === '/transcribe' && request.method === 'POST') {
+        const config = await loadAgentConfig(env);
+        if (!isVoiceInputEnabled(config)) {
+          return jsonResponse({ error: 'Voice input is disabled' }, 403);
+        }
+        log('info', 'Worker', 'Transcription request', { contentType: request.headers.get('Content-Type') });
+        return handleTranscribeRequest(request, env, config, rateLimitSubject(request, principal.userId));
+      }
+
+      // Voice script endpoint - the processed speech script, without synthesis
+      if (path === '/voice/script' && request.method === 'POST') {
+        const { text } = await request.json() as { text: string };
+        log('info', 'Worker', 'Voice script request', { textLength: text?.length });
+        const config = await loadAgentConfig(env);
+        return jsonResponse(processForSpeech(text || '', config.voice));
+      }
+
       // Search endpoint
       if (path === '/search' && request.method === 'POST') {
         const { query, limit } = await request.json() as { query: string; limit?: number };
         log('info', 'Worker', 'Knowledge search', { query });
-        const results = await searchKnowledge(query, env, limit || 5);
+        const options = resolveRetrievalOptions(await loadAgentConfig(env), limit ? { topK: limit } : {});
+        const results = await searchKnowledge(query, env, options);
         return jsonResponse({ results });
       }
 
-      // Config endpoint - GET
-      if (path === '/config' && request.method === 'GET') {
-        log('info', 'Worker', 'Fetching config');
-        const config = await env.AGENT_STORE.get('agent-config', 'json');
-        if (!config) {
-          // Return default config
-          const defaultConfig = getDefaultConfig(env);
-          await env.AGENT_STORE.put('agent-config', JSON.stringify(defaultConfig));
-          log('info', 'Worker', 'Created default config');
-          return jsonResponse(defaultConfig);
-        }
-        return jsonResponse(config);
+      // Knowledge base management
+      if (path.startsWith('/knowledge/')) {
+        log('info', 'Worker', 'Knowledge request', { method: request.method, path });
+        return handleKnowledgeRequest(request, url, env, await loadAgentConfig(env));
+      }
+
+      // Config, its version history, diffs and rollback
+      if (path === '/config' || path.startsWith('/config/')) {
+        log('info', 'Worker', 'Config request', { method: request.method, path });
+        return handleConfigRequest(request, url, env, principal);
       }
 
-      // Config endpoint - PUT (for self-healing tests)
-      if (path === '/config' && request.method === 'PUT') {
-        const config = await request.json() as AgentConfig;
-        log('info', 'Worker', 'Saving config', { agentId: config.agentId });
-        config.lastUpdated = new Date().toISOString();
-        await env.AGENT_STORE.put('agent-config', JSON.stringify(config));
-        log('info', 'Worker', 'Config saved successfully');
-        return jsonResponse({ success: true, config });
+      // Content-safety audit trail
+      if (path.startsWith('/safety/')) {
+        log('info', 'Worker', 'Safety request', { method: request.method, path });
+        return handleSafetyRequest(request, url, env);
+      }
+
+      // Signed audio delivery
+      if (path.startsWith('/assets/')) {
+        log('info', 'Worker', 'Asset request', { method: request.method, range: request.headers.get('Range') });
+        return handleAssetRequest(request, url, env);
       }
 
       // Status endpoint
       if (path === '/status') {
-        log('info', 'Worker', 'Status request');
-        const stats = await getAgentStats(env);
+        const range = parseDateRange(url.searchParams);
+        log('info', 'Worker', 'Status request', { range });
+        if (!range) {
+          return jsonResponse({ error: 'from and to must be YYYY-MM-DD dates, at most 366 days apart' }, 400);
+        }
+        const stats = await getAgentStats(env, range);
         return jsonResponse(stats);
       }
 
-      // MCP endpoint
-      if (path === '/mcp' && request.method === 'POST') {
-        const mcpRequest = await request.json();
-        log('info', 'Worker', 'MCP request', { method: mcpRequest.method });
-        const mcpResponse = await handleMCP(mcpRequest, env, ctx);
-        return jsonResponse(mcpResponse);
+      // MCP endpoint (Streamable HTTP)
+      if (path === '/mcp') {
+        log('info', 'Worker', 'MCP request', { method: request.method });
+        const config = await loadAgentConfig(env);
+        if (request.method === 'POST') {
+          await consumeBudget(env, config, 'mcp', mcpRateLimitSubject(request));
+        }
+        return handleMcpHttp(request, env, ctx, configuredMcpServer(config));
       }
 
-      // Pow3r Pass proxy (for credential resolution)
+      // Pow3r Pass availability check - reports whether a credential resolves, never the secret
       if (path.startsWith('/pow3r-pass/')) {
         const provider = path.replace('/pow3r-pass/', '');
-        log('info', 'Worker', 'Pow3r Pass credential request', { provider });
-        const credential = await fetchPow3rPassCredential(provider);
-        if (credential) {
-          return jsonResponse({ token: credential });
-        }
-        return jsonResponse({ error: 'Credential not found' }, 404);
+        log('info', 'Worker', 'Pow3r Pass credential check', { provider });
+        const credential = await fetchPow3rPassCredential(provider, env);
+        return jsonResponse({ provider, available: !!credential });
       }
 
       // Not found
@@ -192,6 +310,10 @@ export default {
       return jsonResponse({ error: 'Not found' }, 404);
 
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        return rateLimitResponse(error);
+      }
+      ctx.waitUntil(recordAnalytics(env, [{ type: 'error', kind: path.split('/')[1] || 'root' }]));
       log('error', 'Worker', 'Request error', { error: error instanceof Error ? error.message : 'Unknown error' });
       return jsonResponse({
         error: 'Internal server error',
@@ -199,320 +321,758 @@ export default {
       }, 500);
     }
   },
+
+  // Cron trigger (wrangler.toml) - expire synthesized audio
+  async scheduled(event: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    log('info', 'Worker', 'Scheduled run', { cron: event.cron });
+    ctx.waitUntil(cleanupExpiredAudio(env));
+  },
 };
 
-// Get default config
-function getDefaultConfig(env: Env): AgentConfig {
-  return {
-    agentId: 'maxi',
-    version: '1.0.0',
-    persona: {
-      name: env.AGENT_NAME || 'Maxi',
-      role: 'Wellness Coach',
-      systemPrompt: 'You are Maxi, a compassionate wellness coach specializing in mental health, psychology, relationships, dating, self-improvement, power dynamics, decision making, and behavior change. You combine warmth with directness - you are supportive but also honest.',
-      greeting: "Hey there! I'm Maxi, your wellness coach. I'm here to help you navigate relationships, mental health, and personal growth. What's on your mind today?",
-    },
-    voice: {
-      enabled: true,
-      ttsProvider: 'elevenlabs',
-    },
-    capabilities: {
-      llm: {
-        provider: env.LLM_PROVIDER || 'xai',
-        model: env.LLM_MODEL || 'grok-2',
-      },
-    },
-    lastUpdated: new Date().toISOString(),
-  };
+// Off only when capabilities.chat.enabled is false
+function isChatEnabled(config: AgentConfig): boolean {
+  return config.capabilities.chat?.enabled !== false;
 }
 
-// Chat handler
-async function handleChat(request: ChatRequest, env: Env, ctx: ExecutionContext): Promise<ChatResponse> {
+// Spoken replies need voice on and neither voice capability switch off
+function isVoiceOutputEnabled(config: AgentConfig): boolean {
+  const voice = config.capabilities.voice;
+  return config.voice.enabled && voice?.enabled !== false && voice?.outputEnabled !== false;
+}
+
+function isVoiceInputEnabled(config: AgentConfig): boolean {
+  const voice = config.capabilities.voice;
+  return voice?.enabled !== false && voice?.inputEnabled !== false;
+}
+
+// The persona's prompt, followed by the persona, knowledge and audience fields that shape it
+function buildSystemPrompt(config: AgentConfig): string {
+  const { persona } = config;
+  const personality = Object.entries(persona.personality || {});
+  const audience = config.voice.yaipProfile?.audienceProfiling;
+  return [
+    persona.systemPrompt || `You are ${persona.name}, a ${persona.role}.`,
+    persona.traits?.length ? `Your character traits: ${persona.traits.join(', ')}.` : '',
+    personality.length ? `Your personality (${audience?.psychologicModel || 'OCEAN'} scores, 0-1): ${personality.map(([trait, score]) => `${trait} ${score}`).join(', ')}.` : '',
+    config.knowledge?.domain ? `Your areas of expertise: ${config.knowledge.domain}.` : '',
+    audience?.adaptiveMode && audience.targetPersona ? `Adapt your tone and examples to a ${audience.targetPersona} audience.` : '',
+    persona.farewell ? `When the user says goodbye, close warmly in the spirit of: "${persona.farewell}"` : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+// Everything a chat turn needs before the LLM is called
+interface PreparedChat {
+  request: ChatRequest;
+  sessionId: string;
+  session: SessionRecord;
+  config: AgentConfig;
+  messages: LLMMessage[];
+  historyBudget: number;
+  knowledge: KnowledgeResult[];
+  // Public origin of the worker, for absolute audio URLs
+  origin: string;
+  // Caller the reply's TTS characters are counted against
+  subject: RateLimitSubject;
+  // For the reply latency recorded in analytics
+  startedAt: number;
+}
+
+// Load memory, knowledge and config, and assemble the LLM messages
+async function prepareChat(request: ChatRequest, env: Env, origin: string, subject: RateLimitSubject): Promise<PreparedChat> {
+  const startedAt = Date.now();
   const sessionId = request.sessionId || crypto.randomUUID();
-  log('info', 'Chat', 'Processing chat', { sessionId, includeVoice: request.includeVoice });
+  log('info', 'Chat', 'Processing chat', { sessionId, includeVoice: request.includeVoice, stream: !!request.stream });
+  
+  // Load conversation memory
+  const session = await loadSession(env, sessionId, request.userId);
+  
+  // Load agent config
+  const config = await loadAgentConfig(env);
   
   // Retrieve relevant knowledge
-  const knowledge = await searchKnowledge(request.message, env, 5);
+  const knowledge = await searchKnowledge(request.message, env, resolveRetrievalOptions(config));
   log('info', 'Chat', 'Knowledge retrieved', { count: knowledge.length });
   
   // Build context
-  const context = knowledge.map(k => k.text).join('\n\n');
+  const context = formatKnowledgeContext(knowledge);
   
-  // Load agent config
-  const configRaw = await env.AGENT_STORE.get('agent-config');
-  const config = configRaw ? JSON.parse(configRaw) : getDefaultConfig(env);
-  const systemPrompt = config.persona?.systemPrompt || `You are ${env.AGENT_NAME}, a wellness coach.`;
-  
-  // Get API key (from env or Pow3r Pass)
-  const apiKey = env.XAI_API_KEY || await fetchPow3rPassCredential('xai');
-  if (!apiKey) {
-    log('error', 'Chat', 'No API key available');
-    throw new Error('No API key configured. Please add XAI_API_KEY via Pow3r Pass.');
-  }
+  const systemPrompt = buildSystemPrompt(config);
   
-  // Call xAI/Grok
-  log('info', 'Chat', 'Calling LLM', { provider: env.LLM_PROVIDER, model: env.LLM_MODEL });
-  const response = await callLLM({
-    provider: env.LLM_PROVIDER || 'xai',
-    model: env.LLM_MODEL || 'grok-2',
-    apiKey,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      ...(context ? [{ role: 'system', content: `Relevant knowledge:\n${context}` }] : []),
-      { role: 'user', content: request.message },
-    ],
-  });
-  log('info', 'Chat', 'LLM response received', { textLength: response.text.length });
+  // Per-user context from tracking features
+  const [moodContext, goalsContext] = request.userId
+    ? await Promise.all([getMoodContext(env, request.userId), getGoalsContext(env, request.userId)])
+    : [null, null];
   
-  // Update stats
-  await incrementStat(env, 'messages');
+  // Replay as much of the transcript as the context window allows
+  const preamble: LLMMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...(context ? [{ role: 'system', content: context }] : []),
+    ...(moodContext ? [{ role: 'system', content: moodContext }] : []),
+    ...(goalsContext ? [{ role: 'system', content: goalsContext }] : []),
+  ];
+  const current: LLMMessage = { role: 'user', content: request.message };
+  const historyBudget = getHistoryBudget(config, [...preamble, current]);
+  const history = buildHistory(session, historyBudget);
+  log('info', 'Chat', 'History assembled', { sessionId, historyMessages: history.length, historyBudget });
   
-  // Optionally generate voice
+  return {
+    request,
+    sessionId,
+    session,
+    config,
+    messages: [...preamble, ...history, current],
+    historyBudget,
+    knowledge,
+    origin,
+    subject,
+    startedAt,
+  };
+}
+
+// Persist the turn, update stats and optionally voice the reply
+async function finishChat(
+  prepared: PreparedChat,
+  result: { text: string; tokensUsed?: number; model: string },
+  env: Env,
+  ctx: ExecutionContext,
+  options: { voiceStreamed?: boolean; safety?: ChatResponse['safety'] } = {}
+): Promise<ChatResponse> {
+  const { request, sessionId, session, config, historyBudget } = prepared;
+  const firstTurn = !session.turns.length && !session.summarizedTurns;
+  
+  // Persist both turns, rolling older ones into the summary when over budget
+  appendTurn(session, 'user', request.message);
+  appendTurn(session, 'assistant', stripCitations(result.text));
+  ctx.waitUntil(
+    compactSession(session, historyBudget, (summary, turns) => summarizeTurns(summary, turns, config, env))
+      .then(() => saveSession(env, session))
+      .catch(error => log('error', 'Chat', 'Session persist failed', { sessionId, error: error instanceof Error ? error.message : 'Unknown error' }))
+  );
+  
+  // Optionally generate voice (unless it was already streamed sentence by sentence)
+  const events: AnalyticsEvent[] = firstTurn ? [{ type: 'session' }] : [];
   let audioUrl: string | undefined;
-  if (request.includeVoice && config.voice?.enabled) {
+  let visemes: VisemeTimeline | undefined;
+  if (request.includeVoice && isVoiceOutputEnabled(config) && !options.voiceStreamed) {
     try {
       log('info', 'Chat', 'Generating voice');
-      const audioBuffer = await synthesizeVoice(response.text, env);
-      // Store in R2 temporarily
-      const audioKey = `audio/${sessionId}/${Date.now()}.mp3`;
-      await env.ASSETS.put(audioKey, audioBuffer);
-      audioUrl = `/assets/${audioKey}`;
-      log('info', 'Chat', 'Voice generated', { audioKey });
+      ({ audioUrl, visemes } = await voiceReply(result.text, env, ctx, config, prepared.origin, sessionId, prepared.subject));
     } catch (error) {
       log('warn', 'Chat', 'Voice generation failed', { error });
+      events.push({ type: 'error', kind: 'chat-voice' });
     }
   }
   
+  // Latency covers the whole turn, including any voice generated here
+  events.push({ type: 'message', tokens: result.tokensUsed || 0, latencyMs: Date.now() - prepared.startedAt, retrieved: prepared.knowledge.length > 0 });
+  ctx.waitUntil(recordAnalytics(env, events));
+  
+  const sources = citedSources(result.text, prepared.knowledge);
+  log('info', 'Chat', 'Sources cited', { sessionId, cited: sources.length, retrieved: prepared.knowledge.length });
+  
   return {
-    text: response.text,
+    text: result.text,
     audioUrl,
+    visemes,
     sessionId,
+    sources,
     metadata: {
-      model: env.LLM_MODEL || 'grok-2',
-      tokensUsed: response.tokensUsed || 0,
-      retrievalCount: knowledge.length,
+      model: result.model,
+      tokensUsed: result.tokensUsed || 0,
+      retrievalCount: prepared.knowledge.length,
     },
+    safety: options.safety,
+    disclaimer: firstTurn ? sessionDisclaimer(config) : undefined,
   };
 }
 
-// LLM call
-async function callLLM(options: {
-  provider: string;
-  model: string;
-  apiKey: string;
-  messages: Array<{ role: string; content: string }>;
-}): Promise<{ text: string; tokensUsed?: number }> {
-  const { provider, model, apiKey, messages } = options;
+// Content-safety gate: screen the message or draft reply and audit a hit
+async function checkSafety(prepared: PreparedChat, stage: SafetyStage, text: string, env: Env): Promise<ChatResponse['safety']> {
+  if (!isSafetyGateEnabled(prepared.config)) return undefined;
   
-  // xAI/Grok endpoint
-  const endpoint = provider === 'xai' 
-    ? 'https://api.x.ai/v1/chat/completions'
-    : 'https://api.openai.com/v1/chat/completions';
+  const screened = stage === 'input' ? screenMessage(text) : screenReply(text);
+  if (!screened.flagged) return undefined;
   
-  log('info', 'LLM', 'Calling API', { endpoint, model });
-  
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: 0.7,
-      max_tokens: 4096,
-    }),
+  await recordSafetyEvent(env, {
+    stage,
+    categories: screened.categories,
+    signals: screened.signals,
+    sessionId: prepared.sessionId,
+    userId: prepared.request.userId,
+    region: prepared.request.region || 'unknown',
   });
+  await recordAnalytics(env, [{ type: 'safety-flag' }]);
+  return { stage, categories: screened.categories };
+}
+
+// The crisis protocol reply for a flagged message, in place of an LLM result
+function crisisResult(prepared: PreparedChat, safety: NonNullable<ChatResponse['safety']>) {
+  return { text: crisisReply(safety.categories, prepared.request.region, prepared.config), model: SAFETY_PROTOCOL_MODEL };
+}
+
+// Review a draft reply: the content-safety gate, then the Guardian output gates
+// when enabled. Returns the text to send instead, or null to send the draft.
+async function reviewReply(prepared: PreparedChat, draft: string, env: Env): Promise<{ text: string; safety?: ChatResponse['safety'] } | null> {
+  const safety = await checkSafety(prepared, 'output', draft, env);
+  if (safety) {
+    return { text: crisisReply(safety.categories, prepared.request.region, prepared.config), safety };
+  }
   
-  if (!response.ok) {
-    const errorText = await response.text();
-    log('error', 'LLM', 'API error', { status: response.status, error: errorText });
-    throw new Error(`LLM API error: ${response.status}`);
+  if (prepared.config.guardian?.outputGates) {
+    const report = await runOutputGates(draft, prepared.config, env);
+    if (!report.passed) {
+      log('warn', 'Chat', 'Reply blocked by Guardian gates', { sessionId: prepared.sessionId, gates: report.gates.filter(gate => gate.status === 'failed').map(gate => gate.id) });
+      return { text: GUARDIAN_BLOCKED_REPLY };
+    }
+  }
+  return null;
+}
+
+// Synthesize reply audio and return a signed URL for it
+async function voiceReply(
+  text: string,
+  env: Env,
+  ctx: ExecutionContext,
+  config: AgentConfig,
+  origin: string,
+  sessionId: string,
+  subject: RateLimitSubject
+): Promise<{ audioUrl: string; visemes?: VisemeTimeline }> {
+  await consumeBudget(env, config, 'ttsCharacters', subject, text.length);
+  const lipSync = getLipSync(config);
+  const voiced: TTSResult & { visemes?: VisemeTimeline } = lipSync
+    ? await synthesizeWithVisemes(text, env, ctx, config, lipSync)
+    : await synthesizeSpeech(text, env, ctx, config);
+  // Serve the cached copy; otherwise store in R2 until the cleanup cron expires it
+  const audioUrl = voiced.cacheKey
+    ? await signAssetUrl(env, origin, voiced.cacheKey)
+    : await storeAudio(env, origin, sessionId, voiced.audio);
+  log('info', 'Chat', 'Voice generated', { provider: voiced.provider, cached: voiced.cached, visemeCues: voiced.visemes?.cues.length });
+  return { audioUrl, visemes: voiced.visemes };
+}
+
+// Chat handler
+async function handleChat(request: ChatRequest, env: Env, ctx: ExecutionContext, origin: string, subject: RateLimitSubject): Promise<ChatResponse> {
+  const prepared = await prepareChat(request, env, origin, subject);
+  
+  // A flagged message never reaches the LLM
+  const inputSafety = await checkSafety(prepared, 'input', request.message, env);
+  if (inputSafety) {
+    return finishChat(prepared, crisisResult(prepared, inputSafety), env, ctx, { safety: inputSafety });
   }
   
-  const data = await response.json() as any;
-  log('info', 'LLM', 'Response received', { tokensUsed: data.usage?.total_tokens });
+  // Call the configured provider chain
+  log('info', 'Chat', 'Calling LLM');
+  const response = await completeChat(prepared.config, env, prepared.messages);
+  log('info', 'Chat', 'LLM response received', { model: response.model, textLength: response.text.length });
   
-  return {
-    text: data.choices?.[0]?.message?.content || '',
-    tokensUsed: data.usage?.total_tokens,
-  };
+  const replacement = await reviewReply(prepared, response.text, env);
+  return finishChat(prepared, replacement ? { ...response, text: replacement.text } : response, env, ctx, { safety: replacement?.safety });
 }
 
-// Voice synthesis
-async function synthesizeVoice(text: string, env: Env, voiceId?: string): Promise<ArrayBuffer> {
-  const voice = voiceId || 'EXAVITQu4vr4xnSDxMaL'; // Default voice
+// Streaming chat handler - proxies token deltas as SSE, then a final `done` event
+async function handleChatStream(request: ChatRequest, env: Env, ctx: ExecutionContext, origin: string, subject: RateLimitSubject): Promise<Response> {
+  const prepared = await prepareChat(request, env, origin, subject);
   
-  // Get API key
-  const apiKey = env.ELEVENLABS_API_KEY || await fetchPow3rPassCredential('elevenlabs');
-  if (!apiKey) {
-    log('error', 'Voice', 'No ElevenLabs API key');
-    throw new Error('No ElevenLabs API key configured');
+  // A flagged message gets the crisis protocol as a plain JSON reply
+  const inputSafety = await checkSafety(prepared, 'input', request.message, env);
+  if (inputSafety) {
+    return jsonResponse(await finishChat(prepared, crisisResult(prepared, inputSafety), env, ctx, { safety: inputSafety }));
   }
   
-  log('info', 'Voice', 'Synthesizing', { textLength: text.length, voice });
+  // Open the upstream stream before responding so setup errors surface as HTTP errors
+  log('info', 'Chat', 'Calling LLM (streaming)');
+  const { model, deltas } = await streamChat(prepared.config, env, prepared.messages);
   
-  const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voice}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'xi-api-key': apiKey,
-    },
-    body: JSON.stringify({
-      text,
-      model_id: 'eleven_multilingual_v2',
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.75,
-      },
-    }),
+  const { readable, writer } = createSSEStream();
+  
+  // Guardian output gates judge the whole reply, so with them on nothing is
+  // sent before `done`, which then carries the text
+  const { config, sessionId } = prepared;
+  const buffered = !!config.guardian?.outputGates;
+  
+  // Voice sentence by sentence as the text arrives, as `audio` events in order
+  const speechStreaming = resolveSpeechStreaming(config);
+  const voiceChunks = !buffered && request.includeVoice && isVoiceOutputEnabled(config) && speechStreaming.enabled;
+  const chunker = createSentenceChunker(speechStreaming.maxChunkChars);
+  const speech = createSpeechPipeline({
+    concurrency: speechStreaming.concurrency,
+    synthesize: text => voiceReply(text, env, ctx, config, origin, sessionId, subject),
+    deliver: (voiced, index, text) => writer.send('audio', { index, text, ...voiced }),
   });
+  // The reply so far is screened before each delta is sent or voiced
+  const screenStream = isSafetyGateEnabled(config);
   
-  if (!response.ok) {
-    log('error', 'Voice', 'ElevenLabs error', { status: response.status });
-    throw new Error(`ElevenLabs API error: ${response.status}`);
-  }
+  ctx.waitUntil((async () => {
+    let text = '';
+    let tokensUsed: number | undefined;
+    try {
+      for await (const chunk of deltas) {
+        if (chunk.delta) {
+          text += chunk.delta;
+          if (screenStream && screenReply(text).flagged) {
+            log('warn', 'Chat', 'Reply flagged while streaming, stopping', { sessionId });
+            break;
+          }
+          if (!buffered) await writer.send('token', { text: chunk.delta });
+          if (voiceChunks) chunker.push(chunk.delta).forEach(speech.push);
+        }
+        if (chunk.tokensUsed) {
+          tokensUsed = chunk.tokensUsed;
+        }
+      }
+      log('info', 'Chat', 'LLM stream complete', { textLength: text.length });
+      
+      // A replaced draft is voiced whole instead of in chunks; its queued chunks are dropped
+      const replacement = await reviewReply(prepared, text, env);
+      let audioChunks: number | undefined;
+      if (voiceChunks) {
+        if (replacement) speech.cancel();
+        else chunker.flush().forEach(speech.push);
+        audioChunks = await speech.finish();
+      }
+      
+      // Fall back to a single clip if no chunk could be voiced
+      const response = replacement
+        ? await finishChat(prepared, { text: replacement.text, tokensUsed, model }, env, ctx, { safety: replacement.safety })
+        : await finishChat(prepared, { text, tokensUsed, model }, env, ctx, { voiceStreamed: !!audioChunks });
+      await writer.send('done', {
+        // Only sent when it differs from the streamed tokens
+        text: replacement || buffered ? response.text : undefined,
+        sessionId: response.sessionId,
+        audioUrl: response.audioUrl,
+        audioChunks: replacement ? undefined : audioChunks,
+        visemes: response.visemes,
+        sources: response.sources,
+        metadata: response.metadata,
+        safety: response.safety,
+        disclaimer: response.disclaimer,
+      });
+    } catch (error) {
+      log('error', 'Chat', 'Stream failed', { sessionId: prepared.sessionId, error: error instanceof Error ? error.message : 'Unknown error' });
+      await recordAnalytics(env, [{ type: 'error', kind: 'chat-stream' }]);
+      await writer.send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      await writer.close();
+    }
+  })());
   
-  log('info', 'Voice', 'Synthesis complete');
-  return response.arrayBuffer();
+  return new Response(readable, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
 }
 
-// Knowledge search
-async function searchKnowledge(query: string, env: Env, limit: number = 5): Promise<Array<{ id: string; text: string; score: number }>> {
-  log('info', 'Knowledge', 'Searching', { query, limit });
-  
-  try {
-    // Generate embedding using CF AI
-    const embedding = await env.AI.run('@cf/baai/bge-base-en-v1.5', { text: query });
-    
-    // Search vectorize
-    const results = await env.VECTORS.query(embedding.data[0], { topK: limit });
-    log('info', 'Knowledge', 'Vectorize results', { count: results.matches?.length || 0 });
-    
-    // Fetch full texts from KV
-    const knowledge = await Promise.all(
-      (results.matches || []).map(async (match: any) => {
-        const text = await env.AGENT_STORE.get(`knowledge:${match.id}`);
-        return {
-          id: match.id,
-          text: text || '',
-          score: match.score,
-        };
-      })
-    );
-    
-    return knowledge.filter(k => k.text);
-  } catch (error) {
-    log('warn', 'Knowledge', 'Search failed, returning empty', { error });
-    return [];
+// Tokens left for replayed history once the fixed prompt and reply are reserved
+function getHistoryBudget(config: AgentConfig, fixedMessages: LLMMessage[]): number {
+  const contextWindow = config.capabilities?.chat?.contextWindow || DEFAULT_CHAT_CAPABILITIES.contextWindow;
+  const maxTokens = config.capabilities?.chat?.maxTokens || DEFAULT_CHAT_CAPABILITIES.maxTokens;
+  const fixedTokens = fixedMessages.reduce((total, message) => total + estimateTokens(message.content), 0);
+  return Math.max(0, contextWindow - maxTokens - fixedTokens);
+}
+
+// Roll older turns into the running session summary
+async function summarizeTurns(previousSummary: string, turns: SessionTurn[], config: AgentConfig, env: Env): Promise<string> {
+  log('info', 'Chat', 'Summarizing turns', { turns: turns.length });
+  
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'User' : config.persona.name}: ${turn.content}`).join('\n');
+  const response = await completeChat(config, env, [
+    {
+      role: 'system',
+      content: 'You maintain the running memory of a wellness coaching conversation. Merge the existing summary with the new transcript into one concise summary. Keep names, goals, feelings, commitments and anything the user asked to be remembered. Write in third person about the user.',
+    },
+    {
+      role: 'user',
+      content: `Existing summary:\n${previousSummary || '(none)'}\n\nNew transcript:\n${transcript}`,
+    },
+  ]);
+  
+  if (!response.text) {
+    throw new Error('Empty summary returned');
   }
+  return response.text;
 }
 
-// Pow3r Pass credential fetch
-async function fetchPow3rPassCredential(provider: string): Promise<string | null> {
-  log('info', 'Pow3rPass', 'Fetching credential', { provider });
+// MP3 chunks synthesized sentence by sentence and written in order as one stream
+function streamVoice(text: string, env: Env, ctx: ExecutionContext, config: AgentConfig, overrides: TTSOverrides): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const speechStreaming = resolveSpeechStreaming(config);
+  const chunker = createSentenceChunker(speechStreaming.maxChunkChars);
+  const speech = createSpeechPipeline({
+    concurrency: speechStreaming.concurrency,
+    synthesize: chunk => synthesizeSpeech(chunk, env, ctx, config, overrides),
+    deliver: voiced => writer.write(new Uint8Array(voiced.audio)),
+  });
   
-  try {
-    const response = await fetch(`https://config.superbots.link/pass/credentials/${provider}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'X-Agent-ID': 'maxi',
-      },
-    });
-    
-    if (!response.ok) {
-      log('warn', 'Pow3rPass', 'Credential not found', { provider, status: response.status });
-      return null;
+  ctx.waitUntil((async () => {
+    try {
+      [...chunker.push(text || ''), ...chunker.flush()].forEach(speech.push);
+      const delivered = await speech.finish();
+      log('info', 'Voice', 'Voice stream complete', { delivered });
+      await writer.close();
+    } catch (error) {
+      log('error', 'Voice', 'Voice stream failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+      await writer.abort(error);
     }
-    
-    const data = await response.json() as { token: string };
-    log('info', 'Pow3rPass', 'Credential fetched', { provider });
-    return data.token;
-  } catch (error) {
-    log('warn', 'Pow3rPass', 'Fetch failed', { provider, error });
+  })());
+  
+  return new Response(readable, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'audio/mpeg',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+// Lip sync settings when the config asks for viseme output, otherwise null
+function getLipSync(config: AgentConfig): LipSyncConfig | null {
+  const lipSync = config.visual?.lipSync;
+  if (!config.visual?.enabled || lipSync?.mode !== 'viseme' || lipSync.visemeMapping?.enabled === false) {
     return null;
   }
+  return lipSync;
 }
 
-// MCP handler
-async function handleMCP(request: any, env: Env, ctx: ExecutionContext): Promise<any> {
-  const { method, params } = request;
-  log('info', 'MCP', 'Handling request', { method });
-  
-  switch (method) {
-    case 'tools/list':
+// Voice plus a viseme timeline, timed by the provider or estimated from the text
+async function synthesizeWithVisemes(
+  text: string,
+  env: Env,
+  ctx: ExecutionContext,
+  config: AgentConfig,
+  lipSync: LipSyncConfig,
+  overrides: TTSOverrides = {}
+): Promise<TTSResult & { visemes: VisemeTimeline }> {
+  const fromTts = lipSync.visemeMapping?.phonemeSource !== 'text';
+  const result = await synthesizeSpeech(text, env, ctx, config, { ...overrides, timestamps: fromTts });
+  const { audio, script, alignment } = result;
+  const visemes = buildVisemeTimeline(
+    alignment || estimateAlignment(script.segments.map(segment => segment.text).join(' '), audio.byteLength * 8 / MP3_KBPS),
+    lipSync
+  );
+  log('info', 'Voice', 'Visemes mapped', { source: alignment ? 'tts' : 'estimate', cues: visemes.cues.length, duration: visemes.duration });
+  return { ...result, visemes };
+}
+
+// MCP callers hold admin keys rather than user sessions; count them by MCP session and IP
+function mcpRateLimitSubject(request: Request): RateLimitSubject {
+  return rateLimitSubject(request, undefined, request.headers.get('Mcp-Session-Id') || undefined);
+}
+
+// MCP tools
+const mcpTools: McpTool[] = [
+  {
+    name: 'agent_chat',
+    description: 'Send a message to Maxi and get a coaching reply with knowledge context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', minLength: 1, description: 'The user message' },
+        sessionId: { type: 'string', description: 'Continue an existing conversation' },
+        userId: { type: 'string', pattern: '^[A-Za-z0-9_-]{8,64}$', description: 'Include this user\'s tracking context' },
+        includeVoice: { type: 'boolean', description: 'Also synthesize the reply as audio' },
+      },
+      required: ['message'],
+      additionalProperties: false,
+    },
+    handler: (args, env, ctx, request) => handleChat(args as ChatRequest, env, ctx, new URL(request.url).origin, mcpRateLimitSubject(request)),
+  },
+  {
+    name: 'agent_voice',
+    description: 'Generate a YAIP-processed voice response for the given text, with the speech script used',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', minLength: 1, description: 'Text to speak' },
+        voiceId: { type: 'string', pattern: VOICE_ID_PATTERN.source, description: 'Override the configured voice (primary provider only)' },
+        settings: {
+          type: 'object',
+          description: 'Override voice settings',
+          properties: {
+            stability: { type: 'number', minimum: 0, maximum: 1 },
+            similarityBoost: { type: 'number', minimum: 0, maximum: 1 },
+            style: { type: 'number', minimum: 0, maximum: 1 },
+            speed: { type: 'number', minimum: 0.25, maximum: 4 },
+          },
+          additionalProperties: false,
+        },
+      },
+      required: ['text'],
+      additionalProperties: false,
+    },
+    handler: async (args, env, ctx, request) => {
+      const config = await loadAgentConfig(env);
+      await consumeBudget(env, config, 'ttsCharacters', mcpRateLimitSubject(request), args.text.length);
+      const { audio, script } = await synthesizeSpeech(args.text, env, ctx, config, { voiceId: args.voiceId, settings: args.settings });
       return {
-        tools: [
-          { name: 'agent_chat', description: 'Send a message to Maxi' },
-          { name: 'agent_voice', description: 'Generate voice response' },
-          { name: 'agent_search', description: 'Search knowledge base' },
-          { name: 'agent_config', description: 'Get or update agent config' },
-          { name: 'agent_status', description: 'Get agent status' },
+        content: [
+          { type: 'audio', data: toBase64(audio), mimeType: 'audio/mpeg' },
+          { type: 'text', text: script.markup },
         ],
       };
-    
-    case 'tools/call':
-      const { name, arguments: args } = params;
-      log('info', 'MCP', 'Tool call', { name });
-      
-      switch (name) {
-        case 'agent_chat':
-          return handleChat(args, env, ctx);
-        case 'agent_voice':
-          const audio = await synthesizeVoice(args.text, env);
-          return { success: true, audioLength: audio.byteLength };
-        case 'agent_search':
-          return { results: await searchKnowledge(args.query, env) };
-        case 'agent_config':
-          const config = await env.AGENT_STORE.get('agent-config', 'json');
-          return config || getDefaultConfig(env);
-        case 'agent_status':
-          return getAgentStats(env);
+    },
+  },
+  {
+    name: 'agent_search',
+    description: "Search Maxi's knowledge base",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search query' },
+        limit: { type: 'integer', minimum: 1, maximum: 20, description: 'Maximum results (default: knowledge.vectorConfig.topK)' },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+    handler: async (args, env) => {
+      const options = resolveRetrievalOptions(await loadAgentConfig(env), args.limit ? { topK: args.limit } : {});
+      return { results: await searchKnowledge(args.query, env, options) };
+    },
+  },
+  {
+    name: 'agent_config',
+    description: 'Get the current agent config',
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+    handler: (_args, env) => loadAgentConfig(env),
+  },
+  {
+    name: 'agent_status',
+    description: 'Get agent status, all-time usage counters and per-day usage series',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'First day of the series, YYYY-MM-DD (default: 29 days before `to`)' },
+        to: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Last day of the series, YYYY-MM-DD (default: today, UTC)' },
+      },
+      additionalProperties: false,
+    },
+    handler: (args, env) => {
+      const range = parseDateRange(new URLSearchParams(args));
+      if (!range) {
+        throw new Error('from and to must be valid dates, in order, at most 366 days apart');
+      }
+      return getAgentStats(env, range);
+    },
+  },
+  {
+    name: 'agent_journal',
+    description: 'Guided journaling: generate a prompt from recent conversation themes, or create, list, search, read and edit dated journal entries',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['prompt', 'create', 'list', 'search', 'get', 'update'] },
+        userId: { type: 'string', pattern: '^[A-Za-z0-9_-]{8,64}$', description: 'Journal owner' },
+        sessionId: { type: 'string', description: 'Chat session to draw themes from (prompt)' },
+        entryId: { type: 'string', description: 'Entry to read or edit (get, update)' },
+        content: { type: 'string', minLength: 1, maxLength: 20000, description: 'Entry text (create, update)' },
+        prompt: { type: 'string', description: 'The prompt being answered (create)' },
+        date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Entry date, YYYY-MM-DD (create, update)' },
+        tags: { type: 'array', items: { type: 'string' } },
+        query: { type: 'string', minLength: 1, description: 'Search terms (search)' },
+        limit: { type: 'integer', minimum: 1, maximum: 100 },
+      },
+      required: ['action', 'userId'],
+      additionalProperties: false,
+    },
+    handler: async (args, env) => {
+      const { action, userId } = args;
+      switch (action) {
+        case 'prompt':
+          return generateJournalPrompt(env, await loadAgentConfig(env), userId, args.sessionId);
+        case 'create':
+          if (!args.content) throw new Error('content is required to create an entry');
+          return createJournalEntry(env, userId, args as { content: string });
+        case 'list':
+          return { entries: await listJournalEntries(env, userId, args.limit || 20) };
+        case 'search':
+          if (!args.query) throw new Error('query is required to search');
+          return searchJournalEntries(env, userId, args.query, args.limit || 20);
+        case 'get':
+        case 'update': {
+          if (!args.entryId) throw new Error('entryId is required');
+          const entry = action === 'get'
+            ? await getJournalEntry(env, userId, args.entryId)
+            : await updateJournalEntry(env, userId, args.entryId, args);
+          if (!entry) throw new Error(`Journal entry not found: ${args.entryId}`);
+          return entry;
+        }
+        default:
+          throw new Error(`Unknown journal action: ${action}`);
+      }
+    },
+  },
+  {
+    name: 'agent_mood_check',
+    description: 'Record a mood check-in (score, emotions, note) or read mood history and trends: rolling averages, streaks, weekday/time-of-day breakdowns and notable shifts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['check_in', 'history', 'trends'] },
+        userId: { type: 'string', pattern: '^[A-Za-z0-9_-]{8,64}$', description: 'Whose mood log' },
+        score: { type: 'integer', minimum: 1, maximum: 10, description: 'Mood score, 1 (very low) to 10 (great) (check_in)' },
+        emotions: { type: 'array', items: { type: 'string' }, description: 'Emotion labels (check_in)' },
+        note: { type: 'string', maxLength: 2000, description: 'Free-text note (check_in)' },
+        timezoneOffset: { type: 'integer', minimum: -840, maximum: 840, description: 'Minutes behind UTC, as from Date.getTimezoneOffset()' },
+        days: { type: 'integer', minimum: 1, maximum: 365, description: 'History window in days (history)' },
+      },
+      required: ['action', 'userId'],
+      additionalProperties: false,
+    },
+    handler: async (args, env) => {
+      switch (args.action) {
+        case 'check_in': {
+          const error = validateMoodInput(args);
+          if (error) throw new Error(error);
+          return recordMoodCheckIn(env, args.userId, args as { score: number });
+        }
+        case 'history':
+          return { checkIns: await getMoodHistory(env, args.userId, args.days || 30) };
+        case 'trends':
+          return getMoodTrends(env, args.userId, args.timezoneOffset || 0);
+        default:
+          throw new Error(`Unknown mood action: ${args.action}`);
+      }
+    },
+  },
+  {
+    name: 'agent_goal_track',
+    description: 'Personal goal setting and tracking: create goals with milestones and a cadence, record check-ins, update status, and list goals with progress and stalled-goal detection',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['create', 'list', 'check_in', 'update'] },
+        userId: { type: 'string', pattern: '^[A-Za-z0-9_-]{8,64}$', description: 'Goal owner' },
+        goalId: { type: 'string', description: 'Goal to check in on or update (check_in, update)' },
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        motivation: { type: 'string', maxLength: 2000, description: 'Why this goal matters' },
+        milestones: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Milestone titles (create), or milestones to add (update)' },
+        cadence: { type: 'string', enum: GOAL_CADENCES },
+        status: { type: 'string', enum: GOAL_STATUSES, description: 'New status (update) or filter (list)' },
+        targetDate: { type: 'string', format: 'date-time' },
+        note: { type: 'string', maxLength: 2000, description: 'Check-in note (check_in)' },
+        progress: { type: 'number', minimum: 0, maximum: 100, description: 'Self-reported completion percent (check_in)' },
+        milestoneId: { type: 'string', description: 'Milestone completed with this check-in (check_in)' },
+      },
+      required: ['action', 'userId'],
+      additionalProperties: false,
+    },
+    handler: async (args, env) => {
+      const { action, userId } = args;
+      switch (action) {
+        case 'create': {
+          const error = validateGoalInput(args, true);
+          if (error) throw new Error(error);
+          return createGoal(env, userId, args as { title: string });
+        }
+        case 'list':
+          return { goals: await listGoals(env, userId, args.status) };
+        case 'check_in':
+        case 'update': {
+          if (!args.goalId) throw new Error('goalId is required');
+          if (action === 'update') {
+            const error = validateGoalInput(args, false);
+            if (error) throw new Error(error);
+          }
+          const goal = action === 'check_in'
+            ? await checkInGoal(env, userId, args.goalId, args)
+            : await updateGoal(env, userId, args.goalId, { ...args, addMilestones: args.milestones });
+          if (!goal) throw new Error(`Goal not found: ${args.goalId}`);
+          return goal;
+        }
         default:
-          return { error: `Unknown tool: ${name}` };
+          throw new Error(`Unknown goal action: ${action}`);
       }
-    
-    default:
-      return { error: `Unknown method: ${method}` };
+    },
+  },
+];
+
+// MCP resources: the agent config and knowledge entries
+const mcpResources: McpResourceSource = {
+  templates: [
+    {
+      uriTemplate: 'maxi://knowledge/{id}',
+      name: 'Knowledge entry',
+      description: "A chunk of Maxi's knowledge base",
+      mimeType: 'text/plain',
+    },
+  ],
+  async list(env, cursor) {
+    const page = await env.AGENT_STORE.list<KnowledgeChunkMetadata>({ prefix: 'knowledge:', cursor });
+    const knowledge = page.keys.map(key => {
+      const id = key.name.slice('knowledge:'.length);
+      const name = key.metadata
+        ? `${key.metadata.title}${key.metadata.section ? ` - ${key.metadata.section}` : ''} (${key.metadata.chunk + 1})`
+        : `Knowledge ${id}`;
+      return { uri: `maxi://knowledge/${id}`, name, mimeType: 'text/plain' };
+    });
+    return {
+      resources: [
+        ...(cursor ? [] : [{ uri: 'maxi://config', name: 'Agent config', description: 'Current agent configuration', mimeType: 'application/json' }]),
+        ...knowledge,
+      ],
+      ...(page.list_complete ? {} : { nextCursor: page.cursor }),
+    };
+  },
+  async read(uri, env) {
+    if (uri === 'maxi://config') {
+      const config = await loadAgentConfig(env);
+      return { mimeType: 'application/json', text: JSON.stringify(config, null, 2) };
+    }
+    if (uri.startsWith('maxi://knowledge/')) {
+      const text = await env.AGENT_STORE.get(`knowledge:${uri.slice('maxi://knowledge/'.length)}`);
+      return text === null ? null : { mimeType: 'text/plain', text };
+    }
+    return null;
+  },
+};
+
+const mcpServer: McpServer = {
+  instructions: 'Maxi is a wellness coach. Use agent_chat for coaching conversations and agent_search to look up psychology and relationships knowledge.',
+  tools: mcpTools,
+  resources: mcpResources,
+};
+
+// The tools listed in capabilities.mcpTools (all when unset), minus those whose capability is off
+function configuredMcpServer(config: AgentConfig): McpServer {
+  const listed = config.capabilities.mcpTools;
+  const tools = mcpTools.filter(tool =>
+    (!listed || listed.includes(tool.name)) &&
+    (tool.name !== 'agent_chat' || isChatEnabled(config)) &&
+    (tool.name !== 'agent_voice' || isVoiceOutputEnabled(config)));
+  return { ...mcpServer, tools };
+}
+
+// Base64-encode binary data for MCP content blocks
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return btoa(binary);
 }
 
-// Agent stats
-async function getAgentStats(env: Env): Promise<any> {
-  log('info', 'Stats', 'Fetching');
+// Agent status with usage series for `range`
+async function getAgentStats(env: Env, range: DateRange): Promise<any> {
+  log('info', 'Stats', 'Fetching', range);
   
-  const sessionsRaw = await env.AGENT_STORE.get('stats:sessions');
-  const messagesRaw = await env.AGENT_STORE.get('stats:messages');
+  const [config, analytics] = await Promise.all([loadAgentConfig(env), getAnalytics(env, range)]);
   
   return {
-    agent: env.AGENT_NAME || 'Maxi',
+    agent: config.persona.name,
     status: 'active',
-    sessions: sessionsRaw ? parseInt(sessionsRaw) : 0,
-    messages: messagesRaw ? parseInt(messagesRaw) : 0,
-    uptime: '24/7',
-    model: `${env.LLM_PROVIDER || 'xai'}/${env.LLM_MODEL || 'grok-2'}`,
-    tts: env.TTS_PROVIDER || 'elevenlabs',
+    // All-time counts
+    sessions: analytics.allTime.sessions,
+    messages: analytics.allTime.messages,
+    safetyFlags: analytics.allTime.safetyFlags,
+    since: analytics.since,
+    model: `${config.capabilities.llm.provider}/${config.capabilities.llm.model}`,
+    tts: config.voice.ttsProvider,
+    ttsCache: analytics.allTime.ttsCache,
+    analytics,
   };
 }
-
-// Increment stat counter
-async function incrementStat(env: Env, stat: string): Promise<void> {
-  const key = `stats:${stat}`;
-  const current = await env.AGENT_STORE.get(key);
-  const value = (current ? parseInt(current) : 0) + 1;
-  await env.AGENT_STORE.put(key, String(value));
-  log('debug', 'Stats', 'Incremented', { stat, value });
-}
-
-// JSON response helper
-function jsonResponse(data: any, status: number = 200): Response {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: {
-      ...corsHeaders,
-      'Content-Type': 'application/json',
-    },
-  });
-}
@@ -0,0 +1,209 @@
+/**
+ * YAIP Speech Pipeline
+ *
+ * Turns a chat reply into a speech script before TTS: strips markdown,
+ * splits the reply into sentence segments, classifies each into a
+ * narrative archetype, applies the profile's terminology overrides and
+ * prosody mapping, and renders the markup the TTS provider understands.
+ */
+
+import { log } from './logger';
+import type { AgentConfig, ProsodySetting } from './types';
+
+// Markup flavour a TTS provider accepts
+export type SpeechDialect = 'ssml' | 'elevenlabs' | 'plain';
+
+export interface SpeechSegment {
+  text: string;
+  archetype: string;
+  speed: number;
+  pitch: string;
+  emphasis: string[];
+  breakAfterMs: number;
+}
+
+export interface SpeechScript {
+  dialect: SpeechDialect;
+  segments: SpeechSegment[];
+  markup: string;
+  // Overall rate for providers that only take one (weighted by segment length)
+  speed: number;
+}
+
+const DEFAULT_PROSODY: ProsodySetting = { speed: '1.0', pitch: '0st' };
+
+// Cue phrases per archetype; a trailing question mark also counts toward `challenge`
+const ARCHETYPE_CUES: Record<string, RegExp> = {
+  empathy: /\b(i hear you|that sounds|it sounds like|i understand|understandable|feel(?:s|ing)?|hurt(?:s|ing)?|hard|painful|tough|sorry)\b/gi,
+  validation: /\b(makes sense|valid|normal|natural|not alone|ok(?:ay)? to|allowed to|nothing wrong|human)\b/gi,
+  insight: /\b(research|stud(?:y|ies)|often|usually|pattern|because|means|tends? to|the reason|attachment|psycholog\w*)\b/gi,
+  challenge: /\b(honest(?:ly)?|what if|have you considered|ask yourself|instead|stop|need to|hard truth|let's be real|notice)\b/gi,
+  empowerment: /\b(you can|you've got|you have what|capable|strength|proud|believe in|your choice|you deserve|next step)\b/gi,
+};
+
+const SENTENCE_BREAK_MS = 250;
+const ARCHETYPE_CHANGE_BREAK_MS = 500;
+const QUESTION_BREAK_MS = 200;
+const PARAGRAPH_BREAK_MS = 800;
+// ElevenLabs accepts speeds in this range
+const MIN_SPEED = 0.7;
+const MAX_SPEED = 1.2;
+
+// Providers that read markup aloud get plain text
+const PLAIN_TEXT_PROVIDERS = new Set(['workers-ai', 'openai', 'openai-compatible']);
+
+export function dialectFor(ttsProvider: string): SpeechDialect {
+  if (ttsProvider === 'elevenlabs') return 'elevenlabs';
+  return PLAIN_TEXT_PROVIDERS.has(ttsProvider) ? 'plain' : 'ssml';
+}
+
+// Markdown and citation markers read badly aloud
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function classify(sentence: string, archetypes: string[], previous: string | null): string {
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const archetype of archetypes) {
+    const cues = ARCHETYPE_CUES[archetype];
+    let score = cues ? (sentence.match(cues) || []).length : 0;
+    if (archetype === 'challenge' && sentence.trim().endsWith('?')) score += 1;
+    if (score > bestScore) {
+      best = archetype;
+      bestScore = score;
+    }
+  }
+  // Unmarked sentences continue the current beat of the narrative
+  return best || previous || (archetypes.includes('insight') ? 'insight' : archetypes[0]) || 'insight';
+}
+
+const MODALS = new Set(['will', 'would', 'can', 'could', 'shall', 'should', 'may', 'might', 'must']);
+
+/**
+ * Replace weak wording with the configured strong forms, keeping
+ * capitalisation. A modal replacement swallows a following "to" ("try to
+ * call" -> "will call") and is skipped before a gerund ("try calling") or
+ * after another modal ("I'll try").
+ */
+function applyTerminology(sentence: string, weakToStrong: Record<string, string>): { text: string; replaced: string[] } {
+  const replaced: string[] = [];
+  let text = sentence;
+  for (const [weak, strong] of Object.entries(weakToStrong)) {
+    const modal = MODALS.has(strong.toLowerCase());
+    text = text.replace(new RegExp(`\\b${escapeRegExp(weak)}\\b(\\s+to\\b)?(?=(\\s+\\w+)?)`, 'gi'), (match, to: string | undefined, next: string | undefined, offset: number, whole: string) => {
+      if (modal && !to && next && /ing$/i.test(next.trim())) return match;
+      // "I'll try" or "you can try" already carries a modal
+      const before = whole.slice(0, offset).trimEnd().split(/\s+/).pop()?.toLowerCase() || '';
+      if (modal && (MODALS.has(before) || /'(ll|d)$/.test(before))) return match;
+      replaced.push(strong);
+      const word = match.trimEnd().split(/\s+/)[0];
+      const cased = word[0] === word[0].toUpperCase() ? strong[0].toUpperCase() + strong.slice(1) : strong;
+      return to && !modal ? `${cased}${to}` : cased;
+    });
+  }
+  return { text, replaced };
+}
+
+function formatBreak(ms: number, dialect: SpeechDialect): string {
+  return dialect === 'elevenlabs' ? `<break time="${(ms / 1000).toFixed(1)}s" />` : `<break time="${ms}ms"/>`;
+}
+
+function renderSegment(segment: SpeechSegment, dialect: SpeechDialect, voice: AgentConfig['voice']): string {
+  if (dialect === 'plain') return segment.text;
+  const ssml = voice.ssmlConfig;
+  let text = escapeXml(segment.text);
+  if (dialect !== 'ssml') return text;
+
+  if (ssml?.includeEmphasis) {
+    for (const word of new Set(segment.emphasis)) {
+      text = text.replace(new RegExp(`\\b(${escapeRegExp(word)})\\b`, 'gi'), '<emphasis level="moderate">$1</emphasis>');
+    }
+  }
+  if (ssml?.includeProsody && (segment.speed !== 1 || !/^[+-]?0st$/.test(segment.pitch))) {
+    text = `<prosody rate="${Math.round(segment.speed * 100)}%" pitch="${segment.pitch}">${text}</prosody>`;
+  }
+  return text;
+}
+
+/**
+ * Build the speech script for a reply. Terminology overrides apply whenever
+ * a YAIP profile is configured; markup is only emitted when ssmlConfig is
+ * enabled, and only the parts the dialect supports.
+ */
+export function processForSpeech(text: string, voice: AgentConfig['voice'], dialect: SpeechDialect = dialectFor(voice.ttsProvider)): SpeechScript {
+  const profile = voice.yaipProfile;
+  const archetypes = profile?.narrativeFlow?.archetypes || Object.keys(ARCHETYPE_CUES);
+  const prosody = profile?.narrativeFlow?.prosodyMapping || {};
+  const weakToStrong = profile?.terminologyOverrides?.weakToStrong || {};
+  const markupEnabled = !!voice.ssmlConfig?.enabled && dialect !== 'plain';
+  const effectiveDialect: SpeechDialect = markupEnabled ? dialect : 'plain';
+
+  const segments: SpeechSegment[] = [];
+  let previous: string | null = null;
+
+  const paragraphs = stripMarkdown(text).split(/\n{2,}/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    const sentences = paragraph.split(/(?<=[.!?])\s+/).filter(Boolean);
+    sentences.forEach((sentence, sentenceIndex) => {
+      const archetype = classify(sentence, archetypes, previous);
+      const { text: rewritten, replaced } = applyTerminology(sentence, weakToStrong);
+      const setting = prosody[archetype] || DEFAULT_PROSODY;
+      const speed = parseFloat(setting.speed) || 1;
+
+      // Pauses grow at beat changes, questions and paragraph ends
+      const lastInParagraph = sentenceIndex === sentences.length - 1;
+      const lastOverall = lastInParagraph && paragraphIndex === paragraphs.length - 1;
+      let breakAfterMs = lastOverall ? 0 : lastInParagraph ? PARAGRAPH_BREAK_MS : SENTENCE_BREAK_MS;
+      if (!lastOverall && sentence.endsWith('?')) breakAfterMs += QUESTION_BREAK_MS;
+
+      const segment: SpeechSegment = { text: rewritten, archetype, speed, pitch: setting.pitch, emphasis: replaced, breakAfterMs };
+      const prior = segments[segments.length - 1];
+      if (prior && prior.archetype !== archetype && prior.breakAfterMs < ARCHETYPE_CHANGE_BREAK_MS) {
+        prior.breakAfterMs = ARCHETYPE_CHANGE_BREAK_MS;
+      }
+      segments.push(segment);
+      previous = archetype;
+    });
+  });
+
+  const includeBreaks = markupEnabled && !!voice.ssmlConfig?.includeBreaks;
+  const body = segments.map(segment => {
+    const rendered = renderSegment(segment, effectiveDialect, voice);
+    return includeBreaks && segment.breakAfterMs ? `${rendered} ${formatBreak(segment.breakAfterMs, effectiveDialect)}` : rendered;
+  }).join(' ');
+
+  const totalLength = segments.reduce((total, s) => total + s.text.length, 0) || 1;
+  const weightedSpeed = segments.reduce((total, s) => total + s.speed * s.text.length, 0) / totalLength;
+  const speed = voice.ssmlConfig?.includeProsody
+    ? Math.min(MAX_SPEED, Math.max(MIN_SPEED, Math.round(weightedSpeed * 100) / 100))
+    : 1;
+
+  log('info', 'YAIP', 'Speech script built', {
+    dialect: effectiveDialect,
+    segments: segments.length,
+    archetypes: [...new Set(segments.map(s => s.archetype))],
+    replacements: segments.reduce((total, s) => total + s.emphasis.length, 0),
+  });
+
+  return {
+    dialect: effectiveDialect,
+    segments,
+    markup: effectiveDialect === 'ssml' ? `<speak>${body}</speak>` : body,
+    speed,
+  };
+}